@@ -0,0 +1,67 @@
+import { createValidationIssue, ValidationError } from '../errors'
+import { CPF } from '../factories'
+import { CpfString, ValidationErrorCode, ValidationOptions } from '../types'
+
+/**
+ * Verifica se um valor é uma string com um CPF válido na forma normalizada, apenas com dígitos.
+ * CPFs formatados, como "529.982.247-25", devem ser convertidos com `toCpfString`.
+ * @param value - Valor a ser verificado.
+ * @returns {boolean} true se o valor for um CPF válido e normalizado.
+ */
+export function isCpf(value: unknown): value is CpfString {
+  if (typeof value !== 'string') {
+    return false
+  }
+
+  const result = CPF.parse(value)
+  return result.ok && result.value.raw === value
+}
+
+/**
+ * Garante que um valor é uma string com um CPF válido na forma normalizada, apenas com dígitos.
+ * @param value - Valor a ser verificado.
+ * @param options - Opções de validação, como o idioma das mensagens de erro.
+ * @throws {TypeError} Se o valor não for uma string.
+ * @throws {ValidationError} Se o CPF for inválido ou, com o código `VALUE_NOT_NORMALIZED`, se
+ * estiver formatado.
+ */
+export function assertCpf(
+  value: unknown,
+  options: ValidationOptions = {},
+): asserts value is CpfString {
+  if (typeof value !== 'string') {
+    throw new TypeError('O CPF deve ser uma string')
+  }
+
+  const cpf = new CPF(value, options)
+  if (cpf.raw !== value) {
+    throw new ValidationError([
+      createValidationIssue(ValidationErrorCode.VALUE_NOT_NORMALIZED, value, options, {
+        expected: cpf.raw,
+      }),
+    ])
+  }
+}
+
+/**
+ * Converte um CPF em string marcada, apenas com dígitos.
+ * @param cpf - Instância de CPF ou string com um CPF, com ou sem formatação.
+ * @param options - Opções de validação, como o idioma das mensagens de erro.
+ * @returns {CpfString} CPF sem formatação.
+ * @throws {ValidationError} Se a string informada não for um CPF válido.
+ */
+export function toCpfString(cpf: CPF | string, options: ValidationOptions = {}): CpfString {
+  const instance = cpf instanceof CPF ? cpf : new CPF(cpf, options)
+  return instance.raw as CpfString
+}
+
+/**
+ * Cria uma instância de CPF a partir de uma string marcada.
+ * O construtor valida a string novamente, o que protege contra marcações forçadas com `as`.
+ * @param cpf - CPF já validado.
+ * @returns {CPF} Instância correspondente.
+ * @throws {ValidationError} Se a string não for um CPF válido.
+ */
+export function fromCpfString(cpf: CpfString): CPF {
+  return new CPF(cpf)
+}
@@ -0,0 +1,67 @@
+import { createValidationIssue, ValidationError } from '../errors'
+import { Email } from '../factories'
+import { EmailString, ValidationErrorCode, ValidationOptions } from '../types'
+
+/**
+ * Verifica se um valor é uma string com um email válido na forma normalizada, em minúsculas e sem
+ * espaços. Emails como " Maria@Empresa.com " devem ser convertidos com `toEmailString`.
+ * @param value - Valor a ser verificado.
+ * @returns {boolean} true se o valor for um email válido e normalizado.
+ */
+export function isEmail(value: unknown): value is EmailString {
+  if (typeof value !== 'string') {
+    return false
+  }
+
+  const result = Email.parse(value)
+  return result.ok && result.value.raw === value
+}
+
+/**
+ * Garante que um valor é uma string com um email válido na forma normalizada.
+ * @param value - Valor a ser verificado.
+ * @param options - Opções de validação, como o idioma das mensagens de erro.
+ * @throws {TypeError} Se o valor não for uma string.
+ * @throws {ValidationError} Se o email for inválido ou, com o código `VALUE_NOT_NORMALIZED`, se
+ * não estiver normalizado.
+ */
+export function assertEmail(
+  value: unknown,
+  options: ValidationOptions = {},
+): asserts value is EmailString {
+  if (typeof value !== 'string') {
+    throw new TypeError('O email deve ser uma string')
+  }
+
+  const email = new Email(value, options)
+  if (email.raw !== value) {
+    throw new ValidationError([
+      createValidationIssue(ValidationErrorCode.VALUE_NOT_NORMALIZED, value, options, {
+        expected: email.raw,
+      }),
+    ])
+  }
+}
+
+/**
+ * Converte um email em string marcada, no formato normalizado (em minúsculas e sem espaços).
+ * @param email - Instância de Email ou string com um email.
+ * @param options - Opções de validação, como o idioma das mensagens de erro.
+ * @returns {EmailString} Email normalizado.
+ * @throws {ValidationError} Se a string informada não for um email válido.
+ */
+export function toEmailString(email: Email | string, options: ValidationOptions = {}): EmailString {
+  const instance = email instanceof Email ? email : new Email(email, options)
+  return instance.raw as EmailString
+}
+
+/**
+ * Cria uma instância de Email a partir de uma string marcada.
+ * O construtor valida a string novamente, o que protege contra marcações forçadas com `as`.
+ * @param email - Email já validado.
+ * @returns {Email} Instância correspondente.
+ * @throws {ValidationError} Se a string não for um email válido.
+ */
+export function fromEmailString(email: EmailString): Email {
+  return new Email(email)
+}
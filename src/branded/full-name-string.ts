@@ -0,0 +1,72 @@
+import { createValidationIssue, ValidationError } from '../errors'
+import { FullName } from '../factories'
+import { FullNameOptions, FullNameString, ValidationErrorCode } from '../types'
+
+/**
+ * Verifica se um valor é uma string com um nome completo válido na forma normalizada pelas regras
+ * de validação. Nomes como "  maria  da silva" devem ser convertidos com `toFullNameString`.
+ * @param value - Valor a ser verificado.
+ * @param options - Regras de validação. Quando omitidas, usa as regras globais.
+ * @returns {boolean} true se o valor for um nome completo válido e normalizado.
+ */
+export function isFullName(value: unknown, options: FullNameOptions = {}): value is FullNameString {
+  if (typeof value !== 'string') {
+    return false
+  }
+
+  const result = FullName.parse(value, options)
+  return result.ok && result.value.raw === value
+}
+
+/**
+ * Garante que um valor é uma string com um nome completo válido na forma normalizada.
+ * @param value - Valor a ser verificado.
+ * @param options - Regras de validação e idioma das mensagens de erro.
+ * @throws {TypeError} Se o valor não for uma string.
+ * @throws {ValidationError} Se o nome for inválido ou, com o código `VALUE_NOT_NORMALIZED`, se não
+ * estiver normalizado.
+ */
+export function assertFullName(
+  value: unknown,
+  options: FullNameOptions = {},
+): asserts value is FullNameString {
+  if (typeof value !== 'string') {
+    throw new TypeError('O nome deve ser uma string')
+  }
+
+  const name = new FullName(value, options)
+  if (name.raw !== value) {
+    throw new ValidationError([
+      createValidationIssue(ValidationErrorCode.VALUE_NOT_NORMALIZED, value, options, {
+        expected: name.raw,
+      }),
+    ])
+  }
+}
+
+/**
+ * Converte um nome completo em string marcada, no formato normalizado pelas regras de validação.
+ * @param name - Instância de FullName ou string com um nome completo.
+ * @param options - Regras de validação e idioma das mensagens de erro.
+ * @returns {FullNameString} Nome normalizado.
+ * @throws {ValidationError} Se a string informada não for um nome completo válido.
+ */
+export function toFullNameString(
+  name: FullName | string,
+  options: FullNameOptions = {},
+): FullNameString {
+  const instance = name instanceof FullName ? name : new FullName(name, options)
+  return instance.raw as FullNameString
+}
+
+/**
+ * Cria uma instância de FullName a partir de uma string marcada.
+ * O construtor valida a string novamente, o que protege contra marcações forçadas com `as`.
+ * @param name - Nome já validado.
+ * @param options - Regras de validação. Devem ser as mesmas usadas na validação da string.
+ * @returns {FullName} Instância correspondente.
+ * @throws {ValidationError} Se o nome não atender às regras informadas.
+ */
+export function fromFullNameString(name: FullNameString, options: FullNameOptions = {}): FullName {
+  return new FullName(name, options)
+}
@@ -0,0 +1,3 @@
+export * from './cpf-string'
+export * from './email-string'
+export * from './full-name-string'
@@ -0,0 +1,129 @@
+import { CliUsageError } from '../errors'
+import { CliCommand, CliValueType, Locale } from '../types'
+
+/**
+ * Argumentos da linha de comando já interpretados.
+ */
+export interface CliArgs {
+  /** Subcomando a ser executado. */
+  command: CliCommand
+  /** Tipo de dado processado. */
+  type: CliValueType
+  /** Valores informados como argumentos. Quando vazio, os valores são lidos da entrada padrão. */
+  values: string[]
+  /** Indica se a saída deve ser emitida em JSON, um objeto por linha. */
+  json: boolean
+  /** Quantidade de valores gerados pelo subcomando `generate`. */
+  count: number
+  /** Semente do subcomando `generate`. Quando omitida, cada execução gera valores diferentes. */
+  seed?: number | string
+  /** Idioma das mensagens de erro. */
+  locale?: Locale
+}
+
+/**
+ * Opções que exigem um valor, como em `--count 10` ou `--count=10`.
+ */
+const valueOptions = ['--count', '--seed', '--locale']
+
+/**
+ * Verifica se um texto corresponde a um dos valores de um enum.
+ * @param values - Valores do enum.
+ * @param text - Texto a ser verificado.
+ * @returns {boolean} true se o texto for um dos valores.
+ */
+function isMember<T extends string>(values: Record<string, T>, text: string): text is T {
+  return (Object.values(values) as string[]).includes(text)
+}
+
+/**
+ * Converte o valor da opção `--count` em um inteiro positivo.
+ * @param text - Valor informado.
+ * @returns {number} Quantidade de valores a gerar.
+ * @throws {CliUsageError} Se o valor não for um inteiro positivo.
+ */
+function parseCount(text: string): number {
+  const count = Number(text)
+  if (!/^\d+$/.test(text) || count < 1) {
+    throw new CliUsageError(`Quantidade inválida: ${text}. Informe um inteiro positivo`)
+  }
+  return count
+}
+
+/**
+ * Interpreta os argumentos da linha de comando, sem o caminho do Node e do script.
+ * Sementes numéricas são convertidas em número, para que `--seed 42` produza os mesmos valores de
+ * `new FakeDataGenerator(42)`.
+ * @param argv - Argumentos, como em `process.argv.slice(2)`.
+ * @returns {CliArgs} Subcomando, tipo, valores e opções.
+ * @throws {CliUsageError} Se o subcomando, o tipo ou alguma opção for inválido.
+ */
+export function parseArgs(argv: readonly string[]): CliArgs {
+  const positional: string[] = []
+  const options = new Map<string, string>()
+  let json = false
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+
+    if (arg === '--json') {
+      json = true
+      continue
+    }
+
+    if (!arg.startsWith('--')) {
+      positional.push(arg)
+      continue
+    }
+
+    const [name, inline] = arg.includes('=')
+      ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+      : [arg, undefined]
+    if (!valueOptions.includes(name)) {
+      throw new CliUsageError(`Opção desconhecida: ${name}`)
+    }
+
+    const value = inline ?? argv[++i]
+    if (value === undefined || value === '') {
+      throw new CliUsageError(`A opção ${name} exige um valor`)
+    }
+    options.set(name, value)
+  }
+
+  const [command, type, ...values] = positional
+  if (command === undefined) {
+    throw new CliUsageError('Informe um subcomando')
+  }
+  if (!isMember(CliCommand, command)) {
+    throw new CliUsageError(`Subcomando desconhecido: ${command}`)
+  }
+  if (type === undefined) {
+    throw new CliUsageError(`Informe o tipo de dado do subcomando ${command}`)
+  }
+  if (!isMember(CliValueType, type)) {
+    throw new CliUsageError(`Tipo desconhecido: ${type}`)
+  }
+
+  const isGenerate = command === CliCommand.GENERATE
+  if (isGenerate && values.length > 0) {
+    throw new CliUsageError('O subcomando generate não recebe valores')
+  }
+  for (const name of ['--count', '--seed']) {
+    if (!isGenerate && options.has(name)) {
+      throw new CliUsageError(`A opção ${name} só é aceita pelo subcomando generate`)
+    }
+  }
+
+  const count = options.get('--count')
+  const seed = options.get('--seed')
+
+  return {
+    command,
+    type,
+    values,
+    json,
+    count: count === undefined ? 1 : parseCount(count),
+    seed: seed !== undefined && /^-?\d+$/.test(seed) ? Number(seed) : seed,
+    locale: options.get('--locale'),
+  }
+}
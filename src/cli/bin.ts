@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+import { runCli } from './run'
+
+runCli(process.argv.slice(2), process).then(
+  (exitCode) => {
+    process.exitCode = exitCode
+  },
+  (error: unknown) => {
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`)
+    process.exitCode = 1
+  },
+)
@@ -0,0 +1,217 @@
+import { createInterface } from 'readline'
+
+import { CliUsageError } from '../errors'
+import { CPF, Email, FullName } from '../factories'
+import { FakeDataGenerator } from '../fakers'
+import {
+  CliCommand,
+  CliExitCode,
+  CliValueType,
+  ValidationIssue,
+  ValidationOptions,
+  ValidationResult,
+} from '../types'
+import { CliArgs, parseArgs } from './args'
+
+/**
+ * Destino de escrita da linha de comando, como `process.stdout`.
+ */
+export interface CliOutput {
+  write(text: string): unknown
+}
+
+/**
+ * Entradas e saídas usadas pela linha de comando. Em produção, o próprio `process`.
+ */
+export interface CliIo {
+  /** Entrada padrão, lida linha a linha quando nenhum valor é informado nos argumentos. */
+  stdin: NodeJS.ReadableStream & { isTTY?: boolean }
+  /** Saída dos resultados. */
+  stdout: CliOutput
+  /** Saída das mensagens de erro. */
+  stderr: CliOutput
+}
+
+/**
+ * Representações de um valor válido exibidas pelos subcomandos.
+ */
+interface CliValue {
+  formatted: string
+  masked: string
+}
+
+/**
+ * Operações da linha de comando para um tipo de dado.
+ */
+interface CliValueHandler {
+  parse(input: string, options: ValidationOptions): ValidationResult<CliValue>
+  generate(fake: FakeDataGenerator): CliValue
+}
+
+/**
+ * Operações de cada tipo de dado aceito.
+ */
+const handlers: Record<CliValueType, CliValueHandler> = {
+  [CliValueType.CPF]: {
+    parse: (input, options) => CPF.parse(input, options),
+    generate: (fake) => fake.cpf(),
+  },
+  [CliValueType.EMAIL]: {
+    parse: (input, options) => Email.parse(input, options),
+    generate: (fake) => fake.email(),
+  },
+  [CliValueType.NAME]: {
+    parse: (input, options) => FullName.parse(input, options),
+    generate: (fake) => fake.fullName(),
+  },
+}
+
+/**
+ * Texto de ajuda da linha de comando.
+ */
+export const cliUsage = `Uso: package-crud <subcomando> <tipo> [valores...] [opções]
+
+Subcomandos:
+  validate <tipo> [valores...]   Valida os valores e exibe o resultado de cada um
+  format <tipo> [valores...]     Exibe os valores no formato padrão
+  mask <tipo> [valores...]       Exibe os valores mascarados, conforme a LGPD
+  generate <tipo>                Gera valores fictícios válidos
+
+Tipos: cpf, email, name
+
+Sem valores nos argumentos, os valores são lidos da entrada padrão, um por linha.
+
+Opções:
+  --json           Emite um objeto JSON por linha
+  --locale <id>    Idioma das mensagens de erro (pt-BR, en, es)
+  --count <n>      Quantidade de valores gerados (padrão: 1)
+  --seed <valor>   Semente da geração, para resultados reproduzíveis
+  -h, --help       Exibe esta ajuda
+
+Códigos de saída: 0 se todos os valores forem válidos, 1 se algum for inválido e 2 em caso de
+erro nos argumentos.
+`
+
+/**
+ * Lê os valores a processar: os argumentos ou, na falta deles, as linhas não vazias da entrada padrão.
+ * @param args - Argumentos interpretados.
+ * @param io - Entradas e saídas.
+ * @returns {AsyncGenerator<string>} Valores, sem espaços nas extremidades.
+ */
+async function* readValues(args: CliArgs, io: CliIo): AsyncGenerator<string> {
+  if (args.values.length > 0) {
+    yield* args.values
+    return
+  }
+
+  const lines = createInterface({ input: io.stdin, crlfDelay: Infinity })
+  for await (const line of lines) {
+    const value = line.trim()
+    if (value) {
+      yield value
+    }
+  }
+}
+
+/**
+ * Descreve os erros de um valor inválido em uma única linha.
+ * @param errors - Erros encontrados.
+ * @returns {string} Mensagens separadas por ponto e vírgula.
+ */
+function describeErrors(errors: ValidationIssue[]): string {
+  return errors.map((error) => error.message).join('; ')
+}
+
+/**
+ * Executa os subcomandos `validate`, `format` e `mask`.
+ * @param args - Argumentos interpretados.
+ * @param io - Entradas e saídas.
+ * @returns {Promise<CliExitCode>} Código de saída conforme a existência de valores inválidos.
+ */
+async function processValues(args: CliArgs, io: CliIo): Promise<CliExitCode> {
+  const handler = handlers[args.type]
+  let exitCode = CliExitCode.SUCCESS
+
+  for await (const input of readValues(args, io)) {
+    const result = handler.parse(input, { locale: args.locale })
+
+    if (!result.ok) {
+      exitCode = CliExitCode.INVALID_INPUT
+      if (args.json) {
+        const errors = result.errors.map(({ code, message }) => ({ code, message }))
+        io.stdout.write(`${JSON.stringify({ input, valid: false, errors })}\n`)
+      } else if (args.command === CliCommand.VALIDATE) {
+        io.stdout.write(`${input}\tinválido\t${describeErrors(result.errors)}\n`)
+      } else {
+        io.stderr.write(`${input}: ${describeErrors(result.errors)}\n`)
+      }
+      continue
+    }
+
+    const value = args.command === CliCommand.MASK ? result.value.masked : result.value.formatted
+    if (args.json) {
+      io.stdout.write(`${JSON.stringify({ input, valid: true, value })}\n`)
+    } else if (args.command === CliCommand.VALIDATE) {
+      io.stdout.write(`${input}\tválido\n`)
+    } else {
+      io.stdout.write(`${value}\n`)
+    }
+  }
+
+  return exitCode
+}
+
+/**
+ * Executa o subcomando `generate`.
+ * @param args - Argumentos interpretados.
+ * @param io - Entradas e saídas.
+ * @returns {CliExitCode} Código de saída de sucesso.
+ */
+function generateValues(args: CliArgs, io: CliIo): CliExitCode {
+  const fake = new FakeDataGenerator(args.seed ?? Date.now())
+  const handler = handlers[args.type]
+
+  for (let i = 0; i < args.count; i++) {
+    const value = handler.generate(fake).formatted
+    io.stdout.write(args.json ? `${JSON.stringify({ value })}\n` : `${value}\n`)
+  }
+
+  return CliExitCode.SUCCESS
+}
+
+/**
+ * Executa a linha de comando `package-crud`.
+ * @param argv - Argumentos, como em `process.argv.slice(2)`.
+ * @param io - Entradas e saídas. Em produção, o próprio `process`.
+ * @returns {Promise<CliExitCode>} Código de saída: 0 se todos os valores forem válidos, 1 se algum
+ * for inválido e 2 em caso de erro nos argumentos.
+ */
+export async function runCli(argv: readonly string[], io: CliIo): Promise<CliExitCode> {
+  if (argv.includes('--help') || argv.includes('-h')) {
+    io.stdout.write(cliUsage)
+    return CliExitCode.SUCCESS
+  }
+
+  let args: CliArgs
+  try {
+    args = parseArgs(argv)
+  } catch (error) {
+    if (!(error instanceof CliUsageError)) {
+      throw error
+    }
+    io.stderr.write(`${error.message}\n\n${cliUsage}`)
+    return CliExitCode.USAGE_ERROR
+  }
+
+  if (args.command === CliCommand.GENERATE) {
+    return generateValues(args, io)
+  }
+
+  // Sem valores e sem redirecionamento, a leitura da entrada padrão aguardaria indefinidamente
+  if (args.values.length === 0 && io.stdin.isTTY) {
+    io.stderr.write(`Informe os valores nos argumentos ou pela entrada padrão\n\n${cliUsage}`)
+    return CliExitCode.USAGE_ERROR
+  }
+
+  return processValues(args, io)
+}
@@ -0,0 +1,361 @@
+import { createValidationIssue, ValidationError } from '../errors'
+import { BrDate, BrDateInput } from '../factories'
+import { EmployeeStatus, Tenure, ValidationErrorCode, ValidationOptions } from '../types'
+
+/**
+ * Transições de status permitidas a partir de cada status.
+ * `DISMISSED` é terminal e `TRANSFERRED` só pode voltar a `NORMAL` ou ir para `DISMISSED`.
+ */
+export const employeeStatusTransitions: Readonly<
+  Record<EmployeeStatus, readonly EmployeeStatus[]>
+> = {
+  [EmployeeStatus.NORMAL]: [
+    EmployeeStatus.VACATION,
+    EmployeeStatus.LEAVE,
+    EmployeeStatus.TRANSFERRED,
+    EmployeeStatus.DISMISSED,
+  ],
+  [EmployeeStatus.VACATION]: [EmployeeStatus.NORMAL, EmployeeStatus.DISMISSED],
+  [EmployeeStatus.LEAVE]: [EmployeeStatus.NORMAL, EmployeeStatus.DISMISSED],
+  [EmployeeStatus.TRANSFERRED]: [EmployeeStatus.NORMAL, EmployeeStatus.DISMISSED],
+  [EmployeeStatus.DISMISSED]: [],
+}
+
+/**
+ * Status que admitem uma data prevista de retorno.
+ */
+const statusesWithReturnDate: readonly EmployeeStatus[] = [
+  EmployeeStatus.VACATION,
+  EmployeeStatus.LEAVE,
+]
+
+/**
+ * Representa uma data como texto para compor o valor informado de um erro de validação.
+ * @param date - Data a ser representada.
+ * @returns {string} Data no formato ISO ou o texto da data, se ela for inválida.
+ */
+function describeDate(date: Date): string {
+  return isNaN(date.getTime()) ? String(date) : date.toISOString()
+}
+
+/**
+ * Verifica se a transição entre dois status é permitida.
+ * @param from - Status atual.
+ * @param to - Status desejado.
+ * @returns {boolean} true se a transição for permitida, false caso contrário.
+ */
+export function canTransition(from: EmployeeStatus, to: EmployeeStatus): boolean {
+  return employeeStatusTransitions[from]?.includes(to) ?? false
+}
+
+/**
+ * Garante que a transição entre dois status é permitida.
+ * @param from - Status atual.
+ * @param to - Status desejado.
+ * @param options - Opções de validação, como o idioma das mensagens de erro.
+ * @throws {ValidationError} Com o código `STATUS_TRANSITION_NOT_ALLOWED` se a transição não for permitida.
+ */
+export function assertTransition(
+  from: EmployeeStatus,
+  to: EmployeeStatus,
+  options: ValidationOptions = {},
+): void {
+  if (!canTransition(from, to)) {
+    throw new ValidationError([
+      createValidationIssue(ValidationErrorCode.STATUS_TRANSITION_NOT_ALLOWED, to, options, {
+        from,
+        to,
+      }),
+    ])
+  }
+}
+
+/**
+ * Registro de uma alteração de status.
+ */
+export interface EmployeeStatusChange {
+  /** Status assumido a partir da data de vigência. */
+  status: EmployeeStatus
+  /** Data a partir da qual o status passa a valer. */
+  effectiveDate: Date
+  /** Motivo da alteração. */
+  reason?: string
+  /** Data prevista de retorno, aceita apenas para `VACATION` e `LEAVE`. */
+  expectedReturnDate?: Date
+}
+
+/**
+ * Dados de uma transição de status.
+ */
+export type EmployeeStatusTransition = Omit<EmployeeStatusChange, 'status'>
+
+/**
+ * Opções aceitas na criação de um histórico de status.
+ */
+export interface EmployeeStatusHistoryOptions extends ValidationOptions {
+  /**
+   * Data de admissão. Quando informada, nenhuma alteração de status (férias, afastamentos ou a
+   * demissão) pode ter vigência anterior a ela.
+   */
+  admissionDate?: BrDateInput
+}
+
+/**
+ * Histórico imutável das alterações de status de um funcionário.
+ * Garante que cada alteração respeita as transições permitidas e a ordem cronológica.
+ */
+export class EmployeeStatusHistory {
+  /**
+   * Alterações de status em ordem cronológica.
+   * @private
+   */
+  private readonly entries: readonly EmployeeStatusChange[]
+
+  /**
+   * Data de admissão, quando informada na criação do histórico.
+   * @private
+   */
+  private readonly admission?: BrDate
+
+  /**
+   * Construtor privado; utilize `EmployeeStatusHistory.start` ou `EmployeeStatusHistory.fromChanges`.
+   * @param entries - Alterações já validadas.
+   * @param admission - Data de admissão.
+   * @private
+   */
+  private constructor(entries: readonly EmployeeStatusChange[], admission?: BrDate) {
+    this.entries = entries
+    this.admission = admission
+  }
+
+  /**
+   * Garante que a vigência de uma alteração não é anterior à data de admissão.
+   * @param change - Alteração a ser validada.
+   * @param admission - Data de admissão. Quando omitida, não há validação.
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @throws {ValidationError} Com o código `STATUS_DISMISSAL_BEFORE_ADMISSION` para demissões ou
+   * `STATUS_DATE_BEFORE_ADMISSION` para os demais status.
+   * @private
+   * @static
+   */
+  private static validateAdmission(
+    change: EmployeeStatusChange,
+    admission: BrDate | undefined,
+    options: ValidationOptions,
+  ): void {
+    const { effectiveDate } = change
+    if (!admission || (BrDate.isValid(effectiveDate) && !admission.isAfter(effectiveDate))) {
+      return
+    }
+
+    throw new ValidationError([
+      createValidationIssue(
+        change.status === EmployeeStatus.DISMISSED
+          ? ValidationErrorCode.STATUS_DISMISSAL_BEFORE_ADMISSION
+          : ValidationErrorCode.STATUS_DATE_BEFORE_ADMISSION,
+        describeDate(effectiveDate),
+        options,
+      ),
+    ])
+  }
+
+  /**
+   * Valida a data prevista de retorno de uma alteração.
+   * @param change - Alteração a ser validada.
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @throws {ValidationError} Com o código `STATUS_RETURN_DATE_INVALID` se a data for inválida.
+   * @private
+   * @static
+   */
+  private static validateReturnDate(
+    change: EmployeeStatusChange,
+    options: ValidationOptions,
+  ): void {
+    const { expectedReturnDate } = change
+    if (expectedReturnDate === undefined) {
+      return
+    }
+
+    // A data de retorno só faz sentido para férias e afastamentos e deve ser posterior à vigência
+    if (
+      !statusesWithReturnDate.includes(change.status) ||
+      isNaN(expectedReturnDate.getTime()) ||
+      expectedReturnDate.getTime() <= change.effectiveDate.getTime()
+    ) {
+      throw new ValidationError([
+        createValidationIssue(
+          ValidationErrorCode.STATUS_RETURN_DATE_INVALID,
+          describeDate(expectedReturnDate),
+          options,
+        ),
+      ])
+    }
+  }
+
+  // -------------------------------------------------------------------------------------------------------------------
+
+  /**
+   * Inicia um histórico com o status inicial do funcionário (normalmente na admissão).
+   * @param status - Status inicial.
+   * @param transition - Data de vigência e demais dados do status inicial.
+   * @param options - Opções de validação, como o idioma das mensagens e a data de admissão.
+   * @returns {EmployeeStatusHistory} Histórico com uma única alteração.
+   * @throws {ValidationError} Se a vigência, a data prevista de retorno ou a data de admissão forem
+   * inválidas, ou se a vigência for anterior à admissão.
+   */
+  public static start(
+    status: EmployeeStatus,
+    transition: EmployeeStatusTransition,
+    options: EmployeeStatusHistoryOptions = {},
+  ): EmployeeStatusHistory {
+    const admission =
+      options.admissionDate === undefined ? undefined : new BrDate(options.admissionDate, options)
+    if (isNaN(transition.effectiveDate.getTime())) {
+      throw new ValidationError([
+        createValidationIssue(
+          ValidationErrorCode.EMPLOYEE_INVALID_DATE,
+          describeDate(transition.effectiveDate),
+          options,
+        ),
+      ])
+    }
+
+    const change = { ...transition, status }
+    EmployeeStatusHistory.validateAdmission(change, admission, options)
+    EmployeeStatusHistory.validateReturnDate(change, options)
+    return new EmployeeStatusHistory([change], admission)
+  }
+
+  /**
+   * Reconstrói um histórico a partir de alterações persistidas, validando cada transição.
+   * @param changes - Alterações em ordem cronológica; a primeira é o status inicial.
+   * @param options - Opções de validação, como o idioma das mensagens e a data de admissão.
+   * @returns {EmployeeStatusHistory} Histórico reconstruído.
+   * @throws {ValidationError} Se alguma alteração for inválida ou não houver alterações.
+   */
+  public static fromChanges(
+    changes: readonly EmployeeStatusChange[],
+    options: EmployeeStatusHistoryOptions = {},
+  ): EmployeeStatusHistory {
+    const [first, ...rest] = changes
+    if (!first) {
+      throw new ValidationError([
+        createValidationIssue(ValidationErrorCode.INVALID_VALUE, '', options),
+      ])
+    }
+
+    return rest.reduce(
+      (history, { status, ...transition }) => history.transition(status, transition, options),
+      EmployeeStatusHistory.start(first.status, first, options),
+    )
+  }
+
+  /**
+   * Retorna o status atual (o da alteração mais recente).
+   * @returns {EmployeeStatus} Status atual.
+   */
+  public get current(): EmployeeStatus {
+    return this.entries[this.entries.length - 1].status
+  }
+
+  /**
+   * Retorna todas as alterações em ordem cronológica.
+   * @returns {readonly EmployeeStatusChange[]} Alterações registradas.
+   */
+  public get changes(): readonly EmployeeStatusChange[] {
+    return this.entries
+  }
+
+  /**
+   * Retorna a data de admissão informada na criação do histórico.
+   * @returns {BrDate | undefined} Data de admissão ou undefined se não tiver sido informada.
+   */
+  public get admissionDate(): BrDate | undefined {
+    return this.admission
+  }
+
+  /**
+   * Verifica se o histórico pode passar para o status informado.
+   * @param to - Status desejado.
+   * @returns {boolean} true se a transição for permitida, false caso contrário.
+   */
+  public canTransition(to: EmployeeStatus): boolean {
+    return canTransition(this.current, to)
+  }
+
+  /**
+   * Registra uma alteração de status, retornando um novo histórico.
+   * @param to - Novo status.
+   * @param transition - Data de vigência, motivo e data prevista de retorno.
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @returns {EmployeeStatusHistory} Novo histórico com a alteração registrada.
+   * @throws {ValidationError} Se a transição não for permitida, se a data for anterior à última
+   * alteração ou à admissão ou se a data prevista de retorno for inválida.
+   */
+  public transition(
+    to: EmployeeStatus,
+    transition: EmployeeStatusTransition,
+    options: ValidationOptions = {},
+  ): EmployeeStatusHistory {
+    assertTransition(this.current, to, options)
+
+    // A negação também rejeita datas inválidas, cuja comparação é sempre falsa
+    const last = this.entries[this.entries.length - 1]
+    if (!(transition.effectiveDate.getTime() >= last.effectiveDate.getTime())) {
+      throw new ValidationError([
+        createValidationIssue(
+          ValidationErrorCode.STATUS_DATE_OUT_OF_ORDER,
+          describeDate(transition.effectiveDate),
+          options,
+        ),
+      ])
+    }
+
+    const change = { ...transition, status: to }
+    EmployeeStatusHistory.validateAdmission(change, this.admission, options)
+    EmployeeStatusHistory.validateReturnDate(change, options)
+    return new EmployeeStatusHistory([...this.entries, change], this.admission)
+  }
+
+  /**
+   * Retorna a alteração vigente em uma data.
+   * @param date - Data a ser consultada.
+   * @returns {EmployeeStatusChange | undefined} Alteração vigente ou undefined se a data for
+   * anterior ao início do histórico.
+   */
+  public changeAt(date: Date): EmployeeStatusChange | undefined {
+    return [...this.entries]
+      .reverse()
+      .find((change) => change.effectiveDate.getTime() <= date.getTime())
+  }
+
+  /**
+   * Retorna o status vigente em uma data.
+   * @param date - Data a ser consultada.
+   * @returns {EmployeeStatus | undefined} Status vigente ou undefined se a data for anterior ao
+   * início do histórico.
+   */
+  public statusAt(date: Date): EmployeeStatus | undefined {
+    return this.changeAt(date)?.status
+  }
+
+  /**
+   * Calcula o tempo de casa a partir da data de admissão.
+   * Para funcionários demitidos, o cálculo termina na data da demissão.
+   * @param at - Data em que o tempo de casa é calculado. Quando omitida, assume a data atual.
+   * @returns {Tenure | undefined} Tempo de casa ou undefined se a data de admissão não tiver sido
+   * informada.
+   * @throws {RangeError} Se a data informada for anterior à admissão.
+   */
+  public tenure(at: BrDateInput = BrDate.today()): Tenure | undefined {
+    if (!this.admission) {
+      return undefined
+    }
+
+    const dismissal = this.entries.find((change) => change.status === EmployeeStatus.DISMISSED)
+    const end = new BrDate(at)
+    return this.admission.tenure(
+      dismissal && end.isAfter(dismissal.effectiveDate) ? dismissal.effectiveDate : end,
+    )
+  }
+}
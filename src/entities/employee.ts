@@ -0,0 +1,300 @@
+import { randomUUID } from 'crypto'
+
+import { createValidationIssue, toValidationResult, ValidationError } from '../errors'
+import { CPF, Email, FullName } from '../factories'
+import {
+  EmployeeStatus,
+  ValidationErrorCode,
+  ValidationIssue,
+  ValidationOptions,
+  ValidationResult,
+} from '../types'
+import { assertTransition } from './employee-status-lifecycle'
+
+/**
+ * Dados aceitos na criação de um funcionário.
+ * Os objetos de valor podem ser informados como instâncias ou como strings a serem validadas.
+ */
+export interface EmployeeInput {
+  /** Identificador do funcionário. Quando omitido, é gerado um UUID. */
+  id?: string
+  name: FullName | string
+  cpf: CPF | string
+  email: Email | string
+  /** Status do funcionário. Quando omitido, assume `EmployeeStatus.NORMAL`. */
+  status?: EmployeeStatus
+  /** Data de criação. Quando omitida, assume a data atual. */
+  createdAt?: Date
+  /** Data da última atualização. Quando omitida, assume a data de criação. */
+  updatedAt?: Date
+}
+
+/**
+ * Propriedades de um funcionário já validado.
+ */
+export interface EmployeeProps {
+  id: string
+  name: FullName
+  cpf: CPF
+  email: Email
+  status: EmployeeStatus
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * Entidade que representa um funcionário.
+ * Reúne os objetos de valor FullName, CPF, Email e EmployeeStatus com identidade e datas de controle.
+ * Instâncias são imutáveis: os métodos `with…` retornam novas instâncias.
+ */
+export class Employee {
+  public readonly id: string
+  public readonly name: FullName
+  public readonly cpf: CPF
+  public readonly email: Email
+  public readonly status: EmployeeStatus
+  public readonly createdAt: Date
+  public readonly updatedAt: Date
+
+  /**
+   * Construtor privado; utilize `Employee.create` ou `Employee.parse`.
+   * @param props - Propriedades já validadas.
+   * @private
+   */
+  private constructor(props: EmployeeProps) {
+    this.id = props.id
+    this.name = props.name
+    this.cpf = props.cpf
+    this.email = props.email
+    this.status = props.status
+    this.createdAt = props.createdAt
+    this.updatedAt = props.updatedAt
+  }
+
+  /**
+   * Extrai o valor de um resultado de validação, acumulando os erros associados ao campo.
+   * @param field - Nome do campo validado.
+   * @param result - Resultado da validação do campo.
+   * @param issues - Lista onde os erros encontrados são acumulados.
+   * @returns {T | undefined} Valor validado ou undefined em caso de erro.
+   * @private
+   * @static
+   */
+  private static collect<T>(
+    field: string,
+    result: ValidationResult<T>,
+    issues: ValidationIssue[],
+  ): T | undefined {
+    if (result.ok) {
+      return result.value
+    }
+
+    issues.push(...result.errors.map((issue) => ({ ...issue, field })))
+    return undefined
+  }
+
+  /**
+   * Verifica se um valor é uma data válida.
+   * @param date - Valor a ser verificado.
+   * @returns {boolean} true se o valor for uma data válida, false caso contrário.
+   * @private
+   * @static
+   */
+  private static isValidDate(date: unknown): date is Date {
+    return date instanceof Date && !isNaN(date.getTime())
+  }
+
+  // -------------------------------------------------------------------------------------------------------------------
+
+  /**
+   * Cria um funcionário validando todos os campos de uma só vez.
+   * @param input - Dados do funcionário.
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @returns {Employee} Funcionário criado.
+   * @throws {ValidationError} Com a lista de todos os campos inválidos.
+   */
+  public static create(input: EmployeeInput, options: ValidationOptions = {}): Employee {
+    const issues: ValidationIssue[] = []
+
+    const name = Employee.collect(
+      'name',
+      input.name instanceof FullName
+        ? { ok: true, value: input.name }
+        : FullName.parse(input.name, options),
+      issues,
+    )
+    const cpf = Employee.collect(
+      'cpf',
+      input.cpf instanceof CPF ? { ok: true, value: input.cpf } : CPF.parse(input.cpf, options),
+      issues,
+    )
+    const email = Employee.collect(
+      'email',
+      input.email instanceof Email
+        ? { ok: true, value: input.email }
+        : Email.parse(input.email, options),
+      issues,
+    )
+
+    const id = input.id ?? randomUUID()
+    if (typeof id !== 'string' || id.trim() === '') {
+      issues.push({
+        ...createValidationIssue(ValidationErrorCode.EMPLOYEE_INVALID_ID, id, options),
+        field: 'id',
+      })
+    }
+
+    const status = input.status ?? EmployeeStatus.NORMAL
+    if (!Object.values(EmployeeStatus).includes(status)) {
+      issues.push({
+        ...createValidationIssue(ValidationErrorCode.EMPLOYEE_STATUS_INVALID, status, options),
+        field: 'status',
+      })
+    }
+
+    const createdAt = input.createdAt ?? new Date()
+    if (!Employee.isValidDate(createdAt)) {
+      issues.push({
+        ...createValidationIssue(ValidationErrorCode.EMPLOYEE_INVALID_DATE, createdAt, options),
+        field: 'createdAt',
+      })
+    }
+
+    // A data de atualização não pode ser anterior à data de criação
+    const updatedAt = input.updatedAt ?? createdAt
+    if (
+      !Employee.isValidDate(updatedAt) ||
+      (Employee.isValidDate(createdAt) && updatedAt.getTime() < createdAt.getTime())
+    ) {
+      issues.push({
+        ...createValidationIssue(ValidationErrorCode.EMPLOYEE_INVALID_DATE, updatedAt, options),
+        field: 'updatedAt',
+      })
+    }
+
+    if (issues.length > 0 || !name || !cpf || !email) {
+      throw new ValidationError(issues)
+    }
+
+    return new Employee({ id, name, cpf, email, status, createdAt, updatedAt })
+  }
+
+  /**
+   * Cria um funcionário sem lançar exceções, reportando todos os campos inválidos.
+   * @param input - Dados do funcionário.
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @returns {ValidationResult<Employee>} Funcionário criado ou lista de erros encontrados.
+   */
+  public static parse(
+    input: EmployeeInput,
+    options: ValidationOptions = {},
+  ): ValidationResult<Employee> {
+    return toValidationResult(() => Employee.create(input, options))
+  }
+
+  /**
+   * Cria uma cópia do funcionário com as alterações informadas, atualizando `updatedAt`.
+   * @param changes - Campos a serem alterados.
+   * @param updatedAt - Data da alteração.
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @returns {Employee} Nova instância com as alterações.
+   * @private
+   */
+  private with(
+    changes: Partial<EmployeeInput>,
+    updatedAt: Date,
+    options: ValidationOptions,
+  ): Employee {
+    return Employee.create({ ...this.toProps(), ...changes, updatedAt }, options)
+  }
+
+  /**
+   * Retorna uma cópia do funcionário com outro nome.
+   * @param name - Novo nome completo.
+   * @param updatedAt - Data da alteração. Quando omitida, assume a data atual.
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @returns {Employee} Nova instância com o nome alterado.
+   * @throws {ValidationError} Se o nome for inválido.
+   */
+  public withName(
+    name: FullName | string,
+    updatedAt: Date = new Date(),
+    options: ValidationOptions = {},
+  ): Employee {
+    return this.with({ name }, updatedAt, options)
+  }
+
+  /**
+   * Retorna uma cópia do funcionário com outro CPF.
+   * @param cpf - Novo CPF.
+   * @param updatedAt - Data da alteração. Quando omitida, assume a data atual.
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @returns {Employee} Nova instância com o CPF alterado.
+   * @throws {ValidationError} Se o CPF for inválido.
+   */
+  public withCpf(
+    cpf: CPF | string,
+    updatedAt: Date = new Date(),
+    options: ValidationOptions = {},
+  ): Employee {
+    return this.with({ cpf }, updatedAt, options)
+  }
+
+  /**
+   * Retorna uma cópia do funcionário com outro email.
+   * @param email - Novo email.
+   * @param updatedAt - Data da alteração. Quando omitida, assume a data atual.
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @returns {Employee} Nova instância com o email alterado.
+   * @throws {ValidationError} Se o email for inválido.
+   */
+  public withEmail(
+    email: Email | string,
+    updatedAt: Date = new Date(),
+    options: ValidationOptions = {},
+  ): Employee {
+    return this.with({ email }, updatedAt, options)
+  }
+
+  /**
+   * Retorna uma cópia do funcionário com outro status.
+   * @param status - Novo status.
+   * @param updatedAt - Data da alteração. Quando omitida, assume a data atual.
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @returns {Employee} Nova instância com o status alterado.
+   * @throws {ValidationError} Se o status for inválido ou a transição não for permitida.
+   */
+  public withStatus(
+    status: EmployeeStatus,
+    updatedAt: Date = new Date(),
+    options: ValidationOptions = {},
+  ): Employee {
+    assertTransition(this.status, status, options)
+    return this.with({ status }, updatedAt, options)
+  }
+
+  /**
+   * Verifica se dois funcionários representam a mesma pessoa, comparando apenas a identidade.
+   * @param other - Funcionário a ser comparado.
+   * @returns {boolean} true se os funcionários tiverem o mesmo id, false caso contrário.
+   */
+  public equals(other: Employee | null | undefined): boolean {
+    return other instanceof Employee && other.id === this.id
+  }
+
+  /**
+   * Retorna as propriedades do funcionário.
+   * @returns {EmployeeProps} Propriedades do funcionário.
+   */
+  public toProps(): EmployeeProps {
+    return {
+      id: this.id,
+      name: this.name,
+      cpf: this.cpf,
+      email: this.email,
+      status: this.status,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    }
+  }
+}
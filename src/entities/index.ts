@@ -0,0 +1,2 @@
+export * from './employee'
+export * from './employee-status-lifecycle'
@@ -0,0 +1,14 @@
+/**
+ * Erro lançado pela linha de comando quando os argumentos informados são inválidos, como um
+ * subcomando desconhecido ou uma opção sem valor.
+ */
+export class CliUsageError extends Error {
+  /**
+   * Construtor para criação de erros de uso da linha de comando.
+   * @param message - Mensagem descrevendo o problema nos argumentos.
+   */
+  public constructor(message: string) {
+    super(message)
+    this.name = 'CliUsageError'
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Erro de consulta de DNS, com o mesmo formato dos erros do módulo `dns` do Node.
+ */
+export class DnsError extends Error {
+  /**
+   * Código do erro (ex: `ENOTFOUND`, `ENODATA`, `ETIMEOUT`).
+   */
+  public readonly code: string
+
+  /**
+   * Domínio consultado.
+   */
+  public readonly hostname: string
+
+  /**
+   * Construtor do erro de consulta.
+   * @param code - Código do erro.
+   * @param hostname - Domínio consultado.
+   */
+  public constructor(code: string, hostname: string) {
+    super(`Falha na consulta de DNS de ${hostname}: ${code}`)
+    this.name = 'DnsError'
+    this.code = code
+    this.hostname = hostname
+  }
+}
@@ -0,0 +1,4 @@
+export * from './cli-usage-error'
+export * from './dns-error'
+export * from './repository-error'
+export * from './validation-error'
@@ -0,0 +1,22 @@
+import { RepositoryErrorCode } from '../types'
+
+/**
+ * Erro lançado pelos repositórios quando uma operação não pode ser concluída.
+ */
+export class RepositoryError extends Error {
+  /**
+   * Código estável que identifica o tipo de erro.
+   */
+  public readonly code: RepositoryErrorCode
+
+  /**
+   * Construtor para criação de erros de repositório.
+   * @param code - Código do erro.
+   * @param message - Mensagem descrevendo o erro.
+   */
+  public constructor(code: RepositoryErrorCode, message: string) {
+    super(message)
+    this.name = 'RepositoryError'
+    this.code = code
+  }
+}
@@ -0,0 +1,127 @@
+import { z } from 'zod'
+
+import { MessageValues, translate } from '../i18n'
+import {
+  Locale,
+  ValidationErrorCode,
+  ValidationIssue,
+  ValidationOptions,
+  ValidationResult,
+} from '../types'
+
+/**
+ * Erro lançado pelos construtores dos objetos de valor quando o valor informado é inválido.
+ * Expõe os mesmos dados retornados pelos métodos `parse`, evitando a comparação de mensagens.
+ */
+export class ValidationError extends Error {
+  /**
+   * Lista de problemas encontrados durante a validação.
+   */
+  public readonly issues: ValidationIssue[]
+
+  /**
+   * Construtor para criação de erros de validação.
+   * A mensagem do erro é a mensagem do primeiro problema encontrado.
+   * @param issues - Problemas encontrados durante a validação.
+   */
+  public constructor(issues: ValidationIssue[]) {
+    super(issues[0]?.message || 'Valor inválido')
+    this.name = 'ValidationError'
+    this.issues = issues
+  }
+
+  /**
+   * Retorna o código do primeiro problema encontrado.
+   * @returns {ValidationErrorCode} Código do erro.
+   */
+  public get code(): ValidationErrorCode {
+    return this.issues[0]?.code ?? ValidationErrorCode.INVALID_VALUE
+  }
+
+  /**
+   * Retorna o valor que originou o erro.
+   * @returns {string} Valor informado.
+   */
+  public get input(): string {
+    return this.issues[0]?.input ?? ''
+  }
+
+  /**
+   * Cria os dados de um problema do zod associado a um código de erro.
+   * A mensagem é traduzida no idioma global e o código fica disponível em `params.code`.
+   * @param code - Código do erro.
+   * @param values - Valores interpolados na mensagem.
+   * @returns {z.IssueData} Dados do problema a serem adicionados ao contexto do zod.
+   */
+  public static toZodIssue(code: ValidationErrorCode, values: MessageValues = {}): z.IssueData {
+    return {
+      code: z.ZodIssueCode.custom,
+      message: translate(code, undefined, values),
+      params: { code, values },
+    }
+  }
+
+  /**
+   * Cria um erro de validação a partir de um erro do zod.
+   * O código de cada problema é lido de `params.code`; problemas sem código recebem `INVALID_VALUE`.
+   * @param error - Erro retornado pelo zod.
+   * @param input - Valor informado, antes de qualquer normalização.
+   * @param locale - Idioma das mensagens. Quando omitido, usa o idioma global.
+   * @returns {ValidationError} Erro de validação equivalente.
+   */
+  public static fromZodError(error: z.ZodError, input: string, locale?: Locale): ValidationError {
+    return new ValidationError(
+      error.errors.map((issue) => {
+        if (issue.code !== z.ZodIssueCode.custom || !issue.params?.code) {
+          return { code: ValidationErrorCode.INVALID_VALUE, input, message: issue.message }
+        }
+
+        const code: ValidationErrorCode = issue.params.code
+        return createValidationIssue(code, input, { locale }, issue.params.values)
+      }),
+    )
+  }
+}
+
+/**
+ * Executa a criação de um objeto de valor, convertendo um `ValidationError` em resultado.
+ * Erros de outros tipos são relançados.
+ * @param factory - Função que cria o objeto de valor.
+ * @returns {ValidationResult<T>} Resultado da criação.
+ */
+export function toValidationResult<T>(factory: () => T): ValidationResult<T> {
+  try {
+    return { ok: true, value: factory() }
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return { ok: false, errors: error.issues }
+    }
+    throw error
+  }
+}
+
+/**
+ * Cria um problema de validação com a mensagem traduzida para o código informado.
+ * Utilizado pelas validações que não dependem de um schema do zod.
+ * @param code - Código do erro.
+ * @param input - Valor recebido.
+ * @param options - Opções de validação, como o idioma das mensagens de erro.
+ * @param values - Valores interpolados na mensagem.
+ * @returns {ValidationIssue} Problema encontrado.
+ */
+export function createValidationIssue(
+  code: ValidationErrorCode,
+  input: unknown,
+  options: ValidationOptions = {},
+  values: MessageValues = {},
+): ValidationIssue {
+  const issue: ValidationIssue = {
+    code,
+    input: String(input),
+    message: translate(code, options.locale, values),
+  }
+  if (Object.keys(values).length > 0) {
+    issue.values = values
+  }
+  return issue
+}
@@ -0,0 +1,242 @@
+import { createValidationIssue, toValidationResult, ValidationError } from '../errors'
+import { CepProvider } from '../providers'
+import {
+  UF,
+  ValidationErrorCode,
+  ValidationIssue,
+  ValidationOptions,
+  ValidationResult,
+} from '../types'
+import { CEP } from './cep'
+
+/**
+ * Dados aceitos na criação de um endereço.
+ * O CEP pode ser informado como instância ou como string a ser validada.
+ */
+export interface AddressInput {
+  /** Logradouro (ex: "Avenida Paulista"). */
+  street: string
+  /** Número do imóvel. Aceita valores como "S/N". */
+  number: string
+  complement?: string
+  /** Bairro. */
+  neighborhood: string
+  city: string
+  /** Sigla do estado, sem diferenciar maiúsculas. */
+  uf: UF | string
+  cep: CEP | string
+}
+
+/**
+ * Dados informados ao preencher um endereço a partir do CEP.
+ * O logradouro e o bairro, quando informados, substituem os dados do CEP; são necessários
+ * em cidades com CEP único.
+ */
+export interface AddressCompletion {
+  number: string
+  complement?: string
+  street?: string
+  neighborhood?: string
+}
+
+/**
+ * Propriedades de um endereço já validado.
+ */
+export interface AddressProps {
+  street: string
+  number: string
+  complement?: string
+  neighborhood: string
+  city: string
+  uf: UF
+  cep: CEP
+}
+
+/**
+ * Classe que representa um endereço brasileiro.
+ * Valida os campos obrigatórios e a consistência entre o CEP e o estado.
+ */
+export class Address {
+  public readonly street: string
+  public readonly number: string
+  public readonly complement?: string
+  public readonly neighborhood: string
+  public readonly city: string
+  public readonly uf: UF
+  public readonly cep: CEP
+
+  /**
+   * Construtor privado; utilize `Address.create`, `Address.parse` ou `Address.fromCep`.
+   * @param props - Propriedades já validadas.
+   * @private
+   */
+  private constructor(props: AddressProps) {
+    this.street = props.street
+    this.number = props.number
+    this.complement = props.complement
+    this.neighborhood = props.neighborhood
+    this.city = props.city
+    this.uf = props.uf
+    this.cep = props.cep
+  }
+
+  /**
+   * Remove espaços extras de um texto.
+   * @param text - Texto a ser normalizado.
+   * @returns {string} Texto sem espaços nas extremidades e sem espaços repetidos.
+   * @private
+   * @static
+   */
+  private static clean(text: string | undefined): string {
+    return (text ?? '').trim().replace(/\s+/g, ' ')
+  }
+
+  // -------------------------------------------------------------------------------------------------------------------
+
+  /**
+   * Cria um endereço validando todos os campos de uma só vez.
+   * @param input - Dados do endereço.
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @returns {Address} Endereço criado.
+   * @throws {ValidationError} Com a lista de todos os campos inválidos.
+   */
+  public static create(input: AddressInput, options: ValidationOptions = {}): Address {
+    const issues: ValidationIssue[] = []
+
+    const required = (field: 'street' | 'number' | 'neighborhood' | 'city'): string => {
+      const value = Address.clean(input[field])
+      if (value === '') {
+        issues.push({
+          ...createValidationIssue(ValidationErrorCode.ADDRESS_FIELD_REQUIRED, value, options, {
+            field,
+          }),
+          field,
+        })
+      }
+      return value
+    }
+
+    const street = required('street')
+    const number = required('number')
+    const neighborhood = required('neighborhood')
+    const city = required('city')
+    const complement = Address.clean(input.complement) || undefined
+
+    const uf = Object.values(UF).find((value) => value === Address.clean(input.uf).toUpperCase())
+    if (!uf) {
+      issues.push({
+        ...createValidationIssue(ValidationErrorCode.ADDRESS_INVALID_UF, input.uf, options),
+        field: 'uf',
+      })
+    }
+
+    let cep: CEP | undefined
+    if (input.cep instanceof CEP) {
+      cep = input.cep
+    } else {
+      const result = CEP.parse(input.cep, options)
+      if (result.ok) {
+        cep = result.value
+      } else {
+        issues.push(...result.errors.map((issue) => ({ ...issue, field: 'cep' })))
+      }
+    }
+
+    // A faixa do CEP deve pertencer ao estado informado
+    if (cep && uf && cep.uf !== uf) {
+      issues.push({
+        ...createValidationIssue(ValidationErrorCode.ADDRESS_CEP_UF_MISMATCH, cep.raw, options, {
+          cep: cep.formatted,
+          uf,
+        }),
+        field: 'cep',
+      })
+    }
+
+    if (issues.length > 0 || !uf || !cep) {
+      throw new ValidationError(issues)
+    }
+
+    return new Address({ street, number, complement, neighborhood, city, uf, cep })
+  }
+
+  /**
+   * Cria um endereço sem lançar exceções, reportando todos os campos inválidos.
+   * @param input - Dados do endereço.
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @returns {ValidationResult<Address>} Endereço criado ou lista de erros encontrados.
+   */
+  public static parse(
+    input: AddressInput,
+    options: ValidationOptions = {},
+  ): ValidationResult<Address> {
+    return toValidationResult(() => Address.create(input, options))
+  }
+
+  /**
+   * Cria um endereço preenchendo o logradouro, o bairro, a cidade e o estado a partir do CEP.
+   * @param cep - CEP do endereço, como instância ou string.
+   * @param provider - Fonte de consulta de CEPs.
+   * @param completion - Número, complemento e, opcionalmente, logradouro e bairro.
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @returns {Promise<Address>} Endereço criado.
+   * @throws {ValidationError} Se o CEP for inválido ou não for encontrado (`CEP_NOT_FOUND`), ou
+   * se o endereço resultante for inválido.
+   */
+  public static async fromCep(
+    cep: CEP | string,
+    provider: CepProvider,
+    completion: AddressCompletion,
+    options: ValidationOptions = {},
+  ): Promise<Address> {
+    const instance = cep instanceof CEP ? cep : new CEP(cep, options)
+    const record = await instance.lookup(provider)
+
+    if (!record) {
+      throw new ValidationError([
+        createValidationIssue(ValidationErrorCode.CEP_NOT_FOUND, instance.raw, options, {
+          cep: instance.formatted,
+        }),
+      ])
+    }
+
+    return Address.create(
+      {
+        street: completion.street ?? record.street ?? '',
+        number: completion.number,
+        complement: completion.complement,
+        neighborhood: completion.neighborhood ?? record.neighborhood ?? '',
+        city: record.city,
+        uf: record.uf,
+        cep: instance,
+      },
+      options,
+    )
+  }
+
+  /**
+   * Retorna o endereço em uma linha: Avenida Paulista, 1000, Apto 12 - Bela Vista,
+   * São Paulo - SP, 01310-100.
+   * @returns {string} Endereço formatado.
+   */
+  public get formatted(): string {
+    const street = [this.street, this.number, this.complement].filter(Boolean).join(', ')
+    return `${street} - ${this.neighborhood}, ${this.city} - ${this.uf}, ${this.cep.formatted}`
+  }
+
+  /**
+   * Retorna as propriedades do endereço.
+   * @returns {AddressProps} Cópia das propriedades.
+   */
+  public toProps(): AddressProps {
+    return {
+      street: this.street,
+      number: this.number,
+      complement: this.complement,
+      neighborhood: this.neighborhood,
+      city: this.city,
+      uf: this.uf,
+      cep: this.cep,
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import { createValidationIssue, toValidationResult, ValidationError } from '../errors'
+import { ValidationErrorCode, ValidationOptions, ValidationResult } from '../types'
+import { BrDate, BrDateInput } from './br-date'
+
+/**
+ * Idade mínima para o trabalho (Constituição Federal, art. 7º, XXXIII).
+ * Aprendizes podem ser contratados a partir dos 14 anos, informando `minimumAge: 14`.
+ */
+export const minimumWorkingAge = 16
+
+/**
+ * Idade a partir da qual a pessoa é maior de idade.
+ */
+export const adultAge = 18
+
+/**
+ * Opções aceitas na criação e validação de datas de nascimento.
+ */
+export interface BirthDateOptions extends ValidationOptions {
+  /** Idade mínima exigida na data de referência. Use 0 para não exigir idade mínima. Padrão: 16. */
+  minimumAge?: number
+  /** Data em que a idade mínima é verificada, como a data de admissão. Padrão: a data atual. */
+  referenceDate?: BrDateInput
+}
+
+/**
+ * Classe que representa uma data de nascimento.
+ * Além das validações de `BrDate`, rejeita datas futuras e pessoas abaixo da idade mínima para o
+ * trabalho.
+ */
+export class BirthDate extends BrDate {
+  /**
+   * Identifica o primeiro problema encontrado na data de nascimento.
+   * @param birthDate - Data de nascimento, já validada como data.
+   * @param minimumAge - Idade mínima exigida.
+   * @param referenceDate - Data em que a idade é verificada.
+   * @returns {ValidationErrorCode | undefined} Código do erro ou undefined se a data for válida.
+   * @private
+   * @static
+   */
+  private static checkAge(
+    birthDate: BrDate,
+    minimumAge: number,
+    referenceDate: BrDate,
+  ): ValidationErrorCode | undefined {
+    if (birthDate.isAfter(referenceDate)) {
+      return ValidationErrorCode.BIRTH_DATE_IN_FUTURE
+    }
+
+    if (birthDate.tenure(referenceDate).years < minimumAge) {
+      return ValidationErrorCode.BIRTH_DATE_UNDER_MINIMUM_AGE
+    }
+
+    return undefined
+  }
+
+  // -------------------------------------------------------------------------------------------------------------------
+
+  /**
+   * Construtor para criação de instâncias de BirthDate.
+   * Valida a data e a idade mínima e lança um erro se forem inválidas.
+   * @param date - Data no formato dd/mm/aaaa ou ISO, instância de `Date` ou de `BrDate`.
+   * @param options - Opções de validação, como a idade mínima e a data de referência.
+   * @throws {ValidationError} Se a data for inválida, futura ou abaixo da idade mínima.
+   * @throws {RangeError} Se a idade mínima não for um inteiro não negativo.
+   */
+  public constructor(date: BrDateInput, options: BirthDateOptions = {}) {
+    super(date, options)
+
+    const { minimumAge = minimumWorkingAge } = options
+    if (!Number.isInteger(minimumAge) || minimumAge < 0) {
+      throw new RangeError('A idade mínima deve ser um inteiro não negativo')
+    }
+
+    const referenceDate = new BrDate(options.referenceDate ?? BrDate.today(), options)
+    const code = BirthDate.checkAge(this, minimumAge, referenceDate)
+
+    if (code) {
+      throw new ValidationError([createValidationIssue(code, date, options, { minimumAge })])
+    }
+  }
+
+  /**
+   * Calcula a idade em anos completos.
+   * @param at - Data em que a idade é calculada. Quando omitida, assume a data atual.
+   * @returns {number} Idade em anos.
+   * @throws {RangeError} Se a data informada for anterior ao nascimento.
+   */
+  public age(at: BrDateInput = BrDate.today()): number {
+    return this.tenure(at).years
+  }
+
+  /**
+   * Verifica se a pessoa é maior de idade (18 anos ou mais).
+   * @param at - Data em que a maioridade é verificada. Quando omitida, assume a data atual.
+   * @returns {boolean} true se a pessoa for maior de idade.
+   * @throws {RangeError} Se a data informada for anterior ao nascimento.
+   */
+  public isAdult(at: BrDateInput = BrDate.today()): boolean {
+    return this.age(at) >= adultAge
+  }
+
+  /**
+   * Verifica se um valor representa uma data de nascimento válida.
+   * @param date - Valor a ser validado.
+   * @param options - Idade mínima e data de referência.
+   * @returns {boolean} true se o valor for uma data de nascimento válida, false caso contrário.
+   */
+  public static isValid(date: BrDateInput, options: BirthDateOptions = {}): boolean {
+    try {
+      return BirthDate.parse(date, options).ok
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Cria uma instância de BirthDate sem lançar exceções.
+   * @param date - Data no formato dd/mm/aaaa ou ISO, instância de `Date` ou de `BrDate`.
+   * @param options - Opções de validação, como a idade mínima e a data de referência.
+   * @returns {ValidationResult<BirthDate>} Instância criada ou lista de erros encontrados.
+   */
+  public static parse(
+    date: BrDateInput,
+    options: BirthDateOptions = {},
+  ): ValidationResult<BirthDate> {
+    return toValidationResult(() => new BirthDate(date, options))
+  }
+}
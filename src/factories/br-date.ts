@@ -0,0 +1,364 @@
+import { z } from 'zod'
+
+import { toValidationResult, ValidationError } from '../errors'
+import { Tenure, ValidationErrorCode, ValidationOptions, ValidationResult } from '../types'
+
+/**
+ * Valores aceitos onde uma data é esperada: uma instância de `BrDate`, um `Date` (considerando a
+ * data local) ou uma string no formato dd/mm/aaaa ou ISO.
+ */
+export type BrDateInput = BrDate | Date | string
+
+/**
+ * Nomes dos meses usados na data por extenso.
+ */
+const monthNames = [
+  'janeiro',
+  'fevereiro',
+  'março',
+  'abril',
+  'maio',
+  'junho',
+  'julho',
+  'agosto',
+  'setembro',
+  'outubro',
+  'novembro',
+  'dezembro',
+]
+
+/**
+ * Quantidade de milissegundos em um dia.
+ */
+const millisecondsPerDay = 24 * 60 * 60 * 1000
+
+/**
+ * Classe que representa uma data de calendário, sem horário, no padrão brasileiro.
+ * Aceita datas nos formatos dd/mm/aaaa e ISO (aaaa-mm-dd) e rejeita datas inexistentes, como 31/02.
+ */
+export class BrDate {
+  /**
+   * Valor interno da data, armazenado no formato ISO (aaaa-mm-dd).
+   * @private
+   */
+  private readonly value: string
+
+  /**
+   * Monta uma data no formato ISO, completando cada parte com zeros à esquerda.
+   * @param year - Ano.
+   * @param month - Mês, de 1 a 12.
+   * @param day - Dia do mês.
+   * @returns {string} Data no formato aaaa-mm-dd.
+   * @private
+   * @static
+   */
+  private static toIso(year: number, month: number, day: number): string {
+    return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+  }
+
+  /**
+   * Converte a data informada para o formato ISO (aaaa-mm-dd).
+   * Em datas ISO com horário (ex: `2024-01-15T10:00:00Z`), apenas a parte da data é considerada.
+   * @param date - Data informada.
+   * @returns {string} Data no formato ISO ou o texto informado, se não estiver em um formato aceito.
+   * @private
+   * @static
+   */
+  private static clean(date: BrDateInput): string {
+    if (date instanceof BrDate) {
+      return date.value
+    }
+
+    if (date instanceof Date) {
+      return isNaN(date.getTime())
+        ? ''
+        : BrDate.toIso(date.getFullYear(), date.getMonth() + 1, date.getDate())
+    }
+
+    const text = date.trim()
+
+    const br = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(text)
+    if (br) {
+      return BrDate.toIso(Number(br[3]), Number(br[2]), Number(br[1]))
+    }
+
+    const iso = /^(\d{4}-\d{2}-\d{2})(?:T\S*)?$/.exec(text)
+    return iso ? iso[1] : text
+  }
+
+  /**
+   * Verifica se um ano é bissexto.
+   * @param year - Ano a ser verificado.
+   * @returns {boolean} true se o ano for bissexto.
+   * @private
+   * @static
+   */
+  private static isLeapYear(year: number): boolean {
+    return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0
+  }
+
+  /**
+   * Retorna a quantidade de dias de um mês.
+   * @param year - Ano.
+   * @param month - Mês, de 1 a 12.
+   * @returns {number} Quantidade de dias do mês.
+   * @private
+   * @static
+   */
+  private static daysInMonth(year: number, month: number): number {
+    if (month === 2) {
+      return BrDate.isLeapYear(year) ? 29 : 28
+    }
+
+    return [4, 6, 9, 11].includes(month) ? 30 : 31
+  }
+
+  /**
+   * Identifica o primeiro problema encontrado na data.
+   * @param date - Data no formato ISO.
+   * @returns {ValidationErrorCode | undefined} Código do erro ou undefined se a data for válida.
+   * @private
+   * @static
+   */
+  private static check(date: string): ValidationErrorCode | undefined {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date)
+    if (!match) {
+      return ValidationErrorCode.DATE_INVALID_FORMAT
+    }
+
+    const [year, month, day] = match.slice(1).map(Number)
+    if (year < 1 || month < 1 || month > 12 || day < 1 || day > BrDate.daysInMonth(year, month)) {
+      return ValidationErrorCode.DATE_INVALID
+    }
+
+    return undefined
+  }
+
+  /**
+   * Valida se a data está em um formato aceito e se existe no calendário.
+   * @private
+   * @static
+   */
+  private static readonly schema = z.string().superRefine((date, ctx) => {
+    const code = BrDate.check(date)
+
+    if (code) {
+      ctx.addIssue(ValidationError.toZodIssue(code))
+    }
+  })
+
+  /**
+   * Retorna a quantidade de dias entre 01/01/1970 e a data.
+   * @returns {number} Número do dia, negativo para datas anteriores a 1970.
+   * @private
+   */
+  private get epochDay(): number {
+    const date = new Date(0)
+    date.setUTCFullYear(this.year, this.month - 1, this.day)
+    return Math.round(date.getTime() / millisecondsPerDay)
+  }
+
+  /**
+   * Soma meses à data, ajustando o dia para o último dia do mês quando necessário (31/01 + 1 mês
+   * resulta em 28/02 ou 29/02).
+   * @param months - Quantidade de meses a somar.
+   * @returns {BrDate} Nova data.
+   * @private
+   */
+  private plusMonths(months: number): BrDate {
+    const total = this.year * 12 + (this.month - 1) + months
+    const year = Math.floor(total / 12)
+    const month = (total % 12) + 1
+    return new BrDate(
+      BrDate.toIso(year, month, Math.min(this.day, BrDate.daysInMonth(year, month))),
+    )
+  }
+
+  // -------------------------------------------------------------------------------------------------------------------
+
+  /**
+   * Construtor para criação de instâncias de BrDate.
+   * Valida a data e lança um erro se for inválida.
+   * @param date - Data no formato dd/mm/aaaa ou ISO, instância de `Date` ou de `BrDate`.
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @throws {ValidationError} Se a data estiver em formato inválido ou não existir.
+   */
+  public constructor(date: BrDateInput, options: ValidationOptions = {}) {
+    const cleanDate = BrDate.clean(date)
+    const result = BrDate.schema.safeParse(cleanDate)
+
+    if (!result.success) {
+      throw ValidationError.fromZodError(result.error, String(date), options.locale)
+    }
+
+    this.value = cleanDate
+  }
+
+  /**
+   * Retorna a data no formato brasileiro: dd/mm/aaaa.
+   * @returns {string} Data formatada.
+   */
+  public get formatted(): string {
+    return this.value.replace(/^(\d{4})-(\d{2})-(\d{2})$/, '$3/$2/$1')
+  }
+
+  /**
+   * Retorna a data por extenso, como em "15 de janeiro de 2024".
+   * @returns {string} Data por extenso.
+   */
+  public get extended(): string {
+    return `${this.day} de ${monthNames[this.month - 1]} de ${this.year}`
+  }
+
+  /**
+   * Retorna a data no formato ISO: aaaa-mm-dd.
+   * @returns {string} Data no formato ISO.
+   */
+  public get iso(): string {
+    return this.value
+  }
+
+  /**
+   * Retorna o dia do mês.
+   * @returns {number} Dia, de 1 a 31.
+   */
+  public get day(): number {
+    return Number(this.value.slice(8, 10))
+  }
+
+  /**
+   * Retorna o mês.
+   * @returns {number} Mês, de 1 a 12.
+   */
+  public get month(): number {
+    return Number(this.value.slice(5, 7))
+  }
+
+  /**
+   * Retorna o ano.
+   * @returns {number} Ano com 4 dígitos.
+   */
+  public get year(): number {
+    return Number(this.value.slice(0, 4))
+  }
+
+  /**
+   * Converte a data para um `Date` à meia-noite do horário local.
+   * @returns {Date} Instância de Date correspondente.
+   */
+  public toDate(): Date {
+    const date = new Date(0, 0, 1)
+    date.setFullYear(this.year, this.month - 1, this.day)
+    return date
+  }
+
+  /**
+   * Compara a data com outra.
+   * @param other - Data a ser comparada.
+   * @returns {number} Negativo se esta data for anterior, positivo se for posterior e 0 se forem iguais.
+   * @throws {ValidationError} Se a outra data for inválida.
+   */
+  public compare(other: BrDateInput): number {
+    return this.value.localeCompare(new BrDate(other).value)
+  }
+
+  /**
+   * Verifica se a data é anterior a outra.
+   * @param other - Data a ser comparada.
+   * @returns {boolean} true se esta data for anterior.
+   * @throws {ValidationError} Se a outra data for inválida.
+   */
+  public isBefore(other: BrDateInput): boolean {
+    return this.compare(other) < 0
+  }
+
+  /**
+   * Verifica se a data é posterior a outra.
+   * @param other - Data a ser comparada.
+   * @returns {boolean} true se esta data for posterior.
+   * @throws {ValidationError} Se a outra data for inválida.
+   */
+  public isAfter(other: BrDateInput): boolean {
+    return this.compare(other) > 0
+  }
+
+  /**
+   * Verifica se duas datas representam o mesmo dia.
+   * @param other - Data a ser comparada.
+   * @returns {boolean} true se as datas forem iguais, false caso contrário ou se a outra for inválida.
+   */
+  public equals(other: BrDateInput | null | undefined): boolean {
+    return other != null && BrDate.isValid(other) && this.compare(other) === 0
+  }
+
+  /**
+   * Retorna a quantidade de dias até outra data.
+   * @param other - Data final.
+   * @returns {number} Quantidade de dias, negativa se a outra data for anterior.
+   * @throws {ValidationError} Se a outra data for inválida.
+   */
+  public daysUntil(other: BrDateInput): number {
+    return new BrDate(other).epochDay - this.epochDay
+  }
+
+  /**
+   * Calcula o tempo decorrido desde esta data até outra, em anos, meses e dias completos.
+   * Útil para o tempo de casa a partir da data de admissão.
+   * @param until - Data final. Quando omitida, assume a data atual.
+   * @returns {Tenure} Tempo decorrido.
+   * @throws {RangeError} Se a data final for anterior a esta data.
+   * @throws {ValidationError} Se a data final for inválida.
+   */
+  public tenure(until: BrDateInput = BrDate.today()): Tenure {
+    const end = new BrDate(until)
+    if (end.isBefore(this)) {
+      throw new RangeError('A data final não pode ser anterior à data inicial')
+    }
+
+    // Meses completos: o último mês só conta se o dia final alcançar o dia inicial
+    let months = (end.year - this.year) * 12 + (end.month - this.month)
+    if (end.day < this.day) {
+      months--
+    }
+
+    return {
+      years: Math.floor(months / 12),
+      months: months % 12,
+      days: end.epochDay - this.plusMonths(months).epochDay,
+    }
+  }
+
+  /**
+   * Retorna a data atual, no horário local.
+   * @returns {BrDate} Data de hoje.
+   */
+  public static today(): BrDate {
+    return new BrDate(new Date())
+  }
+
+  /**
+   * Verifica se um valor representa uma data válida.
+   * @param date - Valor a ser validado.
+   * @returns {boolean} true se o valor for uma data válida, false caso contrário.
+   */
+  public static isValid(date: BrDateInput): boolean {
+    try {
+      return BrDate.schema.safeParse(BrDate.clean(date)).success
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Cria uma instância de BrDate sem lançar exceções.
+   * @param date - Data no formato dd/mm/aaaa ou ISO, instância de `Date` ou de `BrDate`.
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @returns {ValidationResult<BrDate>} Instância criada ou lista de erros encontrados.
+   */
+  public static parse(
+    date: BrDateInput,
+    options: ValidationOptions = {},
+  ): ValidationResult<BrDate> {
+    return toValidationResult(() => new BrDate(date, options))
+  }
+}
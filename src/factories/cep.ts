@@ -0,0 +1,168 @@
+import { z } from 'zod'
+
+import { toValidationResult, ValidationError } from '../errors'
+import { CepProvider, CepRecord } from '../providers'
+import { UF, ValidationErrorCode, ValidationOptions, ValidationResult } from '../types'
+
+/**
+ * Faixa de CEPs atribuída a um estado.
+ */
+export interface CepRange {
+  uf: UF
+  /** Primeiro CEP da faixa, como número de 8 dígitos. */
+  start: number
+  /** Último CEP da faixa, como número de 8 dígitos. */
+  end: number
+}
+
+/**
+ * Faixas de CEPs de cada estado, conforme a divisão de endereçamento dos Correios.
+ */
+export const cepRanges: readonly CepRange[] = [
+  { uf: UF.SP, start: 1000000, end: 19999999 },
+  { uf: UF.RJ, start: 20000000, end: 28999999 },
+  { uf: UF.ES, start: 29000000, end: 29999999 },
+  { uf: UF.MG, start: 30000000, end: 39999999 },
+  { uf: UF.BA, start: 40000000, end: 48999999 },
+  { uf: UF.SE, start: 49000000, end: 49999999 },
+  { uf: UF.PE, start: 50000000, end: 56999999 },
+  { uf: UF.AL, start: 57000000, end: 57999999 },
+  { uf: UF.PB, start: 58000000, end: 58999999 },
+  { uf: UF.RN, start: 59000000, end: 59999999 },
+  { uf: UF.CE, start: 60000000, end: 63999999 },
+  { uf: UF.PI, start: 64000000, end: 64999999 },
+  { uf: UF.MA, start: 65000000, end: 65999999 },
+  { uf: UF.PA, start: 66000000, end: 68899999 },
+  { uf: UF.AP, start: 68900000, end: 68999999 },
+  { uf: UF.AM, start: 69000000, end: 69299999 },
+  { uf: UF.RR, start: 69300000, end: 69399999 },
+  { uf: UF.AM, start: 69400000, end: 69899999 },
+  { uf: UF.AC, start: 69900000, end: 69999999 },
+  { uf: UF.DF, start: 70000000, end: 72799999 },
+  { uf: UF.GO, start: 72800000, end: 72999999 },
+  { uf: UF.DF, start: 73000000, end: 73699999 },
+  { uf: UF.GO, start: 73700000, end: 76799999 },
+  { uf: UF.RO, start: 76800000, end: 76999999 },
+  { uf: UF.TO, start: 77000000, end: 77999999 },
+  { uf: UF.MT, start: 78000000, end: 78899999 },
+  { uf: UF.MS, start: 79000000, end: 79999999 },
+  { uf: UF.PR, start: 80000000, end: 87999999 },
+  { uf: UF.SC, start: 88000000, end: 89999999 },
+  { uf: UF.RS, start: 90000000, end: 99999999 },
+]
+
+/**
+ * Classe que representa um CEP (Código de Endereçamento Postal) brasileiro.
+ * Encapsula a validação, formatação e a identificação do estado pela faixa do CEP.
+ */
+export class CEP {
+  /**
+   * Valor interno do CEP, armazenado apenas com dígitos numéricos.
+   * @private
+   */
+  private readonly value: string
+
+  /**
+   * Retorna a faixa de CEPs que contém o CEP informado.
+   * @param cep - String contendo o CEP (apenas dígitos).
+   * @returns {CepRange | undefined} Faixa do CEP ou undefined se estiver fora das faixas.
+   * @private
+   * @static
+   */
+  private static rangeOf(cep: string): CepRange | undefined {
+    const value = parseInt(cep, 10)
+    return cepRanges.find((range) => value >= range.start && value <= range.end)
+  }
+
+  /**
+   * Valida se o CEP tem exatamente 8 dígitos numéricos e pertence a uma faixa de estado.
+   * @private
+   * @static
+   */
+  private static readonly schema = z.string().superRefine((cep, ctx) => {
+    if (!/^\d{8}$/.test(cep)) {
+      ctx.addIssue(ValidationError.toZodIssue(ValidationErrorCode.CEP_INVALID_FORMAT))
+      return
+    }
+
+    if (!CEP.rangeOf(cep)) {
+      ctx.addIssue(ValidationError.toZodIssue(ValidationErrorCode.CEP_INVALID_RANGE))
+    }
+  })
+
+  // -------------------------------------------------------------------------------------------------------------------
+
+  /**
+   * Construtor para criação de instâncias de CEP.
+   * Valida o CEP e lança um erro se for inválido.
+   * @param cep - String contendo o CEP, pode incluir pontuação (que será removida).
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @throws {ValidationError} Se o CEP for inválido.
+   */
+  public constructor(cep: string, options: ValidationOptions = {}) {
+    const cleanCep = cep.replace(/\D/g, '')
+    const result = CEP.schema.safeParse(cleanCep)
+
+    if (!result.success) {
+      throw ValidationError.fromZodError(result.error, cep, options.locale)
+    }
+
+    this.value = cleanCep
+  }
+
+  /**
+   * Retorna o valor bruto do CEP (apenas dígitos).
+   * @returns {string} CEP sem formatação.
+   */
+  public get raw(): string {
+    return this.value
+  }
+
+  /**
+   * Retorna o CEP no formato padrão brasileiro: XXXXX-XXX.
+   * @returns {string} CEP formatado.
+   */
+  public get formatted(): string {
+    return this.value.replace(/(\d{5})(\d{3})/, '$1-$2')
+  }
+
+  /**
+   * Retorna o estado ao qual a faixa do CEP pertence.
+   * @returns {UF} Estado do CEP.
+   */
+  public get uf(): UF {
+    return (CEP.rangeOf(this.value) as CepRange).uf
+  }
+
+  /**
+   * Consulta os dados de endereço do CEP.
+   * @param provider - Fonte de consulta de CEPs.
+   * @returns {Promise<CepRecord | undefined>} Dados do CEP ou undefined se não for encontrado.
+   */
+  public lookup(provider: CepProvider): Promise<CepRecord | undefined> {
+    return provider.lookup(this.value)
+  }
+
+  /**
+   * Verifica se uma string representa um CEP válido.
+   * @param cep - String a ser validada.
+   * @returns {boolean} true se a string for um CEP válido, false caso contrário.
+   */
+  public static isValid(cep: string): boolean {
+    try {
+      return CEP.schema.safeParse(cep.replace(/\D/g, '')).success
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Cria uma instância de CEP sem lançar exceções.
+   * @param cep - String contendo o CEP, pode incluir pontuação (que será removida).
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @returns {ValidationResult<CEP>} Instância criada ou lista de erros encontrados.
+   */
+  public static parse(cep: string, options: ValidationOptions = {}): ValidationResult<CEP> {
+    return toValidationResult(() => new CEP(cep, options))
+  }
+}
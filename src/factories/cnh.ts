@@ -0,0 +1,152 @@
+import { z } from 'zod'
+
+import { toValidationResult, ValidationError } from '../errors'
+import { ValidationErrorCode, ValidationOptions, ValidationResult } from '../types'
+
+/**
+ * Classe que representa o número de registro de uma CNH (Carteira Nacional de Habilitação).
+ * Encapsula a validação dos dígitos verificadores e a manipulação segura do número.
+ */
+export class CNH {
+  /**
+   * Valor interno da CNH, armazenado apenas com dígitos numéricos.
+   * @private
+   */
+  private readonly value: string
+
+  /**
+   * Calcula os dígitos verificadores a partir dos 9 dígitos base, conforme o algoritmo do Denatran.
+   * @param base - String contendo os 9 dígitos base.
+   * @returns {string} Os 2 dígitos verificadores.
+   * @private
+   * @static
+   */
+  private static computeCheckDigits(base: string): string {
+    const digits = base.split('').map((digit) => parseInt(digit, 10))
+
+    // Primeiro dígito: pesos decrescentes de 9 a 1
+    let sum = 0
+    for (let i = 0; i < 9; i++) {
+      sum += digits[i] * (9 - i)
+    }
+
+    let first = sum % 11
+    // Quando o primeiro dígito seria 10, ele vale 0 e o segundo dígito recebe um desconto de 2
+    let discount = 0
+    if (first >= 10) {
+      first = 0
+      discount = 2
+    }
+
+    // Segundo dígito: pesos crescentes de 1 a 9
+    sum = 0
+    for (let i = 0; i < 9; i++) {
+      sum += digits[i] * (i + 1)
+    }
+
+    let second = (sum % 11) - discount
+    if (second < 0) {
+      second += 11
+    }
+    if (second >= 10) {
+      second = 0
+    }
+
+    return `${first}${second}`
+  }
+
+  /**
+   * Identifica o primeiro problema encontrado na CNH.
+   * @param cnh - String contendo a CNH (apenas dígitos).
+   * @returns {ValidationErrorCode | undefined} Código do erro ou undefined se a CNH for válida.
+   * @private
+   * @static
+   */
+  private static check(cnh: string): ValidationErrorCode | undefined {
+    if (!/^\d{11}$/.test(cnh)) {
+      return ValidationErrorCode.CNH_WRONG_LENGTH
+    }
+
+    if (/^(\d)\1{10}$/.test(cnh)) {
+      return ValidationErrorCode.CNH_REPEATED_DIGITS
+    }
+
+    if (CNH.computeCheckDigits(cnh.slice(0, 9)) !== cnh.slice(9)) {
+      return ValidationErrorCode.CNH_CHECK_DIGIT
+    }
+
+    return undefined
+  }
+
+  /**
+   * Valida se a CNH tem exatamente 11 dígitos numéricos e se os dígitos verificadores são válidos.
+   * @private
+   * @static
+   */
+  private static readonly schema = z.string().superRefine((cnh, ctx) => {
+    const code = CNH.check(cnh)
+
+    if (code) {
+      ctx.addIssue(ValidationError.toZodIssue(code))
+    }
+  })
+
+  // -------------------------------------------------------------------------------------------------------------------
+
+  /**
+   * Construtor para criação de instâncias de CNH.
+   * Valida a CNH e lança um erro se for inválida.
+   * @param cnh - String contendo o número de registro, pode incluir pontuação (que será removida).
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @throws {ValidationError} Se a CNH for inválida.
+   */
+  public constructor(cnh: string, options: ValidationOptions = {}) {
+    const cleanCnh = cnh.replace(/\D/g, '')
+    const result = CNH.schema.safeParse(cleanCnh)
+
+    if (!result.success) {
+      throw ValidationError.fromZodError(result.error, cnh, options.locale)
+    }
+
+    this.value = cleanCnh
+  }
+
+  /**
+   * Retorna o número de registro como impresso no documento, que não tem pontuação.
+   * @returns {string} CNH formatada (11 dígitos).
+   */
+  public get formatted(): string {
+    return this.value
+  }
+
+  /**
+   * Retorna o valor bruto da CNH (apenas dígitos).
+   * @returns {string} CNH sem formatação.
+   */
+  public get raw(): string {
+    return this.value
+  }
+
+  /**
+   * Verifica se uma string representa uma CNH válida.
+   * @param cnh - String a ser validada.
+   * @returns {boolean} true se a string for uma CNH válida, false caso contrário.
+   */
+  public static isValid(cnh: string): boolean {
+    try {
+      return CNH.schema.safeParse(cnh.replace(/\D/g, '')).success
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Cria uma instância de CNH sem lançar exceções.
+   * @param cnh - String contendo o número de registro, pode incluir pontuação (que será removida).
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @returns {ValidationResult<CNH>} Instância criada ou lista de erros encontrados.
+   */
+  public static parse(cnh: string, options: ValidationOptions = {}): ValidationResult<CNH> {
+    return toValidationResult(() => new CNH(cnh, options))
+  }
+}
@@ -0,0 +1,203 @@
+import { z } from 'zod'
+
+import { toValidationResult, ValidationError } from '../errors'
+import { ValidationErrorCode, ValidationOptions, ValidationResult } from '../types'
+
+/**
+ * Classe que representa um CNPJ (Cadastro Nacional da Pessoa Jurídica) brasileiro.
+ * Encapsula a validação, formatação e manipulação segura de CNPJs, incluindo o
+ * formato alfanumérico introduzido pela Receita Federal.
+ */
+export class CNPJ {
+  /**
+   * Valor interno do CNPJ, armazenado sem pontuação e com letras em maiúsculo.
+   * @private
+   */
+  private readonly value: string
+
+  /**
+   * Pesos utilizados no cálculo do primeiro dígito verificador.
+   * @private
+   * @static
+   */
+  private static readonly firstDigitWeights = [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]
+
+  /**
+   * Pesos utilizados no cálculo do segundo dígito verificador.
+   * @private
+   * @static
+   */
+  private static readonly secondDigitWeights = [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]
+
+  /**
+   * Calcula um dígito verificador a partir dos caracteres e pesos informados.
+   * Cada caractere vale o seu código ASCII menos 48, de modo que os dígitos
+   * mantêm o seu valor numérico e as letras passam a valer de 17 (A) a 42 (Z).
+   * @param characters - Caracteres considerados no cálculo.
+   * @param weights - Pesos aplicados a cada caractere.
+   * @returns {number} Dígito verificador calculado.
+   * @private
+   * @static
+   */
+  private static calculateDigit(characters: string, weights: number[]): number {
+    let soma = 0
+    for (let i = 0; i < weights.length; i++) {
+      soma += (characters.charCodeAt(i) - 48) * weights[i]
+    }
+
+    // Se o resto for menor que 2, o dígito é 0; caso contrário, é 11 menos o resto
+    const resto = soma % 11
+    return resto < 2 ? 0 : 11 - resto
+  }
+
+  /**
+   * Verifica se um CNPJ é válido de acordo com as regras da Receita Federal.
+   * Realiza a validação do algoritmo dos dígitos verificadores.
+   * @param cnpj - String contendo o CNPJ (sem pontuação, em maiúsculo).
+   * @returns {boolean} true se o CNPJ for válido, false caso contrário.
+   * @private
+   * @static
+   */
+  private static validate(cnpj: string): boolean {
+    // Validação do primeiro dígito verificador, calculado sobre os 12 primeiros caracteres
+    const primeiroDigito = CNPJ.calculateDigit(cnpj, CNPJ.firstDigitWeights)
+    if (primeiroDigito !== parseInt(cnpj[12], 10)) {
+      return false
+    }
+
+    // Validação do segundo dígito verificador, calculado sobre os 13 primeiros caracteres
+    const segundoDigito = CNPJ.calculateDigit(cnpj, CNPJ.secondDigitWeights)
+    return segundoDigito === parseInt(cnpj[13], 10)
+  }
+
+  /**
+   * Remove a pontuação do CNPJ e converte as letras para maiúsculo.
+   * @param cnpj - String contendo o CNPJ, com ou sem pontuação.
+   * @returns {string} CNPJ apenas com caracteres alfanuméricos.
+   * @private
+   * @static
+   */
+  private static clean(cnpj: string): string {
+    return cnpj.replace(/[^0-9a-zA-Z]/g, '').toUpperCase()
+  }
+
+  /**
+   * Identifica o primeiro problema encontrado no CNPJ.
+   * @param cnpj - String contendo o CNPJ (sem pontuação, em maiúsculo).
+   * @returns {ValidationErrorCode | undefined} Código do erro ou undefined se o CNPJ for válido.
+   * @private
+   * @static
+   */
+  private static check(cnpj: string): ValidationErrorCode | undefined {
+    if (!/^[0-9A-Z]{12}\d{2}$/.test(cnpj)) {
+      return ValidationErrorCode.CNPJ_INVALID_FORMAT
+    }
+
+    if (/^(.)\1{13}$/.test(cnpj)) {
+      return ValidationErrorCode.CNPJ_REPEATED_CHARACTERS
+    }
+
+    if (!CNPJ.validate(cnpj)) {
+      return ValidationErrorCode.CNPJ_CHECK_DIGIT
+    }
+
+    return undefined
+  }
+
+  /**
+   * Valida se o CNPJ tem 12 caracteres alfanuméricos seguidos de 2 dígitos numéricos
+   * e se os dígitos verificadores são válidos.
+   * @private
+   * @static
+   */
+  private static readonly schema = z.string().superRefine((cnpj, ctx) => {
+    const code = CNPJ.check(cnpj)
+
+    if (code) {
+      ctx.addIssue(ValidationError.toZodIssue(code))
+    }
+  })
+
+  // -------------------------------------------------------------------------------------------------------------------
+
+  /**
+   * Construtor para criação de instâncias de CNPJ.
+   * Valida o CNPJ e lança um erro se for inválido.
+   * @param cnpj - String contendo o CNPJ, pode incluir pontuação (que será removida).
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @throws {ValidationError} Se o CNPJ for inválido.
+   */
+  public constructor(cnpj: string, options: ValidationOptions = {}) {
+    const cleanCnpj = CNPJ.clean(cnpj)
+    const result = CNPJ.schema.safeParse(cleanCnpj)
+
+    if (!result.success) {
+      throw ValidationError.fromZodError(result.error, cnpj, options.locale)
+    }
+
+    this.value = cleanCnpj
+  }
+
+  /**
+   * Retorna o CNPJ no formato padrão brasileiro: XX.XXX.XXX/XXXX-XX.
+   * @returns {string} CNPJ formatado.
+   */
+  public get formatted(): string {
+    return this.value.replace(/^(.{2})(.{3})(.{3})(.{4})(.{2})$/, '$1.$2.$3/$4-$5')
+  }
+
+  /**
+   * Retorna o valor bruto do CNPJ (sem pontuação).
+   * @returns {string} CNPJ sem formatação.
+   */
+  public get raw(): string {
+    return this.value
+  }
+
+  /**
+   * Retorna a raiz do CNPJ (8 primeiros caracteres), que identifica a empresa.
+   * @returns {string} Raiz do CNPJ.
+   */
+  public get root(): string {
+    return this.value.substring(0, 8)
+  }
+
+  /**
+   * Retorna o número do estabelecimento (caracteres 9 a 12), que identifica a matriz ou filial.
+   * @returns {string} Número do estabelecimento.
+   */
+  public get branch(): string {
+    return this.value.substring(8, 12)
+  }
+
+  /**
+   * Verifica se o CNPJ pertence à matriz da empresa (estabelecimento 0001).
+   * @returns {boolean} true se o CNPJ for da matriz, false caso contrário.
+   */
+  public isHeadquarters(): boolean {
+    return this.branch === '0001'
+  }
+
+  /**
+   * Verifica se uma string representa um CNPJ válido.
+   * @param cnpj - String a ser validada.
+   * @returns {boolean} true se a string for um CNPJ válido, false caso contrário.
+   */
+  public static isValid(cnpj: string): boolean {
+    try {
+      return CNPJ.schema.safeParse(CNPJ.clean(cnpj)).success
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Cria uma instância de CNPJ sem lançar exceções.
+   * @param cnpj - String contendo o CNPJ, pode incluir pontuação (que será removida).
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @returns {ValidationResult<CNPJ>} Instância criada ou lista de erros encontrados.
+   */
+  public static parse(cnpj: string, options: ValidationOptions = {}): ValidationResult<CNPJ> {
+    return toValidationResult(() => new CNPJ(cnpj, options))
+  }
+}
@@ -1,5 +1,40 @@
 import { z } from 'zod'
 
+import { createValidationIssue, toValidationResult, ValidationError } from '../errors'
+import {
+  CpfMaskOptions,
+  UF,
+  ValidationErrorCode,
+  ValidationOptions,
+  ValidationResult,
+} from '../types'
+
+/**
+ * Região fiscal de emissão de um CPF, identificada pelo nono dígito.
+ */
+export interface CpfFiscalRegion {
+  /** Número da região fiscal (0 a 9). */
+  region: number
+  /** Estados atendidos pela região fiscal. */
+  states: readonly UF[]
+}
+
+/**
+ * Estados atendidos por cada região fiscal da Receita Federal, indexados pelo nono dígito do CPF.
+ */
+export const cpfFiscalRegions: Readonly<Record<number, readonly UF[]>> = {
+  0: [UF.RS],
+  1: [UF.DF, UF.GO, UF.MS, UF.MT, UF.TO],
+  2: [UF.AC, UF.AM, UF.AP, UF.PA, UF.RO, UF.RR],
+  3: [UF.CE, UF.MA, UF.PI],
+  4: [UF.AL, UF.PB, UF.PE, UF.RN],
+  5: [UF.BA, UF.SE],
+  6: [UF.MG],
+  7: [UF.ES, UF.RJ],
+  8: [UF.SP],
+  9: [UF.PR, UF.SC],
+}
+
 /**
  * Classe que representa um CPF (Cadastro de Pessoa Física) brasileiro.
  * Encapsula a validação, formatação e manipulação segura de CPFs.
@@ -20,51 +55,71 @@ export class CPF {
    * @static
    */
   private static validate(cpf: string): boolean {
+    return CPF.computeCheckDigits(cpf.slice(0, 9)) === cpf.slice(9)
+  }
+
+  /**
+   * Calcula os dígitos verificadores a partir dos 9 dígitos base, já validados.
+   * @param base - String contendo os 9 dígitos base.
+   * @returns {string} Os 2 dígitos verificadores.
+   * @private
+   * @static
+   */
+  private static computeCheckDigits(base: string): string {
+    const digits = base.split('').map((digit) => parseInt(digit, 10))
+
+    // Cálculo do primeiro dígito verificador
+    // Multiplica os 9 primeiros dígitos pela sequência decrescente de 10 a 2
+    let soma1 = 0
+    for (let i = 0; i < 9; i++) {
+      soma1 += digits[i] * (10 - i)
+    }
+
+    // Calcula o resto da divisão (soma1 * 10) por 11
+    let resto1 = (soma1 * 10) % 11
+    // Se o resto for 10, considera-se como 0
+    if (resto1 === 10) {
+      resto1 = 0
+    }
+
+    // Cálculo do segundo dígito verificador
+    // Multiplica os 9 primeiros dígitos e o primeiro verificador pela sequência decrescente de 11 a 2
+    let soma2 = resto1 * 2
+    for (let i = 0; i < 9; i++) {
+      soma2 += digits[i] * (11 - i)
+    }
+
+    // Calcula o resto da divisão (soma2 * 10) por 11
+    let resto2 = (soma2 * 10) % 11
+    // Se o resto for 10, considera-se como 0
+    if (resto2 === 10) {
+      resto2 = 0
+    }
+
+    return `${resto1}${resto2}`
+  }
+
+  /**
+   * Identifica o primeiro problema encontrado no CPF.
+   * @param cpf - String contendo o CPF (apenas dígitos).
+   * @returns {ValidationErrorCode | undefined} Código do erro ou undefined se o CPF for válido.
+   * @private
+   * @static
+   */
+  private static check(cpf: string): ValidationErrorCode | undefined {
+    if (!/^\d{11}$/.test(cpf)) {
+      return ValidationErrorCode.CPF_WRONG_LENGTH
+    }
+
     if (/^(\d)\1{10}$/.test(cpf)) {
-      return false
+      return ValidationErrorCode.CPF_REPEATED_DIGITS
     }
 
-    try {
-      const digits = cpf.split('').map((digit) => parseInt(digit, 10))
-
-      // Validação do primeiro dígito verificador
-      // Multiplica os 9 primeiros dígitos pela sequência decrescente de 10 a 2
-      let soma1 = 0
-      for (let i = 0; i < 9; i++) {
-        soma1 += digits[i] * (10 - i)
-      }
-
-      // Calcula o resto da divisão (soma1 * 10) por 11
-      let resto1 = (soma1 * 10) % 11
-      // Se o resto for 10, considera-se como 0
-      if (resto1 === 10) {
-        resto1 = 0
-      }
-
-      // Verifica se o resto calculado corresponde ao primeiro dígito verificador
-      if (resto1 !== digits[9]) {
-        return false
-      }
-
-      // Validação do segundo dígito verificador
-      // Multiplica os 10 primeiros dígitos pela sequência decrescente de 11 a 2
-      let soma2 = 0
-      for (let i = 0; i < 10; i++) {
-        soma2 += digits[i] * (11 - i)
-      }
-
-      // Calcula o resto da divisão (soma2 * 10) por 11
-      let resto2 = (soma2 * 10) % 11
-      // Se o resto for 10, considera-se como 0
-      if (resto2 === 10) {
-        resto2 = 0
-      }
-
-      // Verifica se o resto calculado corresponde ao segundo dígito verificador
-      return resto2 === digits[10]
-    } catch {
-      return false
+    if (!CPF.validate(cpf)) {
+      return ValidationErrorCode.CPF_CHECK_DIGIT
     }
+
+    return undefined
   }
 
   /**
@@ -72,10 +127,13 @@ export class CPF {
    * @private
    * @static
    */
-  private static readonly schema = z
-    .string()
-    .regex(/^\d{11}$/, 'CPF deve conter exatamente 11 dígitos numéricos')
-    .refine((cpf) => CPF.validate(cpf), 'CPF inválido')
+  private static readonly schema = z.string().superRefine((cpf, ctx) => {
+    const code = CPF.check(cpf)
+
+    if (code) {
+      ctx.addIssue(ValidationError.toZodIssue(code))
+    }
+  })
 
   // -------------------------------------------------------------------------------------------------------------------
 
@@ -83,14 +141,15 @@ export class CPF {
    * Construtor para criação de instâncias de CPF.
    * Valida o CPF e lança um erro se for inválido.
    * @param cpf - String contendo o CPF, pode incluir pontuação (que será removida).
-   * @throws {Error} Se o CPF for inválido.
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @throws {ValidationError} Se o CPF for inválido.
    */
-  public constructor(cpf: string) {
+  public constructor(cpf: string, options: ValidationOptions = {}) {
     const cleanCpf = cpf.replace(/\D/g, '')
     const result = CPF.schema.safeParse(cleanCpf)
 
     if (!result.success) {
-      throw new Error(result.error.errors[0]?.message || 'CPF inválido')
+      throw ValidationError.fromZodError(result.error, cpf, options.locale)
     }
 
     this.value = cleanCpf
@@ -112,6 +171,44 @@ export class CPF {
     return this.value
   }
 
+  /**
+   * Retorna a região fiscal de emissão do CPF, identificada pelo nono dígito.
+   * @returns {CpfFiscalRegion} Número da região e estados atendidos.
+   */
+  public get fiscalRegion(): CpfFiscalRegion {
+    const region = parseInt(this.value[8], 10)
+    return { region, states: cpfFiscalRegions[region] }
+  }
+
+  /**
+   * Retorna o CPF mascarado conforme o padrão informado, para exibição e registro em logs.
+   * @param options - Padrão de saída e caractere de máscara.
+   * @returns {string} CPF mascarado.
+   * @throws {RangeError} Se o padrão não tiver exatamente 11 marcadores.
+   */
+  public mask(options: CpfMaskOptions = {}): string {
+    const { pattern = '***.###.###-**', maskChar = '*' } = options
+
+    const placeholders = pattern.replace(/[^#*]/g, '').length
+    if (placeholders !== 11) {
+      throw new RangeError(`O padrão de máscara deve ter 11 marcadores, mas tem ${placeholders}`)
+    }
+
+    let index = 0
+    return pattern.replace(/[#*]/g, (placeholder) => {
+      const digit = this.value[index++]
+      return placeholder === '#' ? digit : maskChar
+    })
+  }
+
+  /**
+   * Retorna o CPF mascarado no padrão da LGPD, exibindo apenas os dígitos centrais: ***.982.247-**.
+   * @returns {string} CPF mascarado.
+   */
+  public get masked(): string {
+    return this.mask()
+  }
+
   /**
    * Verifica se uma string representa um cpf válido.
    * @param cpf - String a ser validada.
@@ -125,4 +222,45 @@ export class CPF {
       return false
     }
   }
+
+  /**
+   * Calcula os dígitos verificadores de um CPF.
+   * @param base - String contendo os 9 dígitos base, pode incluir pontuação (que será removida).
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @returns {string} Os 2 dígitos verificadores.
+   * @throws {ValidationError} Com o código `CPF_BASE_WRONG_LENGTH` se a base não tiver 9 dígitos.
+   */
+  public static checkDigits(base: string, options: ValidationOptions = {}): string {
+    const cleanBase = base.replace(/\D/g, '')
+
+    if (cleanBase.length !== 9) {
+      throw new ValidationError([
+        createValidationIssue(ValidationErrorCode.CPF_BASE_WRONG_LENGTH, base, options),
+      ])
+    }
+
+    return CPF.computeCheckDigits(cleanBase)
+  }
+
+  /**
+   * Cria um CPF a partir dos 9 dígitos base, calculando os dígitos verificadores.
+   * @param base - String contendo os 9 dígitos base, pode incluir pontuação (que será removida).
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @returns {CPF} CPF completo.
+   * @throws {ValidationError} Se a base não tiver 9 dígitos ou se todos os dígitos forem iguais.
+   */
+  public static fromBaseDigits(base: string, options: ValidationOptions = {}): CPF {
+    const cleanBase = base.replace(/\D/g, '')
+    return new CPF(cleanBase + CPF.checkDigits(cleanBase, options), options)
+  }
+
+  /**
+   * Cria uma instância de CPF sem lançar exceções.
+   * @param cpf - String contendo o CPF, pode incluir pontuação (que será removida).
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @returns {ValidationResult<CPF>} Instância criada ou lista de erros encontrados.
+   */
+  public static parse(cpf: string, options: ValidationOptions = {}): ValidationResult<CPF> {
+    return toValidationResult(() => new CPF(cpf, options))
+  }
 }
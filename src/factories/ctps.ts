@@ -0,0 +1,142 @@
+import { z } from 'zod'
+
+import { toValidationResult, ValidationError } from '../errors'
+import { ValidationErrorCode, ValidationOptions, ValidationResult } from '../types'
+
+/**
+ * Classe que representa o número e a série de uma CTPS (Carteira de Trabalho e Previdência Social)
+ * em papel. A CTPS digital usa o próprio CPF do trabalhador.
+ * Encapsula a validação, formatação e manipulação segura do documento.
+ */
+export class CTPS {
+  /**
+   * Valor interno da CTPS: 7 dígitos do número seguidos de 4 dígitos da série.
+   * @private
+   */
+  private readonly value: string
+
+  /**
+   * Extrai o número e a série, completando cada parte com zeros à esquerda.
+   * Aceita as partes separadas (ex: `123456/12`) ou os 11 dígitos juntos.
+   * @param ctps - CTPS informada.
+   * @returns {string} Número e série com 11 dígitos, ou vazio se as partes forem longas demais.
+   * @private
+   * @static
+   */
+  private static clean(ctps: string): string {
+    const groups = ctps.match(/\d+/g) ?? []
+
+    if (groups.length === 1) {
+      return groups[0]
+    }
+
+    if (groups.length === 2 && groups[0].length <= 7 && groups[1].length <= 4) {
+      return groups[0].padStart(7, '0') + groups[1].padStart(4, '0')
+    }
+
+    return ''
+  }
+
+  /**
+   * Valida se a CTPS tem número e série e se nenhuma das partes é zerada.
+   * @private
+   * @static
+   */
+  private static readonly schema = z.string().superRefine((ctps, ctx) => {
+    if (!/^\d{11}$/.test(ctps)) {
+      ctx.addIssue(ValidationError.toZodIssue(ValidationErrorCode.CTPS_WRONG_LENGTH))
+      return
+    }
+
+    if (/^0+$/.test(ctps.slice(0, 7)) || /^0+$/.test(ctps.slice(7))) {
+      ctx.addIssue(ValidationError.toZodIssue(ValidationErrorCode.CTPS_INVALID))
+    }
+  })
+
+  // -------------------------------------------------------------------------------------------------------------------
+
+  /**
+   * Construtor para criação de instâncias de CTPS.
+   * Valida a CTPS e lança um erro se for inválida.
+   * @param ctps - String contendo o número e a série, separados (ex: `1234567/0012`) ou juntos.
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @throws {ValidationError} Se a CTPS for inválida.
+   */
+  public constructor(ctps: string, options: ValidationOptions = {}) {
+    const cleanCtps = CTPS.clean(ctps)
+    const result = CTPS.schema.safeParse(cleanCtps)
+
+    if (!result.success) {
+      throw ValidationError.fromZodError(result.error, ctps, options.locale)
+    }
+
+    this.value = cleanCtps
+  }
+
+  /**
+   * Retorna a CTPS no formato número/série: XXXXXXX/XXXX.
+   * @returns {string} CTPS formatada.
+   */
+  public get formatted(): string {
+    return `${this.number}/${this.series}`
+  }
+
+  /**
+   * Retorna o valor bruto da CTPS (número e série, apenas dígitos).
+   * @returns {string} CTPS sem formatação.
+   */
+  public get raw(): string {
+    return this.value
+  }
+
+  /**
+   * Retorna o número da CTPS, com 7 dígitos.
+   * @returns {string} Número da CTPS.
+   */
+  public get number(): string {
+    return this.value.slice(0, 7)
+  }
+
+  /**
+   * Retorna a série da CTPS, com 4 dígitos.
+   * @returns {string} Série da CTPS.
+   */
+  public get series(): string {
+    return this.value.slice(7)
+  }
+
+  /**
+   * Verifica se uma string representa uma CTPS válida.
+   * @param ctps - String a ser validada.
+   * @returns {boolean} true se a string for uma CTPS válida, false caso contrário.
+   */
+  public static isValid(ctps: string): boolean {
+    try {
+      return CTPS.schema.safeParse(CTPS.clean(ctps)).success
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Cria uma CTPS a partir do número e da série informados separadamente.
+   * @param number - Número da CTPS, com até 7 dígitos.
+   * @param series - Série da CTPS, com até 4 dígitos.
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @returns {CTPS} Instância criada.
+   * @throws {ValidationError} Se o número ou a série forem inválidos.
+   */
+  public static from(number: string, series: string, options: ValidationOptions = {}): CTPS {
+    return new CTPS(`${number}/${series}`, options)
+  }
+
+  /**
+   * Cria uma instância de CTPS sem lançar exceções.
+   * @param ctps - String contendo o número e a série.
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @returns {ValidationResult<CTPS>} Instância criada ou lista de erros encontrados.
+   */
+  public static parse(ctps: string, options: ValidationOptions = {}): ValidationResult<CTPS> {
+    return toValidationResult(() => new CTPS(ctps, options))
+  }
+}
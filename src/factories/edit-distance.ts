@@ -0,0 +1,29 @@
+/**
+ * Calcula a distância de edição entre dois textos, considerando a troca de caracteres adjacentes
+ * como uma única edição (ex: "gmial" → "gmail").
+ * @param a - Primeiro texto.
+ * @param b - Segundo texto.
+ * @returns {number} Quantidade mínima de inserções, remoções, substituições e trocas.
+ */
+export function editDistance(a: string, b: string): number {
+  const distances = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)),
+  )
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      distances[i][j] = Math.min(
+        distances[i - 1][j] + 1,
+        distances[i][j - 1] + 1,
+        distances[i - 1][j - 1] + cost,
+      )
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distances[i][j] = Math.min(distances[i][j], distances[i - 2][j - 2] + 1)
+      }
+    }
+  }
+
+  return distances[a.length][b.length]
+}
@@ -0,0 +1,48 @@
+/**
+ * Domínios de email mais usados no Brasil, usados nas sugestões de correção de digitação.
+ */
+export const commonEmailDomains: readonly string[] = [
+  'gmail.com',
+  'hotmail.com',
+  'hotmail.com.br',
+  'outlook.com',
+  'outlook.com.br',
+  'live.com',
+  'msn.com',
+  'yahoo.com',
+  'yahoo.com.br',
+  'icloud.com',
+  'me.com',
+  'uol.com.br',
+  'bol.com.br',
+  'terra.com.br',
+  'ig.com.br',
+  'globo.com',
+  'globomail.com',
+  'r7.com',
+  'zipmail.com.br',
+  'protonmail.com',
+  'aol.com',
+]
+
+/**
+ * Regras de canonicalização de um provedor de email.
+ */
+export interface EmailProviderRule {
+  /** Domínio canônico, compartilhado pelos domínios que são apelidos da mesma caixa postal. */
+  domain: string
+  /** Indica se o provedor ignora os pontos no nome de usuário. */
+  ignoreDots: boolean
+}
+
+/**
+ * Regras de canonicalização dos provedores conhecidos, indexadas pelo domínio.
+ * Domínios ausentes mantêm o próprio domínio e os pontos do nome de usuário.
+ */
+export const emailProviderRules: Readonly<Record<string, EmailProviderRule>> = {
+  'gmail.com': { domain: 'gmail.com', ignoreDots: true },
+  'googlemail.com': { domain: 'gmail.com', ignoreDots: true },
+  'icloud.com': { domain: 'icloud.com', ignoreDots: false },
+  'me.com': { domain: 'icloud.com', ignoreDots: false },
+  'mac.com': { domain: 'icloud.com', ignoreDots: false },
+}
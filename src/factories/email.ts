@@ -1,5 +1,19 @@
+import { domainToASCII, domainToUnicode } from 'url'
+
 import { z } from 'zod'
 
+import { toValidationResult, ValidationError } from '../errors'
+import {
+  EmailMaskOptions,
+  EmailSuggestOptions,
+  ValidationErrorCode,
+  ValidationOptions,
+  ValidationResult,
+} from '../types'
+import { defaultEmailVerifier, EmailVerificationResult, EmailVerifier } from '../verification'
+import { editDistance } from './edit-distance'
+import { commonEmailDomains, emailProviderRules } from './email-domains'
+
 /**
  * Classe que representa um endereço de email.
  * Encapsula a validação, formatação e manipulação segura de emails.
@@ -11,15 +25,76 @@ export class Email {
    */
   private readonly value: string
 
+  /**
+   * Valida apenas o formato do email.
+   * @private
+   * @static
+   */
+  private static readonly formatSchema = z.string().email()
+
   /**
    * Valida se o email segue um formato válido.
    * @private
    * @static
    */
-  private static readonly schema = z
-    .string()
-    .email('Email inválido')
-    .max(255, 'Email não pode exceder 255 caracteres')
+  private static readonly schema = z.string().superRefine((email, ctx) => {
+    if (!Email.formatSchema.safeParse(email).success) {
+      ctx.addIssue(ValidationError.toZodIssue(ValidationErrorCode.EMAIL_INVALID_FORMAT))
+    }
+
+    if (email.length > 255) {
+      ctx.addIssue(ValidationError.toZodIssue(ValidationErrorCode.EMAIL_TOO_LONG, { max: 255 }))
+    }
+  })
+
+  /**
+   * Remove espaços, converte para minúsculas e converte domínios internacionalizados para punycode.
+   * @param email - String contendo o email.
+   * @returns {string} Email normalizado.
+   * @private
+   * @static
+   */
+  private static clean(email: string): string {
+    const cleanEmail = email.trim().toLowerCase()
+    const at = cleanEmail.lastIndexOf('@')
+    const domain = cleanEmail.slice(at + 1)
+
+    // Domínios com caracteres Unicode são armazenados na forma ASCII (ex: açaí.com.br → xn--aa-4iaz.com.br)
+    if (at === -1 || /^[a-z0-9.-]*$/.test(domain)) {
+      return cleanEmail
+    }
+
+    const asciiDomain = domainToASCII(domain)
+    return asciiDomain ? `${cleanEmail.slice(0, at)}@${asciiDomain}` : cleanEmail
+  }
+
+  /**
+   * Oculta o trecho central de um texto, preservando o seu comprimento.
+   * Textos curtos demais para exibir início e fim mantêm apenas o primeiro caractere.
+   * @param text - Texto a ser mascarado.
+   * @param visibleStart - Quantidade de caracteres exibidos no início.
+   * @param visibleEnd - Quantidade de caracteres exibidos no fim.
+   * @param maskChar - Caractere usado no lugar dos caracteres ocultos.
+   * @returns {string} Texto mascarado.
+   * @private
+   * @static
+   */
+  private static maskText(
+    text: string,
+    visibleStart: number,
+    visibleEnd: number,
+    maskChar: string,
+  ): string {
+    if (text.length <= visibleStart + visibleEnd) {
+      return text.length > 1 ? text[0] + maskChar.repeat(text.length - 1) : maskChar
+    }
+
+    return (
+      text.slice(0, visibleStart) +
+      maskChar.repeat(text.length - visibleStart - visibleEnd) +
+      text.slice(text.length - visibleEnd)
+    )
+  }
 
   // -------------------------------------------------------------------------------------------------------------------
 
@@ -27,14 +102,15 @@ export class Email {
    * Construtor para criação de instâncias de email.
    * Valida o email e lança um erro se for inválido.
    * @param email - String contendo o email.
-   * @throws {Error} Se o email for inválido.
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @throws {ValidationError} Se o email for inválido.
    */
-  public constructor(email: string) {
-    const cleanEmail = email.trim().toLowerCase()
+  public constructor(email: string, options: ValidationOptions = {}) {
+    const cleanEmail = Email.clean(email)
     const result = Email.schema.safeParse(cleanEmail)
 
     if (!result.success) {
-      throw new Error(result.error.errors[0]?.message || 'Email inválido')
+      throw ValidationError.fromZodError(result.error, email, options.locale)
     }
 
     this.value = cleanEmail
@@ -56,6 +132,35 @@ export class Email {
     return this.value
   }
 
+  /**
+   * Retorna o email com o domínio internacionalizado em Unicode, para exibição.
+   * @returns {string} Email com o domínio em Unicode (ex: usuario@açaí.com.br).
+   */
+  public get unicode(): string {
+    return `${this.getUsername()}@${domainToUnicode(this.getDomain())}`
+  }
+
+  /**
+   * Retorna a forma canônica do email, que identifica a caixa postal de destino.
+   * Remove o sufixo `+tag`, ignora os pontos do usuário nos provedores que os desconsideram
+   * (Gmail) e unifica os domínios que são apelidos da mesma caixa postal (googlemail.com → gmail.com).
+   * @returns {string} Email canônico.
+   */
+  public get canonical(): string {
+    const domain = this.getDomain()
+    const rule = emailProviderRules[domain]
+
+    let username = this.getUsername()
+    if (this.getTag() !== undefined) {
+      username = username.slice(0, username.indexOf('+'))
+    }
+    if (rule?.ignoreDots) {
+      username = username.replace(/\./g, '')
+    }
+
+    return `${username}@${rule?.domain ?? domain}`
+  }
+
   /**
    * Retorna o domínio do email (parte após o @).
    * @returns {string} Domínio do email.
@@ -72,6 +177,53 @@ export class Email {
     return this.value.split('@')[0]
   }
 
+  /**
+   * Retorna a tag de subendereçamento do email (parte do usuário após o primeiro `+`).
+   * @returns {string | undefined} Tag do email ou undefined se não houver.
+   */
+  public getTag(): string | undefined {
+    const username = this.getUsername()
+    const index = username.indexOf('+')
+    return index > 0 ? username.slice(index + 1) : undefined
+  }
+
+  /**
+   * Sugere a correção de um domínio digitado incorretamente (ex: gmial.com → gmail.com),
+   * comparando-o por distância de edição com uma lista de domínios conhecidos.
+   * @param options - Domínios conhecidos e distância de edição máxima.
+   * @returns {string | undefined} Email com o domínio corrigido ou undefined se não houver sugestão.
+   */
+  public suggest(options: EmailSuggestOptions = {}): string | undefined {
+    const { domains = commonEmailDomains, maxDistance = 2 } = options
+    const domain = this.getDomain()
+
+    if (domains.includes(domain)) {
+      return undefined
+    }
+
+    let suggestion: string | undefined
+    let bestDistance = maxDistance + 1
+    for (const candidate of domains) {
+      const distance = editDistance(domain, candidate)
+      if (distance < bestDistance) {
+        suggestion = candidate
+        bestDistance = distance
+      }
+    }
+
+    return suggestion && `${this.getUsername()}@${suggestion}`
+  }
+
+  /**
+   * Verifica, por consulta de DNS, se o domínio do email pode receber emails.
+   * Procura registros MX, recorre a registros A/AAAA e identifica domínios com MX nulo (RFC 7505).
+   * @param verifier - Verificador com o resolvedor de DNS e o cache. Padrão: `defaultEmailVerifier`.
+   * @returns {Promise<EmailVerificationResult>} Resultado da verificação, com o nível de confiança.
+   */
+  public verify(verifier: EmailVerifier = defaultEmailVerifier): Promise<EmailVerificationResult> {
+    return verifier.verify(this.getDomain())
+  }
+
   /**
    * Verifica se o email usa um domínio específico.
    * @param domain - Domínio a ser verificado.
@@ -81,6 +233,34 @@ export class Email {
     return this.getDomain().toLowerCase() === domain.toLowerCase()
   }
 
+  /**
+   * Retorna o email mascarado, para exibição e registro em logs.
+   * @param options - Caracteres visíveis, caractere de máscara e mascaramento do domínio.
+   * @returns {string} Email mascarado.
+   */
+  public mask(options: EmailMaskOptions = {}): string {
+    const { visibleStart = 1, visibleEnd = 1, maskChar = '*', maskDomain = false } = options
+    const username = Email.maskText(this.getUsername(), visibleStart, visibleEnd, maskChar)
+
+    if (!maskDomain) {
+      return `${username}@${this.getDomain()}`
+    }
+
+    // Apenas o primeiro rótulo do domínio é mascarado, preservando o sufixo (ex: .com.br)
+    const [host, ...suffix] = this.getDomain().split('.')
+    const domain = [Email.maskText(host, visibleStart, visibleEnd, maskChar), ...suffix].join('.')
+    return `${username}@${domain}`
+  }
+
+  /**
+   * Retorna o email mascarado no padrão da LGPD, exibindo o primeiro e o último caractere do
+   * usuário: u*****o@exemplo.com.
+   * @returns {string} Email mascarado.
+   */
+  public get masked(): string {
+    return this.mask()
+  }
+
   /**
    * Verifica se uma string representa um email válido.
    * @param email - String a ser validada.
@@ -88,10 +268,19 @@ export class Email {
    */
   public static isValid(email: string): boolean {
     try {
-      const cleanEmail = email.trim().toLowerCase()
-      return Email.schema.safeParse(cleanEmail).success
+      return Email.schema.safeParse(Email.clean(email)).success
     } catch {
       return false
     }
   }
+
+  /**
+   * Cria uma instância de email sem lançar exceções.
+   * @param email - String contendo o email.
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @returns {ValidationResult<Email>} Instância criada ou lista de erros encontrados.
+   */
+  public static parse(email: string, options: ValidationOptions = {}): ValidationResult<Email> {
+    return toValidationResult(() => new Email(email, options))
+  }
 }
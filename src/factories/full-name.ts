@@ -1,5 +1,63 @@
 import { z } from 'zod'
 
+import { toValidationResult, ValidationError } from '../errors'
+import {
+  FullNameMaskOptions,
+  FullNameOptions,
+  FullNameParts,
+  FullNameRules,
+  NameMatchOptions,
+  ValidationErrorCode,
+  ValidationResult,
+} from '../types'
+import { editDistance } from './edit-distance'
+
+/**
+ * Papel de cada palavra em um nome completo.
+ */
+type NameRole = 'given' | 'surname' | 'particle' | 'suffix'
+
+/**
+ * Regras padrão de validação de nomes completos.
+ */
+export const defaultFullNameRules: Readonly<Required<FullNameRules>> = {
+  minWords: 2,
+  minLength: 3,
+  maxLength: 100,
+  particles: [],
+  unicode: false,
+  preserveCase: false,
+}
+
+/**
+ * Regras globais utilizadas quando nenhuma regra é informada na chamada.
+ */
+let currentFullNameRules: Required<FullNameRules> = { ...defaultFullNameRules }
+
+/**
+ * Define as regras globais de validação de nomes completos.
+ * As regras omitidas assumem os valores padrão.
+ * @param rules - Regras a serem utilizadas.
+ */
+export function setFullNameRules(rules: FullNameRules): void {
+  currentFullNameRules = { ...defaultFullNameRules, ...rules }
+}
+
+/**
+ * Retorna as regras globais de validação de nomes completos.
+ * @returns {Required<FullNameRules>} Regras atuais.
+ */
+export function getFullNameRules(): Required<FullNameRules> {
+  return { ...currentFullNameRules }
+}
+
+/**
+ * Restaura as regras padrão de validação de nomes completos.
+ */
+export function resetFullNameRules(): void {
+  currentFullNameRules = { ...defaultFullNameRules }
+}
+
 /**
  * Classe que representa o nome completo de uma pessoa.
  * Encapsula a validação, formatação e manipulação segura de nomes.
@@ -12,94 +70,230 @@ export class FullName {
   private readonly value: string
 
   /**
-   * Validação básica do nome completo.
+   * Partículas reconhecidas no nome, incluindo as adicionais das regras.
+   * @private
+   */
+  private readonly particles: readonly string[]
+
+  /**
+   * Combina as regras informadas na chamada com as regras globais.
+   * @param rules - Regras informadas na chamada.
+   * @returns {Required<FullNameRules>} Regras completas.
+   * @private
+   * @static
+   */
+  private static resolveRules(rules: FullNameRules = {}): Required<FullNameRules> {
+    return { ...currentFullNameRules, ...rules }
+  }
+
+  /**
+   * Retorna as partículas reconhecidas pelas regras, em minúsculas.
+   * @param rules - Regras de validação.
+   * @returns {string[]} Partículas do português e adicionais.
+   * @private
+   * @static
+   */
+  private static particlesFor(rules: Required<FullNameRules>): string[] {
+    return [...FullName.lowerCaseWords, ...rules.particles.map((word) => word.toLowerCase())]
+  }
+
+  /**
+   * Cria a validação do nome completo para as regras informadas.
+   * @param rules - Regras de validação.
+   * @returns {z.ZodEffects<z.ZodString>} Schema de validação.
    * @private
    * @static
    */
-  private static readonly schema = z
-    .string()
-    .min(3, 'Nome completo deve ter pelo menos 3 caracteres')
-    .max(100, 'Nome completo não pode exceder 100 caracteres')
-    .refine((value) => FullName.validate(value), 'Nome completo inválido')
+  private static schema(rules: Required<FullNameRules>): z.ZodEffects<z.ZodString> {
+    return z.string().superRefine((name, ctx) => {
+      if (name.length < rules.minLength) {
+        ctx.addIssue(
+          ValidationError.toZodIssue(ValidationErrorCode.NAME_TOO_SHORT, { min: rules.minLength }),
+        )
+      }
+
+      if (name.length > rules.maxLength) {
+        ctx.addIssue(
+          ValidationError.toZodIssue(ValidationErrorCode.NAME_TOO_LONG, { max: rules.maxLength }),
+        )
+      }
+
+      const code = FullName.validate(name, rules)
+      if (code) {
+        ctx.addIssue(ValidationError.toZodIssue(code))
+      }
+    })
+  }
 
   /**
    * Realiza validações adicionais no nome completo.
    * @param name - Nome completo a ser validado.
-   * @returns {boolean} true se o nome for válido, false caso contrário.
+   * @param rules - Regras de validação.
+   * @returns {ValidationErrorCode | undefined} Código do erro ou undefined se o nome for válido.
    * @private
    * @static
    */
-  private static validate(name: string): boolean {
-    // Nome deve conter pelo menos duas palavras (nome e sobrenome)
+  private static validate(
+    name: string,
+    rules: Required<FullNameRules>,
+  ): ValidationErrorCode | undefined {
+    // Nome deve conter a quantidade mínima de palavras (por padrão, nome e sobrenome)
     const words = name.trim().split(/\s+/)
-    if (words.length < 2) {
-      return false
+    if (words.length < rules.minWords) {
+      return ValidationErrorCode.NAME_SINGLE_WORD
     }
 
     // Lista de preposições, artigos e conectivos que são válidos mesmo com menos de 2 caracteres
-    const validSingleCharWords = ['e', 'o', 'a', 'à', 'é']
+    const validSingleCharWords = [
+      'e',
+      'o',
+      'a',
+      'à',
+      'é',
+      ...rules.particles.map((word) => word.toLowerCase()),
+    ]
+
+    // Letras latinas por padrão, ou de qualquer alfabeto com as regras Unicode
+    const letter = rules.unicode ? '\\p{L}' : 'a-zA-ZÀ-ÖØ-öø-ÿ'
+    const startsWithLetter = new RegExp(`^[${letter}]`, 'u')
+    const validWord = new RegExp(`^[${letter}${rules.unicode ? '\\p{M}' : ''}'-]+$`, 'u')
 
     // Cada palavra deve ter pelo menos 2 caracteres e começar com letra,
     // exceto preposições/artigos/conectivos que podem ter 1 caractere
     for (const word of words) {
       // Preposições e artigos podem ter 1 caractere
       if (word.length === 1 && !validSingleCharWords.includes(word.toLowerCase())) {
-        return false
+        return ValidationErrorCode.NAME_WORD_TOO_SHORT
       }
 
       // Verificar se a palavra começa com uma letra
-      if (!/^[a-zA-ZÀ-ÖØ-öø-ÿ]/.test(word)) {
-        return false
+      if (!startsWithLetter.test(word)) {
+        return ValidationErrorCode.NAME_INVALID_CHARACTERS
       }
 
       // Verificar se a palavra contém apenas letras, hífens, apóstrofos
-      if (!/^[a-zA-ZÀ-ÖØ-öø-ÿ'-]+$/.test(word)) {
-        return false
+      if (!validWord.test(word)) {
+        return ValidationErrorCode.NAME_INVALID_CHARACTERS
       }
     }
 
-    return true
+    return undefined
+  }
+
+  /**
+   * Lista de preposições, artigos e conectivos que não são capitalizados.
+   * @private
+   * @static
+   */
+  private static readonly lowerCaseWords = [
+    'de',
+    'da',
+    'do',
+    'das',
+    'dos',
+    'e',
+    'o',
+    'a',
+    'os',
+    'as',
+    'em',
+    'com',
+  ]
+
+  /**
+   * Sufixos de geração ou parentesco, sem acentos e em minúsculas.
+   * @private
+   * @static
+   */
+  private static readonly suffixWords = ['junior', 'jr', 'filho', 'neto', 'sobrinho']
+
+  /**
+   * Verifica se uma palavra é um sufixo de geração ou parentesco.
+   * @param word - Palavra a ser verificada.
+   * @returns {boolean} true se a palavra for um sufixo.
+   * @private
+   * @static
+   */
+  private static isSuffix(word: string): boolean {
+    return FullName.suffixWords.includes(FullName.plain(word))
+  }
+
+  /**
+   * Remove acentos e converte uma palavra para minúsculas.
+   * @param word - Palavra a ser convertida.
+   * @returns {string} Palavra sem acentos, em minúsculas.
+   * @private
+   * @static
+   */
+  private static plain(word: string): string {
+    return word.toLowerCase().normalize('NFD').replace(/\p{M}/gu, '')
+  }
+
+  /**
+   * Calcula o código fonético de uma palavra, aproximando grafias com a mesma pronúncia em
+   * português (ex: "Sylva" e "Silva", "Thiago" e "Tiago", "Souza" e "Sousa").
+   * @param word - Palavra a ser codificada.
+   * @returns {string} Código fonético.
+   * @private
+   * @static
+   */
+  private static phonetic(word: string): string {
+    return (
+      FullName.plain(word.toLowerCase().replace(/ç/g, 's'))
+        .replace(/[^\p{L}]/gu, '')
+        // Grafias equivalentes
+        .replace(/ph/g, 'f')
+        .replace(/y/g, 'i')
+        .replace(/w/g, 'v')
+        // Dígrafos com "h" e "h" mudo
+        .replace(/[cs]h/g, 'x')
+        .replace(/lh/g, 'li')
+        .replace(/nh/g, 'ni')
+        .replace(/h/g, '')
+        // Sons de "k", "j" e "s"
+        .replace(/qu(?=[ei])/g, 'k')
+        .replace(/q/g, 'k')
+        .replace(/g(?=[ei])/g, 'j')
+        .replace(/gu(?=[ei])/g, 'g')
+        .replace(/sc(?=[ei])/g, 's')
+        .replace(/c(?=[ei])/g, 's')
+        .replace(/c/g, 'k')
+        .replace(/z/g, 's')
+        // Letras repetidas
+        .replace(/(.)\1+/g, '$1')
+    )
   }
 
   /**
    * Normaliza um nome completo, removendo espaços extras e capitalizando adequadamente.
    * @param name - Nome a ser normalizado.
+   * @param rules - Regras de validação, com as partículas adicionais e a preservação de maiúsculas.
    * @returns {string} Nome normalizado.
    * @private
    * @static
    */
-  private static normalizeName(name: string): string {
+  private static normalizeName(name: string, rules: Required<FullNameRules>): string {
     // Remove espaços extras
-    const trimmedName = name.trim().replace(/\s+/g, ' ')
+    const trimmedName = name.normalize('NFC').trim().replace(/\s+/g, ' ')
+
+    if (rules.preserveCase) {
+      return trimmedName
+    }
+
+    const particles = FullName.particlesFor(rules)
 
     // Divide o nome em palavras para processar cada uma individualmente
     const words = trimmedName.split(' ')
 
     // Processa cada palavra
     const processedWords = words.map((word, index) => {
-      // Lista de preposições, artigos e conectivos que não são capitalizados
-      const lowerCaseWords = [
-        'de',
-        'da',
-        'do',
-        'das',
-        'dos',
-        'e',
-        'o',
-        'a',
-        'os',
-        'as',
-        'em',
-        'com',
-      ]
-
       // Se for a primeira palavra, sempre capitaliza
       if (index === 0) {
         return FullName.capitalizeWord(word)
       }
 
       // Se for uma preposição, artigo ou conectivo, mantém em minúsculo
-      if (lowerCaseWords.includes(word.toLowerCase())) {
+      if (particles.includes(word.toLowerCase())) {
         return word.toLowerCase()
       }
 
@@ -143,23 +337,72 @@ export class FullName {
     return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
   }
 
+  /**
+   * Classifica cada palavra do nome como prenome, sobrenome, partícula ou sufixo.
+   * A primeira palavra é sempre o prenome. Sufixos só são reconhecidos no fim do nome e depois de
+   * um sobrenome, para que nomes como "José Neto" mantenham "Neto" como sobrenome.
+   * @returns {{ word: string; role: NameRole }[]} Palavras do nome e seus papéis.
+   * @private
+   */
+  private tokenize(): { word: string; role: NameRole }[] {
+    const words = this.value.split(' ')
+
+    let end = words.length
+    while (
+      end > 2 &&
+      FullName.isSuffix(words[end - 1]) &&
+      !this.particles.includes(words[end - 2].toLowerCase())
+    ) {
+      end--
+    }
+
+    return words.map((word, index) => {
+      if (index === 0) {
+        return { word, role: 'given' }
+      }
+      if (index >= end) {
+        return { word, role: 'suffix' }
+      }
+      return { word, role: this.particles.includes(word.toLowerCase()) ? 'particle' : 'surname' }
+    })
+  }
+
+  /**
+   * Retorna a posição do último sobrenome, ou da última palavra se o nome não tiver sobrenomes.
+   * @param tokens - Palavras do nome e seus papéis.
+   * @returns {number} Posição do último sobrenome.
+   * @private
+   * @static
+   */
+  private static lastSurnameIndex(tokens: { word: string; role: NameRole }[]): number {
+    for (let index = tokens.length - 1; index > 0; index--) {
+      if (tokens[index].role === 'surname') {
+        return index
+      }
+    }
+    return tokens.length - 1
+  }
+
   // -------------------------------------------------------------------------------------------------------------------
 
   /**
    * Construtor para criação de instâncias de nome completo.
    * Valida o nome e lança um erro se for inválido.
    * @param name - String contendo o nome completo.
-   * @throws {Error} Se o nome for inválido.
+   * @param options - Opções de validação, como o idioma das mensagens de erro e as regras do nome.
+   * @throws {ValidationError} Se o nome for inválido.
    */
-  public constructor(name: string) {
-    const cleanName = FullName.normalizeName(name)
-    const result = FullName.schema.safeParse(cleanName)
+  public constructor(name: string, options: FullNameOptions = {}) {
+    const rules = FullName.resolveRules(options.rules)
+    const cleanName = FullName.normalizeName(name, rules)
+    const result = FullName.schema(rules).safeParse(cleanName)
 
     if (!result.success) {
-      throw new Error(result.error.errors[0]?.message || 'Nome completo inválido')
+      throw ValidationError.fromZodError(result.error, name, options.locale)
     }
 
     this.value = cleanName
+    this.particles = FullName.particlesFor(rules)
   }
 
   /**
@@ -187,25 +430,241 @@ export class FullName {
   }
 
   /**
-   * Retorna o último nome (sobrenome).
-   * @returns {string} Último nome.
+   * Retorna o último sobrenome, ignorando sufixos como "Júnior" ou "Filho".
+   * @returns {string} Último sobrenome.
    */
   public getLastName(): string {
-    const parts = this.value.split(' ')
-    return parts[parts.length - 1]
+    const tokens = this.tokenize()
+    return tokens[FullName.lastSurnameIndex(tokens)].word
+  }
+
+  /**
+   * Retorna as partes do nome: prenomes, sobrenomes, partículas e sufixos.
+   * @returns {FullNameParts} Partes do nome.
+   */
+  public getParts(): FullNameParts {
+    const tokens = this.tokenize()
+    const words = (role: NameRole): string[] =>
+      tokens.filter((token) => token.role === role).map((token) => token.word)
+
+    return {
+      givenNames: words('given'),
+      surnames: words('surname'),
+      particles: words('particle'),
+      suffixes: words('suffix'),
+    }
+  }
+
+  /**
+   * Retorna as iniciais do prenome e dos sobrenomes, sem partículas e sufixos:
+   * José Santos da Silva Júnior → JSS.
+   * @returns {string} Iniciais em maiúsculas.
+   */
+  public getInitials(): string {
+    return this.tokenize()
+      .filter((token) => token.role === 'given' || token.role === 'surname')
+      .map((token) => token.word.charAt(0).toUpperCase())
+      .join('')
+  }
+
+  /**
+   * Retorna o nome com os sobrenomes intermediários abreviados:
+   * José Santos da Silva Júnior → José S. da Silva Júnior.
+   * As partículas que antecedem nomes abreviados são omitidas.
+   * @returns {string} Nome abreviado.
+   */
+  public get abbreviated(): string {
+    const tokens = this.tokenize()
+    const last = FullName.lastSurnameIndex(tokens)
+
+    return tokens
+      .map((token, index) => {
+        if (index === 0 || index >= last) {
+          return token.word
+        }
+        if (token.role === 'surname') {
+          return `${token.word.charAt(0)}.`
+        }
+        // Mantém apenas as partículas ligadas ao último sobrenome (ex: "da Silva")
+        return tokens.slice(index + 1, last).every((next) => next.role === 'particle')
+          ? token.word
+          : undefined
+      })
+      .filter((word) => word !== undefined)
+      .join(' ')
+  }
+
+  /**
+   * Retorna o nome no formato de citação da ABNT (NBR 6023), com o último sobrenome e os sufixos
+   * em maiúsculas seguidos dos demais nomes: José da Silva Júnior → SILVA JÚNIOR, José da.
+   * @returns {string} Nome no formato de citação.
+   */
+  public get citation(): string {
+    const words = this.value.split(' ')
+    const last = FullName.lastSurnameIndex(this.tokenize())
+
+    const entry = words.slice(last).join(' ').toLocaleUpperCase('pt-BR')
+    return last > 0 ? `${entry}, ${words.slice(0, last).join(' ')}` : entry
+  }
+
+  /**
+   * Retorna um nome curto para crachás e espaços reduzidos, com até o tamanho informado.
+   * Tenta, em ordem: o nome completo, o nome abreviado, o prenome com o último sobrenome e os
+   * sufixos, o prenome com o último sobrenome, o prenome com a inicial do último sobrenome e
+   * o prenome. Se nenhum couber, o prenome é truncado.
+   * @param maxLength - Quantidade máxima de caracteres.
+   * @returns {string} Nome curto.
+   * @throws {RangeError} Se o tamanho máximo for menor que 1.
+   */
+  public shortName(maxLength: number): string {
+    if (!Number.isInteger(maxLength) || maxLength < 1) {
+      throw new RangeError('O tamanho máximo do nome curto deve ser um inteiro positivo')
+    }
+
+    const tokens = this.tokenize()
+    const first = tokens[0].word
+    const lastName = tokens[FullName.lastSurnameIndex(tokens)].word
+    const suffixes = tokens.filter((token) => token.role === 'suffix').map((token) => token.word)
+
+    const candidates = [
+      this.value,
+      this.abbreviated,
+      [first, lastName, ...suffixes].join(' '),
+      `${first} ${lastName}`,
+      `${first} ${lastName.charAt(0)}.`,
+      first,
+    ]
+
+    return (
+      candidates.find((candidate) => candidate.length <= maxLength) ?? first.slice(0, maxLength)
+    )
+  }
+
+  /**
+   * Retorna o nome mascarado, para exibição e registro em logs.
+   * As palavras iniciais são exibidas por completo, as partículas são mantidas e os demais
+   * nomes são abreviados pela inicial.
+   * @param options - Quantidade de palavras exibidas por completo.
+   * @returns {string} Nome mascarado.
+   */
+  public mask(options: FullNameMaskOptions = {}): string {
+    const { visibleWords = 1 } = options
+
+    return this.value
+      .split(' ')
+      .map((word, index) => {
+        if (index < visibleWords || (index > 0 && this.particles.includes(word.toLowerCase()))) {
+          return word
+        }
+        return `${word.charAt(0)}.`
+      })
+      .join(' ')
+  }
+
+  /**
+   * Retorna o nome mascarado no padrão da LGPD, exibindo apenas o primeiro nome por completo:
+   * João S. da S.
+   * @returns {string} Nome mascarado.
+   */
+  public get masked(): string {
+    return this.mask()
+  }
+
+  /**
+   * Retorna a chave de busca do nome, sem acentos, maiúsculas e partículas:
+   * JOÃO DA SILVA → joao silva.
+   * @returns {string} Chave de busca.
+   */
+  public get searchKey(): string {
+    return this.tokenize()
+      .filter((token) => token.role !== 'particle')
+      .map((token) => FullName.plain(token.word))
+      .join(' ')
+  }
+
+  /**
+   * Retorna o código fonético do nome, sem partículas, que aproxima grafias com a mesma pronúncia
+   * em português: João da Sylva → joao silva.
+   * @returns {string} Código fonético.
+   */
+  public get phoneticKey(): string {
+    return this.tokenize()
+      .filter((token) => token.role !== 'particle')
+      .map((token) => FullName.phonetic(token.word))
+      .join(' ')
+  }
+
+  /**
+   * Calcula a similaridade entre dois nomes, de 0 (diferentes) a 1 (equivalentes), a partir da
+   * distância de edição entre os seus códigos fonéticos.
+   * @param a - Primeiro nome, como instância ou string.
+   * @param b - Segundo nome, como instância ou string.
+   * @param options - Regras de validação dos nomes informados como string.
+   * @returns {number} Similaridade entre os nomes, ou 0 se algum código fonético ficar vazio.
+   * @throws {ValidationError} Se algum dos nomes for inválido.
+   */
+  public static similarity(
+    a: FullName | string,
+    b: FullName | string,
+    options: FullNameOptions = {},
+  ): number {
+    const first = (a instanceof FullName ? a : new FullName(a, options)).phoneticKey
+    const second = (b instanceof FullName ? b : new FullName(b, options)).phoneticKey
+
+    if (first.trim() === '' || second.trim() === '') {
+      return 0
+    }
+
+    return 1 - editDistance(first, second) / Math.max(first.length, second.length)
+  }
+
+  /**
+   * Verifica se dois nomes provavelmente se referem à mesma pessoa, ignorando acentos,
+   * maiúsculas, partículas e variações de grafia. Útil para identificar duplicidades em importações.
+   * @param a - Primeiro nome, como instância ou string.
+   * @param b - Segundo nome, como instância ou string.
+   * @param options - Similaridade mínima para considerar os nomes equivalentes e regras de validação
+   * dos nomes informados como string.
+   * @returns {boolean} true se a similaridade atingir o limite.
+   * @throws {ValidationError} Se algum dos nomes for inválido.
+   * @throws {RangeError} Se o limite não for um número entre 0 e 1.
+   */
+  public static matches(
+    a: FullName | string,
+    b: FullName | string,
+    options: NameMatchOptions = {},
+  ): boolean {
+    const { threshold = 0.85 } = options
+    if (!Number.isFinite(threshold) || threshold < 0 || threshold > 1) {
+      throw new RangeError(`O limite de similaridade deve estar entre 0 e 1, mas é ${threshold}`)
+    }
+
+    return FullName.similarity(a, b, options) >= threshold
   }
 
   /**
    * Verifica se uma string representa um nome completo válido.
    * @param name - String a ser validada.
+   * @param options - Regras de validação. Quando omitidas, usa as regras globais.
    * @returns {boolean} true se a string for um nome válido, false caso contrário.
    */
-  public static isValid(name: string): boolean {
+  public static isValid(name: string, options: FullNameOptions = {}): boolean {
     try {
-      const cleanName = FullName.normalizeName(name)
-      return FullName.schema.safeParse(cleanName).success
+      const resolved = FullName.resolveRules(options.rules)
+      const cleanName = FullName.normalizeName(name, resolved)
+      return FullName.schema(resolved).safeParse(cleanName).success
     } catch {
       return false
     }
   }
+
+  /**
+   * Cria uma instância de nome completo sem lançar exceções.
+   * @param name - String contendo o nome completo.
+   * @param options - Opções de validação, como o idioma das mensagens de erro e as regras do nome.
+   * @returns {ValidationResult<FullName>} Instância criada ou lista de erros encontrados.
+   */
+  public static parse(name: string, options: FullNameOptions = {}): ValidationResult<FullName> {
+    return toValidationResult(() => new FullName(name, options))
+  }
 }
@@ -1,3 +1,15 @@
+export * from './address'
+export * from './birth-date'
+export * from './br-date'
+export * from './cep'
+export * from './cnh'
+export * from './cnpj'
 export * from './cpf'
+export * from './ctps'
 export * from './email'
+export * from './email-domains'
 export * from './full-name'
+export * from './money'
+export * from './phone'
+export * from './pis'
+export * from './titulo-eleitor'
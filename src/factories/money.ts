@@ -0,0 +1,446 @@
+import { z } from 'zod'
+
+import { createValidationIssue, toValidationResult, ValidationError } from '../errors'
+import { MoneyOptions, RoundingMode, ValidationErrorCode, ValidationResult } from '../types'
+
+/**
+ * Símbolo usado na formatação de cada moeda. Moedas sem símbolo são exibidas pelo código.
+ */
+export const currencySymbols: Readonly<Record<string, string>> = {
+  BRL: 'R$',
+  USD: 'US$',
+  EUR: '€',
+}
+
+/**
+ * Divide dois inteiros, arredondando o quociente conforme o modo informado.
+ * @param dividend - Dividendo inteiro.
+ * @param divisor - Divisor inteiro positivo.
+ * @param mode - Modo de arredondamento.
+ * @returns {number} Quociente arredondado.
+ */
+function divideAndRound(dividend: number, divisor: number, mode: RoundingMode): number {
+  const quotient = Math.trunc(dividend / divisor)
+  const remainder = dividend - quotient * divisor
+  if (remainder === 0) {
+    return quotient
+  }
+
+  // Compara o dobro do resto com o divisor para identificar valores acima, abaixo ou na metade
+  const sign = dividend < 0 ? -1 : 1
+  const half = Math.abs(remainder) * 2 - divisor
+
+  switch (mode) {
+    case RoundingMode.UP:
+      return quotient + sign
+    case RoundingMode.DOWN:
+      return quotient
+    case RoundingMode.CEILING:
+      return sign > 0 ? quotient + 1 : quotient
+    case RoundingMode.FLOOR:
+      return sign < 0 ? quotient - 1 : quotient
+    case RoundingMode.HALF_DOWN:
+      return half > 0 ? quotient + sign : quotient
+    case RoundingMode.HALF_EVEN:
+      return half > 0 || (half === 0 && quotient % 2 !== 0) ? quotient + sign : quotient
+    default:
+      return half >= 0 ? quotient + sign : quotient
+  }
+}
+
+/**
+ * Classe que representa um valor monetário, armazenado em centavos inteiros para evitar os erros
+ * de arredondamento dos números de ponto flutuante.
+ * Encapsula a interpretação de valores em reais, a formatação em pt-BR e a aritmética exata.
+ */
+export class Money {
+  /**
+   * Valor interno em centavos.
+   * @private
+   */
+  private readonly value: number
+
+  /**
+   * Código ISO 4217 da moeda.
+   */
+  public readonly currency: string
+
+  /**
+   * Escapa os caracteres especiais de um texto para uso em uma expressão regular.
+   * @param text - Texto a ser escapado.
+   * @returns {string} Texto escapado.
+   * @private
+   * @static
+   */
+  private static escape(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  }
+
+  /**
+   * Converte o valor informado para um número decimal com ponto (ex: `-1234.56`).
+   * Aceita o símbolo ou o código da moeda, o sinal antes ou depois do símbolo e separadores de
+   * milhar. Quando há apenas um ponto seguido de exatamente 3 dígitos (ex: `1.234`), o ponto é
+   * tratado como separador de milhar, como no padrão brasileiro.
+   * @param amount - Valor informado.
+   * @param currency - Código da moeda.
+   * @returns {string} Número decimal ou o texto informado, se não estiver em um formato aceito.
+   * @private
+   * @static
+   */
+  private static clean(amount: string | number, currency: string): string {
+    if (typeof amount === 'number') {
+      return String(amount)
+    }
+
+    const prefixes = [currencySymbols[currency], currency]
+      .filter((prefix): prefix is string => Boolean(prefix))
+      .map(Money.escape)
+    const match = new RegExp(`^(-)?(?:${prefixes.join('|')})?(-)?([\\d.,]+)$`, 'i').exec(
+      amount.replace(/\s/g, ''),
+    )
+    if (!match || (match[1] && match[2])) {
+      return amount.trim()
+    }
+
+    const number = match[3]
+    const lastComma = number.lastIndexOf(',')
+    const lastDot = number.lastIndexOf('.')
+
+    // Com os dois separadores, o último é o decimal; com um só, ele é decimal se aparecer uma vez
+    let decimalSeparator: string | undefined
+    if (lastComma >= 0 && lastDot >= 0) {
+      decimalSeparator = lastComma > lastDot ? ',' : '.'
+    } else if (lastComma >= 0 && number.indexOf(',') === lastComma) {
+      decimalSeparator = ','
+    } else if (
+      lastDot >= 0 &&
+      number.indexOf('.') === lastDot &&
+      !/^\d{1,3}\.\d{3}$/.test(number)
+    ) {
+      decimalSeparator = '.'
+    }
+
+    const decimalIndex = decimalSeparator ? number.lastIndexOf(decimalSeparator) : -1
+    const integer = decimalIndex >= 0 ? number.slice(0, decimalIndex) : number
+    const fraction = decimalIndex >= 0 ? number.slice(decimalIndex + 1) : undefined
+    const thousands = Money.escape(
+      decimalSeparator ? (decimalSeparator === ',' ? '.' : ',') : lastComma >= 0 ? ',' : '.',
+    )
+
+    if (
+      !new RegExp(`^(\\d+|\\d{1,3}(${thousands}\\d{3})+)$`).test(integer) ||
+      (fraction !== undefined && !/^\d+$/.test(fraction))
+    ) {
+      return amount.trim()
+    }
+
+    const sign = match[1] || match[2] ? '-' : ''
+    const digits = integer.replace(/\D/g, '')
+    return fraction === undefined ? `${sign}${digits}` : `${sign}${digits}.${fraction}`
+  }
+
+  /**
+   * Converte um número decimal com até 2 casas em centavos.
+   * @param amount - Número decimal com ponto (ex: `-1234.5`).
+   * @returns {number} Valor em centavos.
+   * @private
+   * @static
+   */
+  private static toCents(amount: string): number {
+    const [integer, fraction = ''] = amount.replace('-', '').split('.')
+    const cents = Number(integer) * 100 + Number(fraction.padEnd(2, '0'))
+    return (amount.startsWith('-') ? -cents : cents) || 0
+  }
+
+  /**
+   * Identifica o primeiro problema encontrado no valor ou na moeda.
+   * @param amount - Número decimal com ponto.
+   * @param currency - Código da moeda.
+   * @returns {ValidationErrorCode | undefined} Código do erro ou undefined se o valor for válido.
+   * @private
+   * @static
+   */
+  private static check(amount: string, currency: string): ValidationErrorCode | undefined {
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      return ValidationErrorCode.MONEY_INVALID_CURRENCY
+    }
+
+    const match = /^-?\d+(?:\.(\d+))?$/.exec(amount)
+    if (!match) {
+      return ValidationErrorCode.MONEY_INVALID_FORMAT
+    }
+
+    if ((match[1] ?? '').length > 2) {
+      return ValidationErrorCode.MONEY_TOO_MANY_DECIMALS
+    }
+
+    if (!Number.isSafeInteger(Money.toCents(amount))) {
+      return ValidationErrorCode.MONEY_INVALID_FORMAT
+    }
+
+    return undefined
+  }
+
+  /**
+   * Valida se a moeda é um código ISO 4217 e se o valor tem no máximo 2 casas decimais.
+   * @private
+   * @static
+   */
+  private static readonly schema = z
+    .object({ amount: z.string(), currency: z.string() })
+    .superRefine(({ amount, currency }, ctx) => {
+      const code = Money.check(amount, currency)
+
+      if (code) {
+        ctx.addIssue(ValidationError.toZodIssue(code, { currency }))
+      }
+    })
+
+  /**
+   * Garante que outro valor está na mesma moeda.
+   * @param other - Valor a ser combinado.
+   * @throws {ValidationError} Com o código `MONEY_CURRENCY_MISMATCH` se as moedas forem diferentes.
+   * @private
+   */
+  private assertSameCurrency(other: Money): void {
+    if (other.currency !== this.currency) {
+      throw new ValidationError([
+        createValidationIssue(
+          ValidationErrorCode.MONEY_CURRENCY_MISMATCH,
+          other.formatted,
+          {},
+          { expected: this.currency, received: other.currency },
+        ),
+      ])
+    }
+  }
+
+  // -------------------------------------------------------------------------------------------------------------------
+
+  /**
+   * Construtor para criação de instâncias de Money.
+   * Valida o valor e lança um erro se for inválido.
+   * @param amount - Valor em reais (ou na moeda informada), como `R$ 1.234,56`, `1.234,56`,
+   * `1234.56` ou o número `1234.56`.
+   * @param options - Opções de validação, como a moeda e o idioma das mensagens de erro.
+   * @throws {ValidationError} Se o valor ou a moeda forem inválidos.
+   */
+  public constructor(amount: string | number, options: MoneyOptions = {}) {
+    const currency = (options.currency ?? 'BRL').trim().toUpperCase()
+    const cleanAmount = Money.clean(amount, currency)
+    const result = Money.schema.safeParse({ amount: cleanAmount, currency })
+
+    if (!result.success) {
+      throw ValidationError.fromZodError(result.error, String(amount), options.locale)
+    }
+
+    this.value = Money.toCents(cleanAmount)
+    this.currency = currency
+  }
+
+  /**
+   * Retorna o valor formatado em pt-BR, como em `R$ 1.234,56` ou `-R$ 0,50`.
+   * @returns {string} Valor formatado.
+   */
+  public get formatted(): string {
+    const absolute = Math.abs(this.value)
+    const integer = String(Math.floor(absolute / 100)).replace(/\B(?=(\d{3})+(?!\d))/g, '.')
+    const fraction = String(absolute % 100).padStart(2, '0')
+    const symbol = currencySymbols[this.currency] ?? this.currency
+    return `${this.value < 0 ? '-' : ''}${symbol} ${integer},${fraction}`
+  }
+
+  /**
+   * Retorna o valor como número decimal com ponto e 2 casas, como em `1234.56`.
+   * Indicado para exportações e integrações que esperam o valor em texto.
+   * @returns {string} Valor decimal.
+   */
+  public get decimal(): string {
+    const absolute = Math.abs(this.value)
+    const fraction = String(absolute % 100).padStart(2, '0')
+    return `${this.value < 0 ? '-' : ''}${Math.floor(absolute / 100)}.${fraction}`
+  }
+
+  /**
+   * Retorna o valor em centavos.
+   * @returns {number} Valor inteiro em centavos.
+   */
+  public get cents(): number {
+    return this.value
+  }
+
+  /**
+   * Indica se o valor é zero.
+   * @returns {boolean} true se o valor for zero.
+   */
+  public get isZero(): boolean {
+    return this.value === 0
+  }
+
+  /**
+   * Indica se o valor é negativo.
+   * @returns {boolean} true se o valor for negativo.
+   */
+  public get isNegative(): boolean {
+    return this.value < 0
+  }
+
+  /**
+   * Soma outro valor na mesma moeda.
+   * @param other - Valor a ser somado.
+   * @returns {Money} Nova instância com a soma.
+   * @throws {ValidationError} Se as moedas forem diferentes.
+   * @throws {RangeError} Se o resultado exceder o intervalo suportado.
+   */
+  public add(other: Money): Money {
+    this.assertSameCurrency(other)
+    return Money.fromCents(this.value + other.value, this.currency)
+  }
+
+  /**
+   * Subtrai outro valor na mesma moeda.
+   * @param other - Valor a ser subtraído.
+   * @returns {Money} Nova instância com a diferença.
+   * @throws {ValidationError} Se as moedas forem diferentes.
+   * @throws {RangeError} Se o resultado exceder o intervalo suportado.
+   */
+  public subtract(other: Money): Money {
+    this.assertSameCurrency(other)
+    return Money.fromCents(this.value - other.value, this.currency)
+  }
+
+  /**
+   * Multiplica o valor por um fator, arredondando o resultado para centavos.
+   * O fator é tratado como decimal exato: `multiply('1.1')` e `multiply(1.1)` têm o mesmo resultado.
+   * @param factor - Fator de multiplicação, como `1.5` ou `'0.075'`.
+   * @param rounding - Modo de arredondamento. Padrão: `RoundingMode.HALF_UP`.
+   * @returns {Money} Nova instância com o produto.
+   * @throws {RangeError} Se o fator for inválido ou o resultado exceder o intervalo suportado.
+   */
+  public multiply(factor: number | string, rounding: RoundingMode = RoundingMode.HALF_UP): Money {
+    const match = /^(-?)(\d+)(?:\.(\d+))?$/.exec(String(factor).trim())
+    if (!match) {
+      throw new RangeError('Fator de multiplicação inválido')
+    }
+
+    const fraction = match[3] ?? ''
+    const scale = 10 ** fraction.length
+    const product = this.value * Number(`${match[1]}${match[2]}${fraction}`)
+    if (!Number.isSafeInteger(product) || !Number.isSafeInteger(scale)) {
+      throw new RangeError('O resultado excede o intervalo suportado')
+    }
+
+    return Money.fromCents(divideAndRound(product, scale, rounding), this.currency)
+  }
+
+  /**
+   * Divide o valor proporcionalmente, sem perder centavos: a soma das parcelas é sempre igual ao
+   * valor original. Os centavos restantes vão para as parcelas com as maiores frações e, em caso de
+   * empate, para as primeiras parcelas.
+   * @param ratios - Proporções de cada parcela, como `[1, 1, 1]` ou `[70, 30]`.
+   * @returns {Money[]} Parcelas, na ordem das proporções.
+   * @throws {RangeError} Se não houver proporções, se alguma for negativa ou se todas forem zero.
+   */
+  public allocate(ratios: readonly number[]): Money[] {
+    const total = ratios.reduce((sum, ratio) => sum + ratio, 0)
+    if (ratios.some((ratio) => !Number.isFinite(ratio) || ratio < 0) || !(total > 0)) {
+      throw new RangeError('As proporções devem ser números não negativos com soma positiva')
+    }
+
+    const absolute = Math.abs(this.value)
+    const exact = ratios.map((ratio) => (absolute * ratio) / total)
+    const shares = exact.map((share) => Math.floor(share))
+    let remainder = absolute - shares.reduce((sum, share) => sum + share, 0)
+
+    const order = shares
+      .map((_, index) => index)
+      .sort((a, b) => exact[b] - shares[b] - (exact[a] - shares[a]) || a - b)
+    for (const index of order) {
+      if (remainder <= 0) {
+        break
+      }
+      shares[index]++
+      remainder--
+    }
+
+    const sign = this.value < 0 ? -1 : 1
+    return shares.map((share) => Money.fromCents(sign * share, this.currency))
+  }
+
+  /**
+   * Compara o valor com outro na mesma moeda.
+   * @param other - Valor a ser comparado.
+   * @returns {number} Negativo se este valor for menor, positivo se for maior e 0 se forem iguais.
+   * @throws {ValidationError} Se as moedas forem diferentes.
+   */
+  public compare(other: Money): number {
+    this.assertSameCurrency(other)
+    return Math.sign(this.value - other.value)
+  }
+
+  /**
+   * Verifica se dois valores são iguais, na mesma moeda.
+   * @param other - Valor a ser comparado.
+   * @returns {boolean} true se os valores e as moedas forem iguais.
+   */
+  public equals(other: Money | null | undefined): boolean {
+    return other instanceof Money && other.currency === this.currency && other.value === this.value
+  }
+
+  /**
+   * Cria um valor a partir da quantidade de centavos.
+   * @param cents - Valor inteiro em centavos.
+   * @param currency - Código ISO 4217 da moeda. Padrão: `BRL`.
+   * @returns {Money} Instância criada.
+   * @throws {RangeError} Se o valor não for um inteiro seguro.
+   * @throws {ValidationError} Se a moeda for inválida.
+   */
+  public static fromCents(cents: number, currency = 'BRL'): Money {
+    if (!Number.isSafeInteger(cents)) {
+      throw new RangeError('O valor deve ser um número inteiro de centavos')
+    }
+
+    const absolute = Math.abs(cents)
+    const fraction = String(absolute % 100).padStart(2, '0')
+    return new Money(`${cents < 0 ? '-' : ''}${Math.floor(absolute / 100)}.${fraction}`, {
+      currency,
+    })
+  }
+
+  /**
+   * Cria um valor zerado.
+   * @param currency - Código ISO 4217 da moeda. Padrão: `BRL`.
+   * @returns {Money} Instância com valor zero.
+   */
+  public static zero(currency = 'BRL'): Money {
+    return Money.fromCents(0, currency)
+  }
+
+  /**
+   * Verifica se um valor representa uma quantia monetária válida.
+   * @param amount - Valor a ser validado.
+   * @param options - Opções de validação, como a moeda.
+   * @returns {boolean} true se o valor for válido, false caso contrário.
+   */
+  public static isValid(amount: string | number, options: MoneyOptions = {}): boolean {
+    try {
+      const currency = (options.currency ?? 'BRL').trim().toUpperCase()
+      return Money.schema.safeParse({ amount: Money.clean(amount, currency), currency }).success
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Cria uma instância de Money sem lançar exceções.
+   * @param amount - Valor em reais (ou na moeda informada).
+   * @param options - Opções de validação, como a moeda e o idioma das mensagens de erro.
+   * @returns {ValidationResult<Money>} Instância criada ou lista de erros encontrados.
+   */
+  public static parse(
+    amount: string | number,
+    options: MoneyOptions = {},
+  ): ValidationResult<Money> {
+    return toValidationResult(() => new Money(amount, options))
+  }
+}
@@ -0,0 +1,295 @@
+import { z } from 'zod'
+
+import { toValidationResult, ValidationError } from '../errors'
+import { PhoneType, UF, ValidationErrorCode, ValidationOptions, ValidationResult } from '../types'
+
+/**
+ * Estado de cada DDD (código de área) em uso no Brasil, conforme o plano de numeração da Anatel.
+ */
+export const phoneAreaCodes: Readonly<Record<string, UF>> = {
+  11: UF.SP,
+  12: UF.SP,
+  13: UF.SP,
+  14: UF.SP,
+  15: UF.SP,
+  16: UF.SP,
+  17: UF.SP,
+  18: UF.SP,
+  19: UF.SP,
+  21: UF.RJ,
+  22: UF.RJ,
+  24: UF.RJ,
+  27: UF.ES,
+  28: UF.ES,
+  31: UF.MG,
+  32: UF.MG,
+  33: UF.MG,
+  34: UF.MG,
+  35: UF.MG,
+  37: UF.MG,
+  38: UF.MG,
+  41: UF.PR,
+  42: UF.PR,
+  43: UF.PR,
+  44: UF.PR,
+  45: UF.PR,
+  46: UF.PR,
+  47: UF.SC,
+  48: UF.SC,
+  49: UF.SC,
+  51: UF.RS,
+  53: UF.RS,
+  54: UF.RS,
+  55: UF.RS,
+  61: UF.DF,
+  62: UF.GO,
+  63: UF.TO,
+  64: UF.GO,
+  65: UF.MT,
+  66: UF.MT,
+  67: UF.MS,
+  68: UF.AC,
+  69: UF.RO,
+  71: UF.BA,
+  73: UF.BA,
+  74: UF.BA,
+  75: UF.BA,
+  77: UF.BA,
+  79: UF.SE,
+  81: UF.PE,
+  82: UF.AL,
+  83: UF.PB,
+  84: UF.RN,
+  85: UF.CE,
+  86: UF.PI,
+  87: UF.PE,
+  88: UF.CE,
+  89: UF.PI,
+  91: UF.PA,
+  92: UF.AM,
+  93: UF.PA,
+  94: UF.PA,
+  95: UF.RR,
+  96: UF.AP,
+  97: UF.AM,
+  98: UF.MA,
+  99: UF.MA,
+}
+
+/**
+ * Classe que representa um número de telefone brasileiro.
+ * Encapsula a validação, formatação e manipulação segura de telefones fixos, celulares e
+ * números de serviço (0800, 0300 e números únicos nacionais, como 4004).
+ */
+export class Phone {
+  /**
+   * Valor interno do telefone, armazenado apenas com dígitos, sem o código do país.
+   * @private
+   */
+  private readonly value: string
+
+  /**
+   * Remove a formatação, o código do país (+55) e o prefixo de longa distância (0) do telefone.
+   * @param phone - Telefone informado, com ou sem formatação.
+   * @returns {string} Telefone apenas com dígitos.
+   * @private
+   * @static
+   */
+  private static clean(phone: string): string {
+    let digits = phone.replace(/\D/g, '')
+
+    if ((digits.length === 12 || digits.length === 13) && digits.startsWith('55')) {
+      digits = digits.slice(2)
+    }
+
+    // O prefixo 0 antes do DDD não faz parte do número, exceto em 0800 e 0300
+    if (/^0[1-9]\d{9,10}$/.test(digits) && !/^0[38]00/.test(digits)) {
+      digits = digits.slice(1)
+    }
+
+    return digits
+  }
+
+  /**
+   * Identifica os números de serviço, que não têm DDD.
+   * @param phone - Telefone apenas com dígitos.
+   * @returns {PhoneType | undefined} Tipo do número de serviço ou undefined se não for um.
+   * @private
+   * @static
+   */
+  private static serviceType(phone: string): PhoneType | undefined {
+    if (/^0800\d{7}$/.test(phone)) {
+      return PhoneType.TOLL_FREE
+    }
+
+    if (/^0300\d{7}$/.test(phone)) {
+      return PhoneType.SHARED_COST
+    }
+
+    if (/^(3003|4003|4004|4020|4062)\d{4}$/.test(phone)) {
+      return PhoneType.NATIONAL
+    }
+
+    return undefined
+  }
+
+  /**
+   * Identifica o primeiro problema encontrado no telefone.
+   * @param phone - Telefone apenas com dígitos.
+   * @returns {ValidationErrorCode | undefined} Código do erro ou undefined se o telefone for válido.
+   * @private
+   * @static
+   */
+  private static check(phone: string): ValidationErrorCode | undefined {
+    if (Phone.serviceType(phone)) {
+      return undefined
+    }
+
+    if (!/^\d{10,11}$/.test(phone)) {
+      return ValidationErrorCode.PHONE_INVALID_FORMAT
+    }
+
+    if (!(phone.slice(0, 2) in phoneAreaCodes)) {
+      return ValidationErrorCode.PHONE_INVALID_DDD
+    }
+
+    const number = phone.slice(2)
+
+    // Celulares têm 9 dígitos e começam com 9; números de 8 dígitos iniciados por 6 a 9 são
+    // celulares no formato antigo, sem o nono dígito
+    if (number.length === 9 ? !number.startsWith('9') : /^[6-9]/.test(number)) {
+      return ValidationErrorCode.PHONE_MOBILE_NINTH_DIGIT
+    }
+
+    // Telefones fixos têm 8 dígitos e começam com 2 a 5
+    if (number.length === 8 && !/^[2-5]/.test(number)) {
+      return ValidationErrorCode.PHONE_INVALID_FORMAT
+    }
+
+    return undefined
+  }
+
+  /**
+   * Valida o formato do telefone, o DDD e a regra do nono dígito dos celulares.
+   * @private
+   * @static
+   */
+  private static readonly schema = z.string().superRefine((phone, ctx) => {
+    const code = Phone.check(phone)
+
+    if (code) {
+      ctx.addIssue(
+        ValidationError.toZodIssue(
+          code,
+          code === ValidationErrorCode.PHONE_INVALID_DDD ? { ddd: phone.slice(0, 2) } : {},
+        ),
+      )
+    }
+  })
+
+  // -------------------------------------------------------------------------------------------------------------------
+
+  /**
+   * Construtor para criação de instâncias de telefone.
+   * Valida o telefone e lança um erro se for inválido.
+   * @param phone - String contendo o telefone, pode incluir formatação, o código do país (+55) e
+   * o prefixo de longa distância (0), que serão removidos.
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @throws {ValidationError} Se o telefone for inválido.
+   */
+  public constructor(phone: string, options: ValidationOptions = {}) {
+    const cleanPhone = Phone.clean(phone)
+    const result = Phone.schema.safeParse(cleanPhone)
+
+    if (!result.success) {
+      throw ValidationError.fromZodError(result.error, phone, options.locale)
+    }
+
+    this.value = cleanPhone
+  }
+
+  /**
+   * Retorna o valor bruto do telefone (apenas dígitos, com o DDD e sem o código do país).
+   * @returns {string} Telefone sem formatação.
+   */
+  public get raw(): string {
+    return this.value
+  }
+
+  /**
+   * Retorna o telefone no formato padrão brasileiro: (11) 98765-4321, (11) 3456-7890,
+   * 0800 123 4567 ou 4004-0001.
+   * @returns {string} Telefone formatado.
+   */
+  public get formatted(): string {
+    switch (this.type) {
+      case PhoneType.TOLL_FREE:
+      case PhoneType.SHARED_COST:
+        return this.value.replace(/(\d{4})(\d{3})(\d{4})/, '$1 $2 $3')
+      case PhoneType.NATIONAL:
+        return this.value.replace(/(\d{4})(\d{4})/, '$1-$2')
+      default:
+        return this.value.replace(/(\d{2})(\d{4,5})(\d{4})/, '($1) $2-$3')
+    }
+  }
+
+  /**
+   * Retorna o telefone no formato internacional E.164: +5511987654321.
+   * Nos números 0800 e 0300, o prefixo 0 é removido: +558001234567.
+   * @returns {string} Telefone no formato E.164.
+   */
+  public get e164(): string {
+    return `+55${this.value.replace(/^0/, '')}`
+  }
+
+  /**
+   * Retorna o DDD (código de área) do telefone.
+   * @returns {string | undefined} DDD ou undefined para números de serviço.
+   */
+  public get ddd(): string | undefined {
+    return Phone.serviceType(this.value) ? undefined : this.value.slice(0, 2)
+  }
+
+  /**
+   * Retorna o estado correspondente ao DDD do telefone.
+   * @returns {UF | undefined} Estado ou undefined para números de serviço.
+   */
+  public get uf(): UF | undefined {
+    const ddd = this.ddd
+    return ddd === undefined ? undefined : phoneAreaCodes[ddd]
+  }
+
+  /**
+   * Retorna o tipo do telefone: fixo, celular, 0800, 0300 ou número único nacional.
+   * @returns {PhoneType} Tipo do telefone.
+   */
+  public get type(): PhoneType {
+    return (
+      Phone.serviceType(this.value) ??
+      (this.value.length === 11 ? PhoneType.MOBILE : PhoneType.LANDLINE)
+    )
+  }
+
+  /**
+   * Verifica se uma string representa um telefone válido.
+   * @param phone - String a ser validada.
+   * @returns {boolean} true se a string for um telefone válido, false caso contrário.
+   */
+  public static isValid(phone: string): boolean {
+    try {
+      return Phone.schema.safeParse(Phone.clean(phone)).success
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Cria uma instância de telefone sem lançar exceções.
+   * @param phone - String contendo o telefone, pode incluir formatação.
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @returns {ValidationResult<Phone>} Instância criada ou lista de erros encontrados.
+   */
+  public static parse(phone: string, options: ValidationOptions = {}): ValidationResult<Phone> {
+    return toValidationResult(() => new Phone(phone, options))
+  }
+}
@@ -0,0 +1,134 @@
+import { z } from 'zod'
+
+import { toValidationResult, ValidationError } from '../errors'
+import { ValidationErrorCode, ValidationOptions, ValidationResult } from '../types'
+
+/**
+ * Classe que representa um número PIS/PASEP/NIT, identificador do trabalhador na folha de
+ * pagamento e na Previdência Social.
+ * Encapsula a validação, formatação e manipulação segura do número.
+ */
+export class PIS {
+  /**
+   * Valor interno do PIS, armazenado apenas com dígitos numéricos.
+   * @private
+   */
+  private readonly value: string
+
+  /**
+   * Pesos aplicados aos 10 primeiros dígitos no cálculo do dígito verificador.
+   * @private
+   * @static
+   */
+  private static readonly weights = [3, 2, 9, 8, 7, 6, 5, 4, 3, 2]
+
+  /**
+   * Calcula o dígito verificador (módulo 11) a partir dos 10 primeiros dígitos.
+   * @param base - String contendo os 10 dígitos base.
+   * @returns {string} O dígito verificador.
+   * @private
+   * @static
+   */
+  private static computeCheckDigit(base: string): string {
+    const sum = PIS.weights.reduce((total, weight, i) => total + parseInt(base[i], 10) * weight, 0)
+    const remainder = sum % 11
+
+    // Restos 0 e 1 resultam no dígito 0
+    return String(remainder < 2 ? 0 : 11 - remainder)
+  }
+
+  /**
+   * Identifica o primeiro problema encontrado no PIS.
+   * @param pis - String contendo o PIS (apenas dígitos).
+   * @returns {ValidationErrorCode | undefined} Código do erro ou undefined se o PIS for válido.
+   * @private
+   * @static
+   */
+  private static check(pis: string): ValidationErrorCode | undefined {
+    if (!/^\d{11}$/.test(pis)) {
+      return ValidationErrorCode.PIS_WRONG_LENGTH
+    }
+
+    if (/^(\d)\1{10}$/.test(pis)) {
+      return ValidationErrorCode.PIS_REPEATED_DIGITS
+    }
+
+    if (PIS.computeCheckDigit(pis.slice(0, 10)) !== pis[10]) {
+      return ValidationErrorCode.PIS_CHECK_DIGIT
+    }
+
+    return undefined
+  }
+
+  /**
+   * Valida se o PIS tem exatamente 11 dígitos numéricos e se o dígito verificador é válido.
+   * @private
+   * @static
+   */
+  private static readonly schema = z.string().superRefine((pis, ctx) => {
+    const code = PIS.check(pis)
+
+    if (code) {
+      ctx.addIssue(ValidationError.toZodIssue(code))
+    }
+  })
+
+  // -------------------------------------------------------------------------------------------------------------------
+
+  /**
+   * Construtor para criação de instâncias de PIS.
+   * Valida o PIS e lança um erro se for inválido.
+   * @param pis - String contendo o PIS, pode incluir pontuação (que será removida).
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @throws {ValidationError} Se o PIS for inválido.
+   */
+  public constructor(pis: string, options: ValidationOptions = {}) {
+    const cleanPis = pis.replace(/\D/g, '')
+    const result = PIS.schema.safeParse(cleanPis)
+
+    if (!result.success) {
+      throw ValidationError.fromZodError(result.error, pis, options.locale)
+    }
+
+    this.value = cleanPis
+  }
+
+  /**
+   * Retorna o PIS no formato padrão: XXX.XXXXX.XX-X.
+   * @returns {string} PIS formatado.
+   */
+  public get formatted(): string {
+    return this.value.replace(/(\d{3})(\d{5})(\d{2})(\d)/, '$1.$2.$3-$4')
+  }
+
+  /**
+   * Retorna o valor bruto do PIS (apenas dígitos).
+   * @returns {string} PIS sem formatação.
+   */
+  public get raw(): string {
+    return this.value
+  }
+
+  /**
+   * Verifica se uma string representa um PIS válido.
+   * @param pis - String a ser validada.
+   * @returns {boolean} true se a string for um PIS válido, false caso contrário.
+   */
+  public static isValid(pis: string): boolean {
+    try {
+      return PIS.schema.safeParse(pis.replace(/\D/g, '')).success
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Cria uma instância de PIS sem lançar exceções.
+   * @param pis - String contendo o PIS, pode incluir pontuação (que será removida).
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @returns {ValidationResult<PIS>} Instância criada ou lista de erros encontrados.
+   */
+  public static parse(pis: string, options: ValidationOptions = {}): ValidationResult<PIS> {
+    return toValidationResult(() => new PIS(pis, options))
+  }
+}
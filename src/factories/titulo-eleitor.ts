@@ -0,0 +1,214 @@
+import { z } from 'zod'
+
+import { toValidationResult, ValidationError } from '../errors'
+import { UF, ValidationErrorCode, ValidationOptions, ValidationResult } from '../types'
+
+/**
+ * Estado correspondente a cada código de UF do título de eleitor (9º e 10º dígitos).
+ * O código 28 identifica eleitores inscritos no exterior.
+ */
+export const tituloEleitorUfCodes: Readonly<Record<string, UF>> = {
+  '01': UF.SP,
+  '02': UF.MG,
+  '03': UF.RJ,
+  '04': UF.RS,
+  '05': UF.BA,
+  '06': UF.PR,
+  '07': UF.CE,
+  '08': UF.PE,
+  '09': UF.SC,
+  '10': UF.GO,
+  '11': UF.MA,
+  '12': UF.PB,
+  '13': UF.PA,
+  '14': UF.ES,
+  '15': UF.PI,
+  '16': UF.RN,
+  '17': UF.AL,
+  '18': UF.MT,
+  '19': UF.MS,
+  '20': UF.DF,
+  '21': UF.SE,
+  '22': UF.AM,
+  '23': UF.RO,
+  '24': UF.AC,
+  '25': UF.AP,
+  '26': UF.RR,
+  '27': UF.TO,
+}
+
+/**
+ * Código de UF dos títulos de eleitores inscritos no exterior.
+ */
+const abroadCode = '28'
+
+/**
+ * Classe que representa um título de eleitor brasileiro.
+ * Encapsula a validação do código de UF e dos dígitos verificadores e a formatação do número.
+ */
+export class TituloEleitor {
+  /**
+   * Valor interno do título, armazenado apenas com dígitos numéricos.
+   * @private
+   */
+  private readonly value: string
+
+  /**
+   * Converte o resto da divisão por 11 em dígito verificador.
+   * Em São Paulo e Minas Gerais, o resto 0 resulta no dígito 1.
+   * @param remainder - Resto da divisão por 11.
+   * @param ufCode - Código de UF do título.
+   * @returns {number} Dígito verificador.
+   * @private
+   * @static
+   */
+  private static toCheckDigit(remainder: number, ufCode: string): number {
+    if (remainder === 10) {
+      return 0
+    }
+
+    return remainder === 0 && ['01', '02'].includes(ufCode) ? 1 : remainder
+  }
+
+  /**
+   * Calcula os dígitos verificadores a partir do número sequencial e do código de UF.
+   * @param title - String contendo os 10 primeiros dígitos do título.
+   * @returns {string} Os 2 dígitos verificadores.
+   * @private
+   * @static
+   */
+  private static computeCheckDigits(title: string): string {
+    const digits = title.split('').map((digit) => parseInt(digit, 10))
+    const ufCode = title.slice(8, 10)
+
+    // O primeiro dígito considera os 8 dígitos sequenciais, com pesos de 2 a 9
+    let sum = 0
+    for (let i = 0; i < 8; i++) {
+      sum += digits[i] * (i + 2)
+    }
+    const first = TituloEleitor.toCheckDigit(sum % 11, ufCode)
+
+    // O segundo dígito considera o código de UF e o primeiro dígito, com pesos 7, 8 e 9
+    const second = TituloEleitor.toCheckDigit(
+      (digits[8] * 7 + digits[9] * 8 + first * 9) % 11,
+      ufCode,
+    )
+
+    return `${first}${second}`
+  }
+
+  /**
+   * Identifica o primeiro problema encontrado no título.
+   * @param title - String contendo o título (apenas dígitos).
+   * @returns {ValidationErrorCode | undefined} Código do erro ou undefined se o título for válido.
+   * @private
+   * @static
+   */
+  private static check(title: string): ValidationErrorCode | undefined {
+    if (!/^\d{12}$/.test(title)) {
+      return ValidationErrorCode.TITULO_ELEITOR_WRONG_LENGTH
+    }
+
+    const ufCode = title.slice(8, 10)
+    if (!(ufCode in tituloEleitorUfCodes) && ufCode !== abroadCode) {
+      return ValidationErrorCode.TITULO_ELEITOR_INVALID_UF
+    }
+
+    if (TituloEleitor.computeCheckDigits(title.slice(0, 10)) !== title.slice(10)) {
+      return ValidationErrorCode.TITULO_ELEITOR_CHECK_DIGIT
+    }
+
+    return undefined
+  }
+
+  /**
+   * Valida se o título tem 12 dígitos, um código de UF existente e dígitos verificadores válidos.
+   * @private
+   * @static
+   */
+  private static readonly schema = z.string().superRefine((title, ctx) => {
+    const code = TituloEleitor.check(title)
+
+    if (code) {
+      ctx.addIssue(ValidationError.toZodIssue(code))
+    }
+  })
+
+  // -------------------------------------------------------------------------------------------------------------------
+
+  /**
+   * Construtor para criação de instâncias de título de eleitor.
+   * Valida o título e lança um erro se for inválido.
+   * @param title - String contendo o título, pode incluir espaços e pontuação (que serão removidos).
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @throws {ValidationError} Se o título for inválido.
+   */
+  public constructor(title: string, options: ValidationOptions = {}) {
+    const cleanTitle = title.replace(/\D/g, '')
+    const result = TituloEleitor.schema.safeParse(cleanTitle)
+
+    if (!result.success) {
+      throw ValidationError.fromZodError(result.error, title, options.locale)
+    }
+
+    this.value = cleanTitle
+  }
+
+  /**
+   * Retorna o título no formato impresso: XXXX XXXX XXXX.
+   * @returns {string} Título formatado.
+   */
+  public get formatted(): string {
+    return this.value.replace(/(\d{4})(\d{4})(\d{4})/, '$1 $2 $3')
+  }
+
+  /**
+   * Retorna o valor bruto do título (apenas dígitos).
+   * @returns {string} Título sem formatação.
+   */
+  public get raw(): string {
+    return this.value
+  }
+
+  /**
+   * Retorna o estado de inscrição do eleitor, identificado pelo código de UF.
+   * @returns {UF | undefined} Estado ou undefined para eleitores inscritos no exterior.
+   */
+  public get uf(): UF | undefined {
+    return tituloEleitorUfCodes[this.value.slice(8, 10)]
+  }
+
+  /**
+   * Indica se o eleitor está inscrito no exterior (código de UF 28).
+   * @returns {boolean} true se a inscrição for no exterior.
+   */
+  public get isAbroad(): boolean {
+    return this.value.slice(8, 10) === abroadCode
+  }
+
+  /**
+   * Verifica se uma string representa um título de eleitor válido.
+   * @param title - String a ser validada.
+   * @returns {boolean} true se a string for um título válido, false caso contrário.
+   */
+  public static isValid(title: string): boolean {
+    try {
+      return TituloEleitor.schema.safeParse(title.replace(/\D/g, '')).success
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Cria uma instância de título de eleitor sem lançar exceções.
+   * @param title - String contendo o título, pode incluir espaços e pontuação.
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @returns {ValidationResult<TituloEleitor>} Instância criada ou lista de erros encontrados.
+   */
+  public static parse(
+    title: string,
+    options: ValidationOptions = {},
+  ): ValidationResult<TituloEleitor> {
+    return toValidationResult(() => new TituloEleitor(title, options))
+  }
+}
@@ -0,0 +1,339 @@
+import { Employee } from '../entities'
+import { CPF, Email, FullName } from '../factories'
+import { EmployeeStatus, ValidationErrorCode } from '../types'
+import { SeededRandom } from './seeded-random'
+
+/**
+ * Tipos de CPF inválido que podem ser gerados, identificados pelo código de erro esperado.
+ */
+export type InvalidCpfKind =
+  | ValidationErrorCode.CPF_WRONG_LENGTH
+  | ValidationErrorCode.CPF_REPEATED_DIGITS
+  | ValidationErrorCode.CPF_CHECK_DIGIT
+
+/**
+ * Opções de geração de CPF.
+ */
+export interface FakeCpfOptions {
+  /** Região fiscal (0 a 9), representada pelo nono dígito do CPF. */
+  fiscalRegion?: number
+}
+
+/**
+ * Opções de geração de funcionários.
+ */
+export interface FakeEmployeeOptions {
+  /** Domínio dos emails gerados. */
+  domain?: string
+  /** Peso de cada status no sorteio. Quando omitido, usa `defaultStatusWeights`. */
+  statusWeights?: Partial<Record<EmployeeStatus, number>>
+  /**
+   * Data de referência: as datas de criação ficam nos cinco anos anteriores a ela.
+   * Quando omitida, usa uma data fixa para manter a geração reproduzível.
+   */
+  referenceDate?: Date
+}
+
+/**
+ * Pesos padrão do sorteio de status: a maior parte dos funcionários em situação normal.
+ */
+export const defaultStatusWeights: Readonly<Record<EmployeeStatus, number>> = {
+  [EmployeeStatus.NORMAL]: 80,
+  [EmployeeStatus.VACATION]: 8,
+  [EmployeeStatus.LEAVE]: 4,
+  [EmployeeStatus.TRANSFERRED]: 3,
+  [EmployeeStatus.DISMISSED]: 5,
+}
+
+/**
+ * Domínio padrão dos emails gerados.
+ */
+const defaultDomain = 'exemplo.com.br'
+
+/**
+ * Data de referência padrão das datas geradas.
+ */
+const defaultReferenceDate = new Date('2025-01-01T00:00:00.000Z')
+
+/**
+ * Intervalo máximo entre a data de criação e a data de referência (cinco anos).
+ */
+const maxAgeMs = 5 * 365 * 24 * 60 * 60 * 1000
+
+/**
+ * Prenomes mais comuns no Brasil.
+ */
+const givenNames: readonly string[] = [
+  'Ana',
+  'Antônio',
+  'Beatriz',
+  'Bruno',
+  'Caio',
+  'Camila',
+  'Carlos',
+  'Cecília',
+  'Fernanda',
+  'Felipe',
+  'Francisco',
+  'Gabriel',
+  'Gustavo',
+  'Heitor',
+  'Helena',
+  'Igor',
+  'João',
+  'José',
+  'Júlia',
+  'Juliana',
+  'Larissa',
+  'Letícia',
+  'Luana',
+  'Lucas',
+  'Luíza',
+  'Luiz',
+  'Marcos',
+  'Maria',
+  'Mariana',
+  'Mateus',
+  'Otávio',
+  'Patrícia',
+  'Paulo',
+  'Pedro',
+  'Rafael',
+  'Sofia',
+  'Thiago',
+  'Vinícius',
+  'Vitória',
+]
+
+/**
+ * Sobrenomes mais comuns no Brasil, com a partícula que costuma acompanhá-los.
+ */
+const surnames: readonly (readonly [string, string?])[] = [
+  ['Silva', 'da'],
+  ['Santos', 'dos'],
+  ['Oliveira', 'de'],
+  ['Souza', 'de'],
+  ['Costa', 'da'],
+  ['Rocha', 'da'],
+  ['Lima', 'de'],
+  ['Conceição', 'da'],
+  ['Jesus', 'de'],
+  ['Nascimento', 'do'],
+  ['Neves', 'das'],
+  ['Araújo', 'de'],
+  ['Carvalho', 'de'],
+  ['Almeida', 'de'],
+  ['Andrade', 'de'],
+  ['Freitas', 'de'],
+  ['Alves'],
+  ['Barbosa'],
+  ['Cardoso'],
+  ['Dias'],
+  ['Fernandes'],
+  ['Ferreira'],
+  ['Gomes'],
+  ['Gonçalves'],
+  ['Lopes'],
+  ['Machado'],
+  ['Marques'],
+  ['Martins'],
+  ['Mendes'],
+  ['Moreira'],
+  ['Nunes'],
+  ['Pereira'],
+  ['Ramos'],
+  ['Ribeiro'],
+  ['Rodrigues'],
+  ['Soares'],
+  ['Teixeira'],
+  ['Vieira'],
+]
+
+/**
+ * Converte um texto em uma parte válida de endereço de email, sem acentos nem espaços.
+ * @param text - Texto a ser convertido.
+ * @returns {string} Texto em minúsculas contendo apenas letras e dígitos.
+ */
+function toEmailPart(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '')
+}
+
+/**
+ * Gerador determinístico de dados fictícios para testes e scripts de carga.
+ * Todos os valores válidos passam pelas validações dos objetos de valor, e a mesma semente
+ * produz sempre a mesma sequência de valores.
+ */
+export class FakeDataGenerator {
+  /**
+   * Fonte de números pseudoaleatórios.
+   * @private
+   */
+  private readonly random: SeededRandom
+
+  /**
+   * Construtor do gerador.
+   * @param seed - Semente numérica ou textual.
+   */
+  public constructor(seed: number | string) {
+    this.random = new SeededRandom(seed)
+  }
+
+  /**
+   * Sorteia os nove primeiros dígitos de um CPF, evitando sequências de dígitos iguais.
+   * @param fiscalRegion - Região fiscal desejada.
+   * @returns {string} Nove dígitos base.
+   * @throws {RangeError} Se a região fiscal não estiver entre 0 e 9.
+   * @private
+   */
+  private cpfBase(fiscalRegion?: number): string {
+    if (
+      fiscalRegion !== undefined &&
+      !(Number.isInteger(fiscalRegion) && fiscalRegion >= 0 && fiscalRegion <= 9)
+    ) {
+      throw new RangeError(`Região fiscal inválida: ${fiscalRegion}`)
+    }
+
+    let base: string
+    do {
+      base = this.random.digits(8) + (fiscalRegion ?? this.random.integer(0, 9))
+    } while (/^(\d)\1{8}$/.test(base))
+
+    return base
+  }
+
+  // -------------------------------------------------------------------------------------------------------------------
+
+  /**
+   * Gera um CPF válido.
+   * @param options - Região fiscal desejada.
+   * @returns {CPF} CPF com dígitos verificadores corretos.
+   * @throws {RangeError} Se a região fiscal não estiver entre 0 e 9.
+   */
+  public cpf(options: FakeCpfOptions = {}): CPF {
+    const base = this.cpfBase(options.fiscalRegion)
+    return CPF.fromBaseDigits(base)
+  }
+
+  /**
+   * Gera um CPF inválido, apenas com dígitos, para testes de validação.
+   * @param kind - Código do erro que o CPF deve provocar.
+   * @returns {string} CPF que falha com o código informado.
+   */
+  public invalidCpf(kind: InvalidCpfKind = ValidationErrorCode.CPF_CHECK_DIGIT): string {
+    switch (kind) {
+      case ValidationErrorCode.CPF_WRONG_LENGTH:
+        return this.random.digits(this.random.pick([9, 10, 12]))
+      case ValidationErrorCode.CPF_REPEATED_DIGITS:
+        return String(this.random.integer(0, 9)).repeat(11)
+      default: {
+        // Troca o último dígito verificador por qualquer outro dígito
+        const base = this.cpfBase()
+        const checkDigits = CPF.checkDigits(base)
+        const wrong = (parseInt(checkDigits[1], 10) + this.random.integer(1, 9)) % 10
+        return base + checkDigits[0] + wrong
+      }
+    }
+  }
+
+  /**
+   * Gera um nome completo brasileiro, com um ou dois prenomes e um ou dois sobrenomes,
+   * eventualmente acompanhados de partículas como "da" e "dos".
+   * @returns {FullName} Nome completo válido.
+   */
+  public fullName(): FullName {
+    const words = [this.random.pick(givenNames)]
+    if (this.random.boolean(0.3)) {
+      words.push(this.random.pick(givenNames.filter((name) => name !== words[0])))
+    }
+
+    const surnameCount = this.random.boolean(0.6) ? 2 : 1
+    for (let i = 0; i < surnameCount; i++) {
+      const [surname, particle] = this.random.pick(
+        surnames.filter(([candidate]) => !words.includes(candidate)),
+      )
+      if (particle && this.random.boolean(0.4)) {
+        words.push(particle)
+      }
+      words.push(surname)
+    }
+
+    return new FullName(words.join(' '))
+  }
+
+  /**
+   * Gera um email derivado de um nome, no formato "prenome.sobrenome@dominio".
+   * @param name - Nome de origem. Quando omitido, é gerado um nome.
+   * @param domain - Domínio do email.
+   * @returns {Email} Email válido, eventualmente com um número para diferenciar homônimos.
+   */
+  public email(name: FullName | string = this.fullName(), domain = defaultDomain): Email {
+    const fullName = name instanceof FullName ? name : new FullName(name)
+    const suffix = this.random.boolean(0.3) ? String(this.random.integer(1, 99)) : ''
+    const username = `${toEmailPart(fullName.getFirstName())}.${toEmailPart(fullName.getLastName())}`
+
+    return new Email(`${username}${suffix}@${domain}`)
+  }
+
+  /**
+   * Sorteia um status de funcionário.
+   * @param weights - Peso de cada status no sorteio.
+   * @returns {EmployeeStatus} Status sorteado.
+   */
+  public employeeStatus(
+    weights: Partial<Record<EmployeeStatus, number>> = defaultStatusWeights,
+  ): EmployeeStatus {
+    return this.random.weighted(weights)
+  }
+
+  /**
+   * Gera um UUID versão 4 determinístico.
+   * @returns {string} UUID no formato padrão.
+   */
+  public uuid(): string {
+    const hex = Array.from({ length: 32 }, () => this.random.integer(0, 15).toString(16))
+    hex[12] = '4'
+    hex[16] = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16)
+
+    const value = hex.join('')
+    return `${value.slice(0, 8)}-${value.slice(8, 12)}-${value.slice(12, 16)}-${value.slice(16, 20)}-${value.slice(20)}`
+  }
+
+  /**
+   * Gera um funcionário completo, com nome, CPF, email, status e datas de controle.
+   * @param options - Domínio dos emails, pesos dos status e data de referência.
+   * @returns {Employee} Funcionário válido.
+   */
+  public employee(options: FakeEmployeeOptions = {}): Employee {
+    const referenceDate = options.referenceDate ?? defaultReferenceDate
+    const name = this.fullName()
+    const createdAt = new Date(referenceDate.getTime() - Math.floor(this.random.next() * maxAgeMs))
+    const updatedAt = new Date(
+      createdAt.getTime() +
+        Math.floor(this.random.next() * (referenceDate.getTime() - createdAt.getTime())),
+    )
+
+    return Employee.create({
+      id: this.uuid(),
+      name,
+      cpf: this.cpf(),
+      email: this.email(name, options.domain),
+      status: this.employeeStatus(options.statusWeights),
+      createdAt,
+      updatedAt,
+    })
+  }
+
+  /**
+   * Gera uma lista de funcionários.
+   * @param count - Quantidade de funcionários.
+   * @param options - Domínio dos emails, pesos dos status e data de referência.
+   * @returns {Employee[]} Funcionários válidos.
+   */
+  public employees(count: number, options: FakeEmployeeOptions = {}): Employee[] {
+    return Array.from({ length: count }, () => this.employee(options))
+  }
+}
@@ -0,0 +1,2 @@
+export * from './fake-data-generator'
+export * from './seeded-random'
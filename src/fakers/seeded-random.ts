@@ -0,0 +1,112 @@
+/**
+ * Gerador de números pseudoaleatórios determinístico (mulberry32).
+ * A mesma semente produz sempre a mesma sequência, o que torna os dados gerados reproduzíveis.
+ */
+export class SeededRandom {
+  /**
+   * Estado interno do gerador.
+   * @private
+   */
+  private state: number
+
+  /**
+   * Converte uma semente textual em um inteiro de 32 bits (FNV-1a).
+   * @param seed - Semente textual.
+   * @returns {number} Semente numérica.
+   * @private
+   * @static
+   */
+  private static hash(seed: string): number {
+    let hash = 0x811c9dc5
+    for (let i = 0; i < seed.length; i++) {
+      hash ^= seed.charCodeAt(i)
+      hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+  }
+
+  // -------------------------------------------------------------------------------------------------------------------
+
+  /**
+   * Construtor do gerador.
+   * @param seed - Semente numérica ou textual.
+   */
+  public constructor(seed: number | string) {
+    this.state = typeof seed === 'string' ? SeededRandom.hash(seed) : seed >>> 0
+  }
+
+  /**
+   * Retorna o próximo número da sequência.
+   * @returns {number} Número no intervalo [0, 1).
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0
+    let t = this.state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  /**
+   * Retorna um inteiro no intervalo informado, incluindo os limites.
+   * @param min - Menor valor possível.
+   * @param max - Maior valor possível.
+   * @returns {number} Inteiro sorteado.
+   */
+  public integer(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1))
+  }
+
+  /**
+   * Retorna true com a probabilidade informada.
+   * @param probability - Probabilidade de retornar true, entre 0 e 1.
+   * @returns {boolean} Resultado do sorteio.
+   */
+  public boolean(probability = 0.5): boolean {
+    return this.next() < probability
+  }
+
+  /**
+   * Sorteia um item de uma lista.
+   * @param items - Lista não vazia de itens.
+   * @returns {T} Item sorteado.
+   */
+  public pick<T>(items: readonly T[]): T {
+    return items[this.integer(0, items.length - 1)]
+  }
+
+  /**
+   * Sorteia uma chave de acordo com os pesos informados.
+   * Chaves com peso zero ou negativo nunca são sorteadas.
+   * @param weights - Peso de cada chave.
+   * @returns {K} Chave sorteada.
+   * @throws {RangeError} Se nenhuma chave tiver peso positivo.
+   */
+  public weighted<K extends string>(weights: Partial<Record<K, number>>): K {
+    const entries = (Object.entries(weights) as [K, number][]).filter(([, weight]) => weight > 0)
+    const total = entries.reduce((sum, [, weight]) => sum + weight, 0)
+
+    if (total === 0) {
+      throw new RangeError('Ao menos um peso deve ser positivo')
+    }
+
+    let target = this.next() * total
+    for (const [key, weight] of entries) {
+      target -= weight
+      if (target < 0) {
+        return key
+      }
+    }
+
+    return entries[entries.length - 1][0]
+  }
+
+  /**
+   * Retorna uma sequência de dígitos numéricos.
+   * @param length - Quantidade de dígitos.
+   * @returns {string} Dígitos sorteados.
+   */
+  public digits(length: number): string {
+    return Array.from({ length }, () => this.integer(0, 9)).join('')
+  }
+}
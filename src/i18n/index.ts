@@ -0,0 +1,2 @@
+export * from './locales/index'
+export * from './message-catalog'
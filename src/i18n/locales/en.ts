@@ -0,0 +1,76 @@
+import { ValidationErrorCode } from '../../types'
+
+/**
+ * Mensagens de validação em inglês.
+ */
+export const enMessages: Record<ValidationErrorCode, string> = {
+  [ValidationErrorCode.INVALID_VALUE]: 'Invalid value',
+  [ValidationErrorCode.CPF_WRONG_LENGTH]: 'CPF must contain exactly 11 numeric digits',
+  [ValidationErrorCode.CPF_REPEATED_DIGITS]: 'Invalid CPF',
+  [ValidationErrorCode.CPF_CHECK_DIGIT]: 'Invalid CPF',
+  [ValidationErrorCode.CPF_BASE_WRONG_LENGTH]: 'CPF base must contain exactly 9 numeric digits',
+  [ValidationErrorCode.CNPJ_INVALID_FORMAT]:
+    'CNPJ must contain 12 alphanumeric characters followed by 2 check digits',
+  [ValidationErrorCode.CNPJ_REPEATED_CHARACTERS]: 'Invalid CNPJ',
+  [ValidationErrorCode.CNPJ_CHECK_DIGIT]: 'Invalid CNPJ',
+  [ValidationErrorCode.PIS_WRONG_LENGTH]: 'PIS must contain exactly 11 numeric digits',
+  [ValidationErrorCode.PIS_REPEATED_DIGITS]: 'Invalid PIS',
+  [ValidationErrorCode.PIS_CHECK_DIGIT]: 'Invalid PIS',
+  [ValidationErrorCode.TITULO_ELEITOR_WRONG_LENGTH]:
+    'Voter ID must contain exactly 12 numeric digits',
+  [ValidationErrorCode.TITULO_ELEITOR_INVALID_UF]: 'Invalid state code in voter ID',
+  [ValidationErrorCode.TITULO_ELEITOR_CHECK_DIGIT]: 'Invalid voter ID',
+  [ValidationErrorCode.CNH_WRONG_LENGTH]: 'CNH must contain exactly 11 numeric digits',
+  [ValidationErrorCode.CNH_REPEATED_DIGITS]: 'Invalid CNH',
+  [ValidationErrorCode.CNH_CHECK_DIGIT]: 'Invalid CNH',
+  [ValidationErrorCode.CTPS_WRONG_LENGTH]:
+    'CTPS must contain a number with up to 7 digits and a series with up to 4 digits',
+  [ValidationErrorCode.CTPS_INVALID]: 'Invalid CTPS',
+  [ValidationErrorCode.EMAIL_INVALID_FORMAT]: 'Invalid email',
+  [ValidationErrorCode.EMAIL_TOO_LONG]: 'Email cannot exceed {max} characters',
+  [ValidationErrorCode.EMAIL_DISPOSABLE]: 'Disposable email domains are not accepted',
+  [ValidationErrorCode.EMAIL_DOMAIN_NOT_ALLOWED]: 'The domain {domain} is not allowed',
+  [ValidationErrorCode.NAME_TOO_SHORT]: 'Full name must have at least {min} characters',
+  [ValidationErrorCode.NAME_TOO_LONG]: 'Full name cannot exceed {max} characters',
+  [ValidationErrorCode.NAME_SINGLE_WORD]: 'Invalid full name',
+  [ValidationErrorCode.NAME_WORD_TOO_SHORT]: 'Invalid full name',
+  [ValidationErrorCode.NAME_INVALID_CHARACTERS]: 'Invalid full name',
+  [ValidationErrorCode.PHONE_INVALID_FORMAT]: 'Invalid phone number',
+  [ValidationErrorCode.PHONE_INVALID_DDD]: 'Invalid area code {ddd}',
+  [ValidationErrorCode.PHONE_MOBILE_NINTH_DIGIT]:
+    'Mobile numbers must have 9 digits and start with 9',
+  [ValidationErrorCode.CEP_INVALID_FORMAT]: 'CEP must contain exactly 8 numeric digits',
+  [ValidationErrorCode.CEP_INVALID_RANGE]: 'CEP outside the postal code ranges',
+  [ValidationErrorCode.CEP_NOT_FOUND]: 'CEP {cep} not found',
+  [ValidationErrorCode.ADDRESS_FIELD_REQUIRED]: 'The {field} field is required',
+  [ValidationErrorCode.ADDRESS_INVALID_UF]: 'Invalid state',
+  [ValidationErrorCode.ADDRESS_CEP_UF_MISMATCH]: 'CEP {cep} does not belong to state {uf}',
+  [ValidationErrorCode.DATE_INVALID_FORMAT]: 'Date must be in the dd/mm/yyyy or yyyy-mm-dd format',
+  [ValidationErrorCode.DATE_INVALID]: 'Date does not exist',
+  [ValidationErrorCode.BIRTH_DATE_IN_FUTURE]: 'Birth date cannot be in the future',
+  [ValidationErrorCode.BIRTH_DATE_UNDER_MINIMUM_AGE]:
+    'Minimum age of {minimumAge} years not reached',
+  [ValidationErrorCode.MONEY_INVALID_FORMAT]: 'Invalid monetary amount',
+  [ValidationErrorCode.MONEY_TOO_MANY_DECIMALS]:
+    'Monetary amount must have at most 2 decimal places',
+  [ValidationErrorCode.MONEY_INVALID_CURRENCY]: 'Invalid currency {currency}',
+  [ValidationErrorCode.MONEY_CURRENCY_MISMATCH]:
+    'Cannot combine amounts in {expected} and {received}',
+  [ValidationErrorCode.IMPORT_FIELD_REQUIRED]: 'Required field',
+  [ValidationErrorCode.IMPORT_DUPLICATE_VALUE]: 'Duplicate value; already provided on row {row}',
+  [ValidationErrorCode.IMPORT_COLUMN_NOT_FOUND]: 'Column {column} not found',
+  [ValidationErrorCode.VALUE_NOT_NORMALIZED]:
+    'Value is not in normalized form; expected {expected}',
+  [ValidationErrorCode.EMPLOYEE_STATUS_INVALID]: 'Invalid employee status',
+  [ValidationErrorCode.EMPLOYEE_INVALID_ID]: 'Invalid employee identifier',
+  [ValidationErrorCode.EMPLOYEE_INVALID_DATE]: 'Invalid date',
+  [ValidationErrorCode.STATUS_TRANSITION_NOT_ALLOWED]:
+    'Status transition not allowed: {from} → {to}',
+  [ValidationErrorCode.STATUS_DATE_OUT_OF_ORDER]:
+    'The effective date cannot be earlier than the last status change',
+  [ValidationErrorCode.STATUS_RETURN_DATE_INVALID]: 'Invalid expected return date',
+  [ValidationErrorCode.STATUS_DATE_BEFORE_ADMISSION]:
+    'A status change cannot precede the admission date',
+  [ValidationErrorCode.STATUS_DISMISSAL_BEFORE_ADMISSION]:
+    'The dismissal date cannot precede the admission date',
+}
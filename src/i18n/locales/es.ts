@@ -0,0 +1,79 @@
+import { ValidationErrorCode } from '../../types'
+
+/**
+ * Mensagens de validação em espanhol.
+ */
+export const esMessages: Record<ValidationErrorCode, string> = {
+  [ValidationErrorCode.INVALID_VALUE]: 'Valor inválido',
+  [ValidationErrorCode.CPF_WRONG_LENGTH]: 'El CPF debe contener exactamente 11 dígitos numéricos',
+  [ValidationErrorCode.CPF_REPEATED_DIGITS]: 'CPF inválido',
+  [ValidationErrorCode.CPF_CHECK_DIGIT]: 'CPF inválido',
+  [ValidationErrorCode.CPF_BASE_WRONG_LENGTH]:
+    'La base del CPF debe contener exactamente 9 dígitos numéricos',
+  [ValidationErrorCode.CNPJ_INVALID_FORMAT]:
+    'El CNPJ debe contener 12 caracteres alfanuméricos seguidos de 2 dígitos verificadores',
+  [ValidationErrorCode.CNPJ_REPEATED_CHARACTERS]: 'CNPJ inválido',
+  [ValidationErrorCode.CNPJ_CHECK_DIGIT]: 'CNPJ inválido',
+  [ValidationErrorCode.PIS_WRONG_LENGTH]: 'El PIS debe contener exactamente 11 dígitos numéricos',
+  [ValidationErrorCode.PIS_REPEATED_DIGITS]: 'PIS inválido',
+  [ValidationErrorCode.PIS_CHECK_DIGIT]: 'PIS inválido',
+  [ValidationErrorCode.TITULO_ELEITOR_WRONG_LENGTH]:
+    'El título de elector debe contener exactamente 12 dígitos numéricos',
+  [ValidationErrorCode.TITULO_ELEITOR_INVALID_UF]:
+    'Código de estado del título de elector inválido',
+  [ValidationErrorCode.TITULO_ELEITOR_CHECK_DIGIT]: 'Título de elector inválido',
+  [ValidationErrorCode.CNH_WRONG_LENGTH]: 'La CNH debe contener exactamente 11 dígitos numéricos',
+  [ValidationErrorCode.CNH_REPEATED_DIGITS]: 'CNH inválida',
+  [ValidationErrorCode.CNH_CHECK_DIGIT]: 'CNH inválida',
+  [ValidationErrorCode.CTPS_WRONG_LENGTH]:
+    'La CTPS debe contener el número con hasta 7 dígitos y la serie con hasta 4 dígitos',
+  [ValidationErrorCode.CTPS_INVALID]: 'CTPS inválida',
+  [ValidationErrorCode.EMAIL_INVALID_FORMAT]: 'Correo electrónico inválido',
+  [ValidationErrorCode.EMAIL_TOO_LONG]: 'El correo electrónico no puede superar {max} caracteres',
+  [ValidationErrorCode.EMAIL_DISPOSABLE]: 'No se aceptan correos de dominios desechables',
+  [ValidationErrorCode.EMAIL_DOMAIN_NOT_ALLOWED]: 'El dominio {domain} no está permitido',
+  [ValidationErrorCode.NAME_TOO_SHORT]: 'El nombre completo debe tener al menos {min} caracteres',
+  [ValidationErrorCode.NAME_TOO_LONG]: 'El nombre completo no puede superar {max} caracteres',
+  [ValidationErrorCode.NAME_SINGLE_WORD]: 'Nombre completo inválido',
+  [ValidationErrorCode.NAME_WORD_TOO_SHORT]: 'Nombre completo inválido',
+  [ValidationErrorCode.NAME_INVALID_CHARACTERS]: 'Nombre completo inválido',
+  [ValidationErrorCode.PHONE_INVALID_FORMAT]: 'Teléfono inválido',
+  [ValidationErrorCode.PHONE_INVALID_DDD]: 'DDD {ddd} inválido',
+  [ValidationErrorCode.PHONE_MOBILE_NINTH_DIGIT]:
+    'Los celulares deben tener 9 dígitos y comenzar con 9',
+  [ValidationErrorCode.CEP_INVALID_FORMAT]: 'El CEP debe contener exactamente 8 dígitos numéricos',
+  [ValidationErrorCode.CEP_INVALID_RANGE]: 'CEP fuera de los rangos de códigos postales',
+  [ValidationErrorCode.CEP_NOT_FOUND]: 'CEP {cep} no encontrado',
+  [ValidationErrorCode.ADDRESS_FIELD_REQUIRED]: 'El campo {field} es obligatorio',
+  [ValidationErrorCode.ADDRESS_INVALID_UF]: 'Estado inválido',
+  [ValidationErrorCode.ADDRESS_CEP_UF_MISMATCH]: 'El CEP {cep} no pertenece al estado {uf}',
+  [ValidationErrorCode.DATE_INVALID_FORMAT]:
+    'La fecha debe estar en el formato dd/mm/aaaa o aaaa-mm-dd',
+  [ValidationErrorCode.DATE_INVALID]: 'Fecha inexistente',
+  [ValidationErrorCode.BIRTH_DATE_IN_FUTURE]: 'La fecha de nacimiento no puede ser futura',
+  [ValidationErrorCode.BIRTH_DATE_UNDER_MINIMUM_AGE]:
+    'Edad mínima de {minimumAge} años no alcanzada',
+  [ValidationErrorCode.MONEY_INVALID_FORMAT]: 'Valor monetario inválido',
+  [ValidationErrorCode.MONEY_TOO_MANY_DECIMALS]:
+    'El valor monetario debe tener como máximo 2 decimales',
+  [ValidationErrorCode.MONEY_INVALID_CURRENCY]: 'Moneda {currency} inválida',
+  [ValidationErrorCode.MONEY_CURRENCY_MISMATCH]:
+    'No es posible combinar valores en {expected} y {received}',
+  [ValidationErrorCode.IMPORT_FIELD_REQUIRED]: 'Campo obligatorio',
+  [ValidationErrorCode.IMPORT_DUPLICATE_VALUE]: 'Valor duplicado; ya informado en la fila {row}',
+  [ValidationErrorCode.IMPORT_COLUMN_NOT_FOUND]: 'Columna {column} no encontrada',
+  [ValidationErrorCode.VALUE_NOT_NORMALIZED]:
+    'Valor fuera de la forma normalizada; se esperaba {expected}',
+  [ValidationErrorCode.EMPLOYEE_STATUS_INVALID]: 'Estado de empleado inválido',
+  [ValidationErrorCode.EMPLOYEE_INVALID_ID]: 'Identificador de empleado inválido',
+  [ValidationErrorCode.EMPLOYEE_INVALID_DATE]: 'Fecha inválida',
+  [ValidationErrorCode.STATUS_TRANSITION_NOT_ALLOWED]:
+    'Transición de estado no permitida: {from} → {to}',
+  [ValidationErrorCode.STATUS_DATE_OUT_OF_ORDER]:
+    'La fecha de vigencia no puede ser anterior al último cambio de estado',
+  [ValidationErrorCode.STATUS_RETURN_DATE_INVALID]: 'Fecha prevista de regreso inválida',
+  [ValidationErrorCode.STATUS_DATE_BEFORE_ADMISSION]:
+    'El cambio de estado no puede ser anterior a la fecha de admisión',
+  [ValidationErrorCode.STATUS_DISMISSAL_BEFORE_ADMISSION]:
+    'La fecha de despido no puede ser anterior a la fecha de admisión',
+}
@@ -0,0 +1,3 @@
+export * from './en'
+export * from './es'
+export * from './pt-br'
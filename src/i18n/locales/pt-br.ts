@@ -0,0 +1,76 @@
+import { ValidationErrorCode } from '../../types'
+
+/**
+ * Mensagens de validação em português do Brasil (idioma padrão).
+ */
+export const ptBRMessages: Record<ValidationErrorCode, string> = {
+  [ValidationErrorCode.INVALID_VALUE]: 'Valor inválido',
+  [ValidationErrorCode.CPF_WRONG_LENGTH]: 'CPF deve conter exatamente 11 dígitos numéricos',
+  [ValidationErrorCode.CPF_REPEATED_DIGITS]: 'CPF inválido',
+  [ValidationErrorCode.CPF_CHECK_DIGIT]: 'CPF inválido',
+  [ValidationErrorCode.CPF_BASE_WRONG_LENGTH]:
+    'Base do CPF deve conter exatamente 9 dígitos numéricos',
+  [ValidationErrorCode.CNPJ_INVALID_FORMAT]:
+    'CNPJ deve conter 12 caracteres alfanuméricos seguidos de 2 dígitos verificadores',
+  [ValidationErrorCode.CNPJ_REPEATED_CHARACTERS]: 'CNPJ inválido',
+  [ValidationErrorCode.CNPJ_CHECK_DIGIT]: 'CNPJ inválido',
+  [ValidationErrorCode.PIS_WRONG_LENGTH]: 'PIS deve conter exatamente 11 dígitos numéricos',
+  [ValidationErrorCode.PIS_REPEATED_DIGITS]: 'PIS inválido',
+  [ValidationErrorCode.PIS_CHECK_DIGIT]: 'PIS inválido',
+  [ValidationErrorCode.TITULO_ELEITOR_WRONG_LENGTH]:
+    'Título de eleitor deve conter exatamente 12 dígitos numéricos',
+  [ValidationErrorCode.TITULO_ELEITOR_INVALID_UF]: 'Código de UF do título de eleitor inválido',
+  [ValidationErrorCode.TITULO_ELEITOR_CHECK_DIGIT]: 'Título de eleitor inválido',
+  [ValidationErrorCode.CNH_WRONG_LENGTH]: 'CNH deve conter exatamente 11 dígitos numéricos',
+  [ValidationErrorCode.CNH_REPEATED_DIGITS]: 'CNH inválida',
+  [ValidationErrorCode.CNH_CHECK_DIGIT]: 'CNH inválida',
+  [ValidationErrorCode.CTPS_WRONG_LENGTH]:
+    'CTPS deve conter o número com até 7 dígitos e a série com até 4 dígitos',
+  [ValidationErrorCode.CTPS_INVALID]: 'CTPS inválida',
+  [ValidationErrorCode.EMAIL_INVALID_FORMAT]: 'Email inválido',
+  [ValidationErrorCode.EMAIL_TOO_LONG]: 'Email não pode exceder {max} caracteres',
+  [ValidationErrorCode.EMAIL_DISPOSABLE]: 'Emails de domínios descartáveis não são aceitos',
+  [ValidationErrorCode.EMAIL_DOMAIN_NOT_ALLOWED]: 'O domínio {domain} não é permitido',
+  [ValidationErrorCode.NAME_TOO_SHORT]: 'Nome completo deve ter pelo menos {min} caracteres',
+  [ValidationErrorCode.NAME_TOO_LONG]: 'Nome completo não pode exceder {max} caracteres',
+  [ValidationErrorCode.NAME_SINGLE_WORD]: 'Nome completo inválido',
+  [ValidationErrorCode.NAME_WORD_TOO_SHORT]: 'Nome completo inválido',
+  [ValidationErrorCode.NAME_INVALID_CHARACTERS]: 'Nome completo inválido',
+  [ValidationErrorCode.PHONE_INVALID_FORMAT]: 'Telefone inválido',
+  [ValidationErrorCode.PHONE_INVALID_DDD]: 'DDD {ddd} inválido',
+  [ValidationErrorCode.PHONE_MOBILE_NINTH_DIGIT]: 'Celulares devem ter 9 dígitos e começar com 9',
+  [ValidationErrorCode.CEP_INVALID_FORMAT]: 'CEP deve conter exatamente 8 dígitos numéricos',
+  [ValidationErrorCode.CEP_INVALID_RANGE]: 'CEP fora das faixas de endereçamento',
+  [ValidationErrorCode.CEP_NOT_FOUND]: 'CEP {cep} não encontrado',
+  [ValidationErrorCode.ADDRESS_FIELD_REQUIRED]: 'O campo {field} é obrigatório',
+  [ValidationErrorCode.ADDRESS_INVALID_UF]: 'UF inválida',
+  [ValidationErrorCode.ADDRESS_CEP_UF_MISMATCH]: 'O CEP {cep} não pertence ao estado {uf}',
+  [ValidationErrorCode.DATE_INVALID_FORMAT]: 'Data deve estar no formato dd/mm/aaaa ou aaaa-mm-dd',
+  [ValidationErrorCode.DATE_INVALID]: 'Data inexistente',
+  [ValidationErrorCode.BIRTH_DATE_IN_FUTURE]: 'Data de nascimento não pode ser futura',
+  [ValidationErrorCode.BIRTH_DATE_UNDER_MINIMUM_AGE]:
+    'Idade mínima de {minimumAge} anos não atingida',
+  [ValidationErrorCode.MONEY_INVALID_FORMAT]: 'Valor monetário inválido',
+  [ValidationErrorCode.MONEY_TOO_MANY_DECIMALS]:
+    'Valor monetário deve ter no máximo 2 casas decimais',
+  [ValidationErrorCode.MONEY_INVALID_CURRENCY]: 'Moeda {currency} inválida',
+  [ValidationErrorCode.MONEY_CURRENCY_MISMATCH]:
+    'Não é possível combinar valores em {expected} e {received}',
+  [ValidationErrorCode.IMPORT_FIELD_REQUIRED]: 'Campo obrigatório',
+  [ValidationErrorCode.IMPORT_DUPLICATE_VALUE]: 'Valor duplicado; já informado na linha {row}',
+  [ValidationErrorCode.IMPORT_COLUMN_NOT_FOUND]: 'Coluna {column} não encontrada',
+  [ValidationErrorCode.VALUE_NOT_NORMALIZED]:
+    'Valor fora da forma normalizada; esperado {expected}',
+  [ValidationErrorCode.EMPLOYEE_STATUS_INVALID]: 'Status de funcionário inválido',
+  [ValidationErrorCode.EMPLOYEE_INVALID_ID]: 'Identificador do funcionário inválido',
+  [ValidationErrorCode.EMPLOYEE_INVALID_DATE]: 'Data inválida',
+  [ValidationErrorCode.STATUS_TRANSITION_NOT_ALLOWED]:
+    'Transição de status não permitida: {from} → {to}',
+  [ValidationErrorCode.STATUS_DATE_OUT_OF_ORDER]:
+    'A data de vigência não pode ser anterior à última alteração de status',
+  [ValidationErrorCode.STATUS_RETURN_DATE_INVALID]: 'Data prevista de retorno inválida',
+  [ValidationErrorCode.STATUS_DATE_BEFORE_ADMISSION]:
+    'A alteração de status não pode ser anterior à data de admissão',
+  [ValidationErrorCode.STATUS_DISMISSAL_BEFORE_ADMISSION]:
+    'A data de demissão não pode ser anterior à data de admissão',
+}
@@ -0,0 +1,97 @@
+import { Locale, ValidationErrorCode } from '../types'
+import { enMessages } from './locales/en'
+import { esMessages } from './locales/es'
+import { ptBRMessages } from './locales/pt-br'
+
+/**
+ * Valores interpolados nas mensagens, referenciados como `{nome}` no texto.
+ */
+export type MessageValues = Record<string, string | number>
+
+/**
+ * Mensagens de validação indexadas pelo código de erro.
+ */
+export type MessageBundle = Partial<Record<ValidationErrorCode, string>>
+
+/**
+ * Idioma utilizado quando uma mensagem não existe no idioma solicitado.
+ */
+export const defaultLocale: Locale = 'pt-BR'
+
+/**
+ * Cria o conjunto inicial de catálogos com as mensagens embutidas.
+ * @returns {Map<Locale, MessageBundle>} Mensagens indexadas por idioma.
+ */
+function createCatalogs(): Map<Locale, MessageBundle> {
+  return new Map<Locale, MessageBundle>([
+    ['pt-BR', { ...ptBRMessages }],
+    ['en', { ...enMessages }],
+    ['es', { ...esMessages }],
+  ])
+}
+
+/**
+ * Mensagens registradas para cada idioma.
+ */
+const catalogs = createCatalogs()
+
+/**
+ * Idioma global utilizado quando nenhum idioma é informado na chamada.
+ */
+let currentLocale: Locale = defaultLocale
+
+/**
+ * Define o idioma global das mensagens de validação.
+ * @param locale - Idioma a ser utilizado.
+ */
+export function setLocale(locale: Locale): void {
+  currentLocale = locale
+}
+
+/**
+ * Retorna o idioma global das mensagens de validação.
+ * @returns {Locale} Idioma atual.
+ */
+export function getLocale(): Locale {
+  return currentLocale
+}
+
+/**
+ * Registra mensagens para um idioma, sobrescrevendo as existentes com o mesmo código.
+ * Permite adicionar novos idiomas ou personalizar as mensagens embutidas.
+ * @param locale - Idioma das mensagens.
+ * @param messages - Mensagens indexadas pelo código de erro.
+ */
+export function registerMessages(locale: Locale, messages: MessageBundle): void {
+  catalogs.set(locale, { ...catalogs.get(locale), ...messages })
+}
+
+/**
+ * Restaura as mensagens embutidas e o idioma padrão, descartando registros personalizados.
+ */
+export function resetMessages(): void {
+  catalogs.clear()
+  createCatalogs().forEach((messages, locale) => catalogs.set(locale, messages))
+  currentLocale = defaultLocale
+}
+
+/**
+ * Retorna a mensagem de um código de erro no idioma solicitado.
+ * Procura no idioma informado, depois no idioma base (ex: 'en' para 'en-US') e por fim no padrão.
+ * @param code - Código do erro.
+ * @param locale - Idioma desejado. Quando omitido, usa o idioma global.
+ * @param values - Valores interpolados na mensagem.
+ * @returns {string} Mensagem traduzida.
+ */
+export function translate(
+  code: ValidationErrorCode,
+  locale: Locale = currentLocale,
+  values: MessageValues = {},
+): string {
+  const candidates = [locale, locale.split('-')[0], defaultLocale]
+  const message = candidates.map((candidate) => catalogs.get(candidate)?.[code]).find(Boolean)
+
+  return (message ?? code).replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? String(values[key]) : match,
+  )
+}
@@ -0,0 +1,470 @@
+import { z } from 'zod'
+
+import { createValidationIssue, ValidationError } from '../errors'
+import { translate } from '../i18n'
+import { cpfSchema, CreateDto, emailSchema, EntityDefinition, EntityFields } from '../schemas'
+import { ValidationErrorCode } from '../types'
+import { CsvChunk, CsvSource, readCsv } from './csv-reader'
+
+/**
+ * Registro de uma origem de objetos, como o resultado de `JSON.parse` de um array.
+ */
+export type ImportObject = Record<string, unknown>
+
+/**
+ * Origem de uma importação: um CSV (texto completo ou trechos) ou uma sequência de objetos.
+ */
+export type ImportSource = CsvSource | Iterable<ImportObject> | AsyncIterable<ImportObject>
+
+/**
+ * Opções de uma importação em lote.
+ */
+export interface ImportOptions<D extends EntityDefinition<EntityFields>> {
+  /**
+   * Coluna de origem de cada campo: o nome no cabeçalho (sem diferenciar maiúsculas e acentos) ou a
+   * posição, a partir de 0. Campos omitidos são lidos da coluna com o próprio nome do campo.
+   */
+  columns?: Partial<Record<keyof D['fields'] & string, string | number>>
+  /** Separador de colunas do CSV. Quando omitido, é detectado na primeira linha. */
+  delimiter?: string
+  /**
+   * Indica se a primeira linha do CSV é um cabeçalho. Quando omitido, a primeira linha é tratada
+   * como cabeçalho se algum dos seus valores for o nome de uma coluna mapeada.
+   */
+  header?: boolean
+  /** Campos que não podem se repetir no arquivo. Padrão: os campos de CPF e de email. */
+  unique?: (keyof D['fields'] & string)[]
+}
+
+/**
+ * Problema encontrado em um campo de uma linha importada.
+ */
+export interface ImportIssue {
+  /** Número da linha, como na planilha: em CSVs com cabeçalho, a primeira linha de dados é a 2. */
+  row: number
+  /** Coluna de origem: o nome no cabeçalho ou a letra da coluna, como na planilha. */
+  column: string
+  /** Campo da definição de entidade. */
+  field: string
+  /** Valor informado. */
+  input: string
+  code: ValidationErrorCode
+  message: string
+}
+
+/**
+ * Valor de um campo com os objetos de valor, como `FullName` e `CPF`, substituídos pelo valor bruto.
+ */
+export type PlainValue<V> = V extends { readonly raw: string } ? string : V
+
+/**
+ * Registro importado com os objetos de valor substituídos pelos seus valores brutos normalizados.
+ */
+export type PlainRecord<T> = { [K in keyof T]: PlainValue<T[K]> }
+
+/**
+ * Resultado da validação de uma linha.
+ */
+export type ImportRowResult<T> =
+  | { row: number; ok: true; record: T }
+  | { row: number; ok: false; errors: ImportIssue[] }
+
+/**
+ * Relatório de uma importação em lote.
+ */
+export interface ImportReport<T> {
+  /**
+   * Linhas válidas, com instâncias dos objetos de valor já normalizados. Para serializar o
+   * relatório, converta-o com `toPlainReport`.
+   */
+  records: { row: number; record: T }[]
+  /** Problemas encontrados, por linha e campo. */
+  errors: ImportIssue[]
+  /** Quantidade de linhas de dados lidas, sem contar o cabeçalho e as linhas em branco. */
+  total: number
+  /** Quantidade de linhas inválidas. */
+  invalid: number
+}
+
+/**
+ * Linha de dados lida da origem, com os valores de cada campo e a coluna de origem.
+ */
+interface SourceRow {
+  row: number
+  values: Record<string, { column: string; value: unknown }>
+}
+
+/**
+ * Normaliza um nome de coluna para comparação, sem diferenciar maiúsculas, acentos e espaços.
+ * @param name - Nome da coluna.
+ * @returns {string} Nome normalizado.
+ */
+function normalizeColumn(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase()
+}
+
+/**
+ * Converte a posição de uma coluna na letra usada pelas planilhas (0 → A, 26 → AA).
+ * @param index - Posição da coluna, a partir de 0.
+ * @returns {string} Letra da coluna.
+ */
+function columnLetter(index: number): string {
+  let letter = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter
+  }
+  return letter
+}
+
+/**
+ * Verifica se um valor está vazio, desconsiderando espaços.
+ * @param value - Valor a ser verificado.
+ * @returns {boolean} true se o valor for nulo, indefinido ou um texto em branco.
+ */
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '')
+}
+
+/**
+ * Retorna a chave usada na detecção de duplicidades: o valor bruto dos objetos de valor.
+ * @param value - Valor validado.
+ * @returns {string} Chave de comparação.
+ */
+function uniqueKey(value: unknown): string {
+  const raw = (value as { raw?: unknown } | null)?.raw
+  return typeof raw === 'string' ? raw : String(value)
+}
+
+/**
+ * Converte a origem em uma sequência assíncrona de itens.
+ * @param source - Origem da importação.
+ * @returns {AsyncGenerator} Itens da origem.
+ */
+async function* iterate(
+  source: Exclude<ImportSource, string>,
+): AsyncGenerator<CsvChunk | ImportObject> {
+  yield* source
+}
+
+/**
+ * Lê as linhas de um CSV, associando cada campo à sua coluna.
+ * @param source - Origem do CSV.
+ * @param fields - Campos a serem lidos.
+ * @param optional - Campos opcionais, cuja coluna pode não existir no arquivo.
+ * @param options - Opções da importação.
+ * @returns {AsyncGenerator<SourceRow>} Linhas de dados.
+ * @throws {ValidationError} Com o código `IMPORT_COLUMN_NOT_FOUND` se a coluna de um campo
+ * obrigatório não existir.
+ */
+async function* readCsvRows(
+  source: CsvSource,
+  fields: string[],
+  optional: string[],
+  options: ImportOptions<EntityDefinition<EntityFields>>,
+): AsyncGenerator<SourceRow> {
+  const columns: Partial<Record<string, string | number>> = options.columns ?? {}
+  let positions: Record<string, { index: number; column: string }> | undefined
+  let row = 0
+
+  for await (const cells of readCsv(source, { delimiter: options.delimiter })) {
+    row++
+
+    if (!positions) {
+      // Sem cabeçalho, apenas colunas informadas pela posição podem ser lidas
+      const names = cells.map(normalizeColumn)
+      const header =
+        options.header ??
+        fields.some((name) => names.includes(normalizeColumn(String(columns[name] ?? name))))
+
+      positions = {}
+      for (const name of fields) {
+        const target = columns[name] ?? name
+        const index =
+          typeof target === 'number' ? target : header ? names.indexOf(normalizeColumn(target)) : -1
+
+        if (index < 0 && !optional.includes(name)) {
+          const column = String(target)
+          throw new ValidationError([
+            createValidationIssue(
+              ValidationErrorCode.IMPORT_COLUMN_NOT_FOUND,
+              column,
+              {},
+              { column },
+            ),
+          ])
+        }
+
+        positions[name] = {
+          index,
+          column:
+            index < 0 ? String(target) : (header && cells[index]?.trim()) || columnLetter(index),
+        }
+      }
+
+      if (header) {
+        continue
+      }
+    }
+
+    if (cells.every((cell) => cell.trim() === '')) {
+      continue
+    }
+
+    const values: SourceRow['values'] = {}
+    for (const [name, { index, column }] of Object.entries(positions)) {
+      values[name] = { column, value: cells[index] }
+    }
+    yield { row, values }
+  }
+}
+
+/**
+ * Lê as linhas de uma sequência de objetos, associando cada campo à sua propriedade.
+ * @param source - Sequência de objetos.
+ * @param fields - Campos a serem lidos.
+ * @param options - Opções da importação.
+ * @returns {AsyncGenerator<SourceRow>} Linhas de dados.
+ */
+async function* readObjectRows(
+  source: AsyncGenerator<CsvChunk | ImportObject>,
+  fields: string[],
+  options: ImportOptions<EntityDefinition<EntityFields>>,
+): AsyncGenerator<SourceRow> {
+  const columns: Partial<Record<string, string | number>> = options.columns ?? {}
+  let row = 0
+
+  for await (const item of source) {
+    row++
+    const object = item as ImportObject
+    const keys = Object.keys(object)
+
+    const values: SourceRow['values'] = {}
+    for (const name of fields) {
+      const target = columns[name] ?? name
+      const key =
+        typeof target === 'number'
+          ? keys[target]
+          : target in object
+            ? target
+            : keys.find((candidate) => normalizeColumn(candidate) === normalizeColumn(target))
+
+      values[name] = {
+        column: key ?? String(target),
+        value: key === undefined ? undefined : object[key],
+      }
+    }
+    yield { row, values }
+  }
+}
+
+/**
+ * Lê as linhas de dados da origem, identificando se ela é um CSV ou uma sequência de objetos.
+ * @param source - Origem da importação.
+ * @param fields - Campos a serem lidos.
+ * @param optional - Campos opcionais, cuja coluna pode não existir no arquivo.
+ * @param options - Opções da importação.
+ * @returns {AsyncGenerator<SourceRow>} Linhas de dados.
+ */
+async function* readRows(
+  source: ImportSource,
+  fields: string[],
+  optional: string[],
+  options: ImportOptions<EntityDefinition<EntityFields>>,
+): AsyncGenerator<SourceRow> {
+  if (typeof source === 'string') {
+    yield* readCsvRows(source, fields, optional, options)
+    return
+  }
+
+  // O tipo do primeiro item indica se a origem é um CSV em trechos ou uma sequência de objetos
+  const items = iterate(source)
+  const first = await items.next()
+  if (first.done) {
+    return
+  }
+
+  async function* replay(): AsyncGenerator<CsvChunk | ImportObject> {
+    yield first.value
+    yield* items
+  }
+
+  if (typeof first.value === 'string' || first.value instanceof Uint8Array) {
+    yield* readCsvRows(replay() as AsyncGenerator<CsvChunk>, fields, optional, options)
+  } else {
+    yield* readObjectRows(replay(), fields, options)
+  }
+}
+
+/**
+ * Valida uma origem linha a linha, sem carregar todos os registros em memória.
+ * Cada linha é validada com o schema de criação da entidade e os erros são associados à coluna
+ * de origem. Apenas as chaves dos campos únicos são mantidas em memória para detectar duplicidades.
+ * As mensagens de erro usam o idioma global.
+ * @param source - CSV (texto ou trechos, como `fs.createReadStream(caminho)`) ou sequência de objetos.
+ * @param entity - Definição da entidade; os campos gerados são ignorados.
+ * @param options - Mapeamento de colunas, separador, cabeçalho e campos únicos.
+ * @returns {AsyncGenerator<ImportRowResult>} Resultado de cada linha de dados.
+ * @throws {ValidationError} Com o código `IMPORT_COLUMN_NOT_FOUND` se a coluna de um campo
+ * obrigatório não existir no CSV.
+ */
+export async function* validateRows<D extends EntityDefinition<EntityFields>>(
+  source: ImportSource,
+  entity: D,
+  options: ImportOptions<D> = {},
+): AsyncGenerator<ImportRowResult<CreateDto<D>>> {
+  const fields = Object.keys(entity.fields as EntityFields).filter(
+    (name) => !entity.fields[name].flags.generated,
+  )
+  const unique =
+    options.unique ??
+    fields.filter((name) => {
+      const { schema } = entity.fields[name]
+      return schema === cpfSchema || schema === emailSchema
+    })
+  const optional = fields.filter((name) => entity.fields[name].flags.optional)
+  const seen = new Map<string, Map<string, number>>(unique.map((name) => [name, new Map()]))
+
+  for await (const { row, values } of readRows(source, fields, optional, options)) {
+    // Valores em branco são omitidos: campos opcionais os aceitam e os obrigatórios geram erro
+    const input: Record<string, unknown> = {}
+    for (const [name, { value }] of Object.entries(values)) {
+      if (!isBlank(value)) {
+        input[name] = typeof value === 'string' ? value.trim() : value
+      }
+    }
+
+    const errors: ImportIssue[] = []
+    const issueFor = (name: string, code: ValidationErrorCode, message: string): ImportIssue => ({
+      row,
+      column: values[name].column,
+      field: name,
+      input: isBlank(values[name].value) ? '' : String(values[name].value),
+      code,
+      message,
+    })
+
+    const result = entity.createSchema.safeParse(input)
+    if (!result.success) {
+      for (const issue of result.error.errors) {
+        const name = String(issue.path[0])
+        if (issue.code === z.ZodIssueCode.invalid_type && issue.received === 'undefined') {
+          errors.push(
+            issueFor(
+              name,
+              ValidationErrorCode.IMPORT_FIELD_REQUIRED,
+              translate(ValidationErrorCode.IMPORT_FIELD_REQUIRED),
+            ),
+          )
+          continue
+        }
+
+        const code: ValidationErrorCode =
+          issue.code === z.ZodIssueCode.custom && issue.params?.code
+            ? issue.params.code
+            : ValidationErrorCode.INVALID_VALUE
+        errors.push(issueFor(name, code, issue.message))
+      }
+    }
+
+    // A duplicidade é verificada mesmo em linhas inválidas, desde que o próprio campo seja válido,
+    // mas só as linhas válidas registram os seus valores
+    const record: Record<string, unknown> = result.success ? result.data : {}
+    const keys: [Map<string, number>, string][] = []
+    for (const [name, rows] of seen) {
+      if (errors.some((issue) => issue.field === name) || isBlank(values[name]?.value)) {
+        continue
+      }
+
+      const key = uniqueKey(
+        result.success ? record[name] : entity.fields[name].schema.safeParse(input[name]).data,
+      )
+      const firstRow = rows.get(key)
+      if (firstRow === undefined) {
+        keys.push([rows, key])
+        continue
+      }
+
+      errors.push(
+        issueFor(
+          name,
+          ValidationErrorCode.IMPORT_DUPLICATE_VALUE,
+          translate(ValidationErrorCode.IMPORT_DUPLICATE_VALUE, undefined, { row: firstRow }),
+        ),
+      )
+    }
+
+    if (errors.length === 0) {
+      for (const [rows, key] of keys) {
+        rows.set(key, row)
+      }
+    }
+
+    yield errors.length > 0
+      ? { row, ok: false, errors }
+      : { row, ok: true, record: record as CreateDto<D> }
+  }
+}
+
+/**
+ * Valida uma origem completa, reunindo os registros válidos e o relatório de erros.
+ * Para arquivos muito grandes, prefira `validateRows`, que processa uma linha por vez.
+ * @param source - CSV (texto ou trechos, como `fs.createReadStream(caminho)`) ou sequência de objetos.
+ * @param entity - Definição da entidade; os campos gerados são ignorados.
+ * @param options - Mapeamento de colunas, separador, cabeçalho e campos únicos.
+ * @returns {Promise<ImportReport>} Registros válidos e problemas encontrados.
+ * @throws {ValidationError} Com o código `IMPORT_COLUMN_NOT_FOUND` se a coluna de um campo
+ * obrigatório não existir no CSV.
+ */
+export async function validateImport<D extends EntityDefinition<EntityFields>>(
+  source: ImportSource,
+  entity: D,
+  options: ImportOptions<D> = {},
+): Promise<ImportReport<CreateDto<D>>> {
+  const report: ImportReport<CreateDto<D>> = { records: [], errors: [], total: 0, invalid: 0 }
+
+  for await (const result of validateRows(source, entity, options)) {
+    report.total++
+    if (result.ok) {
+      report.records.push({ row: result.row, record: result.record })
+    } else {
+      report.invalid++
+      report.errors.push(...result.errors)
+    }
+  }
+
+  return report
+}
+
+/**
+ * Converte um registro importado em um objeto simples, substituindo os objetos de valor pelo valor
+ * bruto normalizado (por exemplo, o CPF apenas com dígitos). Os demais valores são mantidos.
+ * @param record - Registro válido de `validateRows` ou `validateImport`.
+ * @returns {PlainRecord} Registro pronto para ser serializado em JSON.
+ */
+export function toPlainRecord<T extends object>(record: T): PlainRecord<T> {
+  const plain: Record<string, unknown> = {}
+  for (const [name, value] of Object.entries(record)) {
+    const raw = (value as { raw?: unknown } | null)?.raw
+    plain[name] = typeof raw === 'string' ? raw : value
+  }
+  return plain as PlainRecord<T>
+}
+
+/**
+ * Converte o relatório de uma importação em um objeto simples, com os registros convertidos por
+ * `toPlainRecord`, para ser serializado em JSON ou enviado em uma resposta HTTP.
+ * @param report - Relatório de `validateImport`.
+ * @returns {ImportReport<PlainRecord>} Relatório com registros simples.
+ */
+export function toPlainReport<T extends object>(
+  report: ImportReport<T>,
+): ImportReport<PlainRecord<T>> {
+  return {
+    ...report,
+    records: report.records.map(({ row, record }) => ({ row, record: toPlainRecord(record) })),
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * Trechos de texto aceitos na leitura de CSV: strings ou bytes em UTF-8, como os produzidos por
+ * `fs.createReadStream`.
+ */
+export type CsvChunk = string | Uint8Array
+
+/**
+ * Origem de um CSV: o texto completo ou uma sequência, síncrona ou assíncrona, de trechos.
+ */
+export type CsvSource = string | Iterable<CsvChunk> | AsyncIterable<CsvChunk>
+
+/**
+ * Opções de leitura de CSV.
+ */
+export interface CsvReadOptions {
+  /** Separador de colunas. Quando omitido, é detectado na primeira linha entre `;`, `,`, tab e `|`. */
+  delimiter?: string
+}
+
+/**
+ * Separadores considerados na detecção automática, em ordem de preferência em caso de empate.
+ */
+const candidateDelimiters = [';', ',', '\t', '|']
+
+/**
+ * Conta as ocorrências de um caractere fora de aspas.
+ * @param line - Linha a ser analisada.
+ * @param char - Caractere a ser contado.
+ * @returns {number} Quantidade de ocorrências fora de aspas.
+ */
+function countOutsideQuotes(line: string, char: string): number {
+  let count = 0
+  let quoted = false
+
+  for (const current of line) {
+    if (current === '"') {
+      quoted = !quoted
+    } else if (current === char && !quoted) {
+      count++
+    }
+  }
+
+  return count
+}
+
+/**
+ * Localiza o fim da primeira linha, ignorando quebras de linha dentro de aspas.
+ * @param text - Texto a ser analisado.
+ * @returns {number} Posição da quebra de linha ou -1 se a primeira linha ainda não terminou.
+ */
+function firstLineEnd(text: string): number {
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '"') {
+      quoted = !quoted
+    } else if (text[i] === '\n' && !quoted) {
+      return i
+    }
+  }
+
+  return -1
+}
+
+/**
+ * Detecta o separador de colunas de uma linha de CSV.
+ * O ponto e vírgula, usado pelo Excel em português, tem prioridade em caso de empate.
+ * @param line - Primeira linha do arquivo.
+ * @returns {string} Separador mais frequente fora de aspas, ou `,` se nenhum for encontrado.
+ */
+export function detectDelimiter(line: string): string {
+  let best = ','
+  let bestCount = 0
+
+  for (const delimiter of candidateDelimiters) {
+    const count = countOutsideQuotes(line, delimiter)
+    if (count > bestCount) {
+      best = delimiter
+      bestCount = count
+    }
+  }
+
+  return best
+}
+
+/**
+ * Analisador incremental de CSV, conforme a RFC 4180: campos entre aspas podem conter o separador,
+ * quebras de linha e aspas duplicadas (`""`).
+ */
+class CsvTokenizer {
+  /**
+   * Separador de colunas.
+   * @private
+   */
+  private readonly delimiter: string
+
+  /**
+   * Campos do registro em leitura.
+   * @private
+   */
+  private fields: string[] = []
+
+  /**
+   * Conteúdo do campo em leitura.
+   * @private
+   */
+  private field = ''
+
+  /**
+   * Indica se a leitura está dentro de um campo entre aspas.
+   * @private
+   */
+  private quoted = false
+
+  /**
+   * Indica se o último caractere fechou um campo entre aspas, para reconhecer aspas duplicadas.
+   * @private
+   */
+  private closedQuote = false
+
+  /**
+   * Construtor do analisador.
+   * @param delimiter - Separador de colunas.
+   */
+  public constructor(delimiter: string) {
+    this.delimiter = delimiter
+  }
+
+  /**
+   * Encerra o registro em leitura.
+   * @param records - Lista onde o registro é acumulado.
+   * @private
+   */
+  private endRecord(records: string[][]): void {
+    records.push([...this.fields, this.field])
+    this.fields = []
+    this.field = ''
+  }
+
+  /**
+   * Processa um trecho de texto.
+   * @param text - Trecho do CSV.
+   * @returns {string[][]} Registros concluídos no trecho.
+   */
+  public push(text: string): string[][] {
+    const records: string[][] = []
+
+    for (const char of text) {
+      if (char === '"') {
+        if (this.quoted) {
+          this.quoted = false
+          this.closedQuote = true
+          continue
+        }
+        // Aspas logo após o fechamento representam uma aspa literal dentro do campo
+        if (this.closedQuote || this.field === '') {
+          this.field += this.closedQuote ? '"' : ''
+          this.quoted = true
+          this.closedQuote = false
+          continue
+        }
+      }
+
+      this.closedQuote = false
+
+      if (this.quoted) {
+        this.field += char
+      } else if (char === this.delimiter) {
+        this.fields.push(this.field)
+        this.field = ''
+      } else if (char === '\n') {
+        this.endRecord(records)
+      } else if (char !== '\r') {
+        this.field += char
+      }
+    }
+
+    return records
+  }
+
+  /**
+   * Encerra a leitura, retornando o último registro se o arquivo não terminar com quebra de linha.
+   * @returns {string[][]} Registros restantes.
+   */
+  public end(): string[][] {
+    const records: string[][] = []
+    if (this.fields.length > 0 || this.field !== '') {
+      this.endRecord(records)
+    }
+    return records
+  }
+}
+
+/**
+ * Converte a origem em uma sequência assíncrona de trechos de texto, decodificando bytes em UTF-8.
+ * @param source - Origem do CSV.
+ * @returns {AsyncGenerator<string>} Trechos de texto.
+ */
+async function* toText(source: CsvSource): AsyncGenerator<string> {
+  if (typeof source === 'string') {
+    yield source
+    return
+  }
+
+  const decoder = new TextDecoder('utf-8')
+  for await (const chunk of source) {
+    yield typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true })
+  }
+
+  const rest = decoder.decode()
+  if (rest) {
+    yield rest
+  }
+}
+
+/**
+ * Lê um CSV registro a registro, sem carregar o arquivo inteiro em memória.
+ * Linhas em branco são retornadas como registros com um único campo vazio, preservando a numeração.
+ * @param source - Texto completo ou sequência de trechos (ex: `fs.createReadStream(caminho)`).
+ * @param options - Opções de leitura, como o separador de colunas.
+ * @returns {AsyncGenerator<string[]>} Campos de cada registro.
+ */
+export async function* readCsv(
+  source: CsvSource,
+  options: CsvReadOptions = {},
+): AsyncGenerator<string[]> {
+  let tokenizer = options.delimiter === undefined ? undefined : new CsvTokenizer(options.delimiter)
+  let pending = ''
+  let first = true
+
+  for await (let text of toText(source)) {
+    // Remove a marca de ordem de bytes gravada pelo Excel em arquivos UTF-8
+    if (first) {
+      text = text.replace(/^\uFEFF/, '')
+      first = text === ''
+    }
+
+    // O separador só é detectado quando a primeira linha estiver completa
+    if (!tokenizer) {
+      pending += text
+      const end = firstLineEnd(pending)
+      if (end < 0) {
+        continue
+      }
+      tokenizer = new CsvTokenizer(detectDelimiter(pending.slice(0, end)))
+      text = pending
+      pending = ''
+    }
+
+    yield* tokenizer.push(text)
+  }
+
+  tokenizer ??= new CsvTokenizer(detectDelimiter(pending))
+  yield* tokenizer.push(pending)
+  yield* tokenizer.end()
+}
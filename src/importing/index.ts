@@ -0,0 +1,2 @@
+export * from './batch-import'
+export * from './csv-reader'
@@ -1,2 +1,15 @@
+export * from './branded/index'
+export * from './cli/index'
+export * from './entities/index'
+export * from './errors/index'
 export * from './factories/index'
+export * from './fakers/index'
+export * from './i18n/index'
+export * from './importing/index'
+export * from './masking/index'
+export * from './policies/index'
+export * from './providers/index'
+export * from './repositories/index'
+export * from './schemas/index'
 export * from './types/index'
+export * from './verification/index'
@@ -0,0 +1,132 @@
+import { CPF, Email, FullName } from '../factories'
+
+/**
+ * Substituições aplicadas aos dados pessoais encontrados.
+ * Quando omitidas, os dados são substituídos pela versão mascarada (`masked`).
+ */
+export interface RedactOptions {
+  /** Substituição de cada CPF encontrado. */
+  cpf?: (cpf: CPF) => string
+  /** Substituição de cada email encontrado. */
+  email?: (email: Email) => string
+  /** Substituição das instâncias de `FullName`; nomes em texto livre não são detectados. */
+  name?: (name: FullName) => string
+}
+
+/**
+ * Candidatos a email em texto livre; cada candidato ainda é validado por `Email.isValid`.
+ */
+const emailPattern = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g
+
+/**
+ * Candidatos a CPF em texto livre, com ou sem pontuação e fora de sequências maiores de dígitos;
+ * cada candidato ainda é validado pelos dígitos verificadores.
+ */
+const cpfPattern = /(^|\D)(\d{3}\.?\d{3}\.?\d{3}-?\d{2})(?!\d)/g
+
+/**
+ * Substitui os CPFs e emails válidos encontrados em um texto.
+ * @param text - Texto a ser verificado.
+ * @param options - Substituições de cada tipo de dado.
+ * @returns {string} Texto sem os dados pessoais.
+ */
+export function redactText(text: string, options: RedactOptions = {}): string {
+  const replaceEmail = options.email ?? ((email: Email) => email.masked)
+  const replaceCpf = options.cpf ?? ((cpf: CPF) => cpf.masked)
+
+  // Os emails são tratados primeiro para que dígitos no usuário não sejam confundidos com CPFs
+  return text
+    .replace(emailPattern, (match) =>
+      Email.isValid(match) ? replaceEmail(new Email(match)) : match,
+    )
+    .replace(cpfPattern, (match, prefix: string, cpf: string) =>
+      CPF.isValid(cpf) ? prefix + replaceCpf(new CPF(cpf)) : match,
+    )
+}
+
+/**
+ * Percorre um valor recursivamente, substituindo os dados pessoais encontrados.
+ * @param value - Valor a ser percorrido.
+ * @param options - Substituições de cada tipo de dado.
+ * @param seen - Cópias já criadas, usadas para preservar referências circulares.
+ * @returns {unknown} Cópia do valor sem os dados pessoais.
+ */
+function redactValue(
+  value: unknown,
+  options: RedactOptions,
+  seen: WeakMap<object, unknown>,
+): unknown {
+  if (typeof value === 'string') {
+    return redactText(value, options)
+  }
+
+  if (value instanceof CPF) {
+    return options.cpf ? options.cpf(value) : value.masked
+  }
+
+  if (value instanceof Email) {
+    return options.email ? options.email(value) : value.masked
+  }
+
+  if (value instanceof FullName) {
+    return options.name ? options.name(value) : value.masked
+  }
+
+  if (value === null || typeof value !== 'object' || value instanceof Date) {
+    return value
+  }
+
+  if (seen.has(value)) {
+    return seen.get(value)
+  }
+
+  if (Array.isArray(value)) {
+    const result: unknown[] = []
+    seen.set(value, result)
+    value.forEach((item) => result.push(redactValue(item, options, seen)))
+    return result
+  }
+
+  if (value instanceof Map) {
+    const result = new Map<unknown, unknown>()
+    seen.set(value, result)
+    value.forEach((item, key) => result.set(key, redactValue(item, options, seen)))
+    return result
+  }
+
+  if (value instanceof Set) {
+    const result = new Set<unknown>()
+    seen.set(value, result)
+    value.forEach((item) => result.add(redactValue(item, options, seen)))
+    return result
+  }
+
+  const result: Record<string, unknown> = {}
+  seen.set(value, result)
+
+  // Nome, mensagem e pilha de erros não são enumeráveis, mas costumam conter a entrada inválida
+  if (value instanceof Error) {
+    result.name = value.name
+    result.message = redactText(value.message, options)
+    result.stack = value.stack === undefined ? undefined : redactText(value.stack, options)
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = redactValue(item, options, seen)
+  }
+
+  return result
+}
+
+/**
+ * Remove CPFs e emails de valores arbitrários antes de registrá-los em logs.
+ * Textos são verificados por padrão e pelos dígitos verificadores; instâncias de `CPF`, `Email` e
+ * `FullName` são substituídas diretamente. Objetos, listas, mapas, conjuntos e erros são copiados
+ * sem alterar o original.
+ * @param value - Valor a ser percorrido.
+ * @param options - Substituições de cada tipo de dado.
+ * @returns {unknown} Cópia do valor sem os dados pessoais.
+ */
+export function redact(value: unknown, options: RedactOptions = {}): unknown {
+  return redactValue(value, options, new WeakMap())
+}
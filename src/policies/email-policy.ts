@@ -0,0 +1,167 @@
+import { createValidationIssue, toValidationResult, ValidationError } from '../errors'
+import { Email } from '../factories'
+import { ValidationErrorCode, ValidationOptions, ValidationResult } from '../types'
+import bundledDisposableDomains from './disposable-email-domains.json'
+
+/**
+ * Lista de domínios de email descartáveis distribuída com o pacote.
+ * É mantida como dado em `disposable-email-domains.json` e não depende de acesso à rede.
+ */
+export const disposableEmailDomains: readonly string[] = bundledDisposableDomains
+
+/**
+ * Opções de uma política de domínios de email.
+ * Os domínios podem ser exatos (`empresa.com.br`) ou curingas de subdomínio (`*.empresa.com.br`),
+ * que aceitam qualquer subdomínio, mas não o próprio domínio.
+ */
+export interface EmailPolicyOptions {
+  /** Domínios permitidos. Quando informado, apenas esses domínios são aceitos. */
+  allow?: readonly string[]
+  /** Domínios bloqueados, rejeitados mesmo que estejam na lista de permitidos. */
+  block?: readonly string[]
+  /** Rejeita domínios descartáveis que não estejam na lista de permitidos. Padrão: true. */
+  blockDisposable?: boolean
+  /** Lista de domínios descartáveis. Padrão: `disposableEmailDomains`. */
+  disposableDomains?: readonly string[]
+}
+
+/**
+ * Política de domínios de email, com listas de permitidos e bloqueados e rejeição de domínios
+ * descartáveis. Útil para recusar endereços temporários ou exigir domínios corporativos.
+ */
+export class EmailPolicy {
+  /**
+   * Domínios permitidos, normalizados.
+   * @private
+   */
+  private readonly allow: readonly string[]
+
+  /**
+   * Domínios bloqueados, normalizados.
+   * @private
+   */
+  private readonly block: readonly string[]
+
+  /**
+   * Domínios descartáveis, vazio se a rejeição estiver desativada.
+   * @private
+   */
+  private readonly disposable: ReadonlySet<string>
+
+  /**
+   * Construtor da política.
+   * @param options - Listas de domínios permitidos, bloqueados e descartáveis.
+   */
+  public constructor(options: EmailPolicyOptions = {}) {
+    this.allow = (options.allow ?? []).map(EmailPolicy.normalize)
+    this.block = (options.block ?? []).map(EmailPolicy.normalize)
+    this.disposable = new Set(
+      options.blockDisposable === false
+        ? []
+        : (options.disposableDomains ?? disposableEmailDomains).map(EmailPolicy.normalize),
+    )
+  }
+
+  /**
+   * Normaliza um domínio ou padrão de domínio para comparação.
+   * @param domain - Domínio ou padrão.
+   * @returns {string} Domínio em minúsculas, sem espaços.
+   * @private
+   * @static
+   */
+  private static normalize(domain: string): string {
+    return domain.trim().toLowerCase()
+  }
+
+  /**
+   * Verifica se um domínio corresponde a um padrão exato ou curinga.
+   * @param domain - Domínio do email.
+   * @param pattern - Padrão normalizado.
+   * @returns {boolean} true se o domínio corresponder ao padrão.
+   * @private
+   * @static
+   */
+  private static matches(domain: string, pattern: string): boolean {
+    return pattern.startsWith('*.') ? domain.endsWith(pattern.slice(1)) : domain === pattern
+  }
+
+  /**
+   * Identifica o motivo pelo qual o domínio é recusado.
+   * @param domain - Domínio do email.
+   * @returns {ValidationErrorCode | undefined} Código do motivo ou undefined se o domínio for aceito.
+   * @private
+   */
+  private check(domain: string): ValidationErrorCode | undefined {
+    if (this.block.some((pattern) => EmailPolicy.matches(domain, pattern))) {
+      return ValidationErrorCode.EMAIL_DOMAIN_NOT_ALLOWED
+    }
+
+    // Domínios permitidos explicitamente não passam pela verificação de descartáveis
+    if (this.allow.length > 0) {
+      return this.allow.some((pattern) => EmailPolicy.matches(domain, pattern))
+        ? undefined
+        : ValidationErrorCode.EMAIL_DOMAIN_NOT_ALLOWED
+    }
+
+    if (this.isDisposable(domain)) {
+      return ValidationErrorCode.EMAIL_DISPOSABLE
+    }
+
+    return undefined
+  }
+
+  // -------------------------------------------------------------------------------------------------------------------
+
+  /**
+   * Verifica se um domínio, ou algum domínio acima dele, está na lista de descartáveis.
+   * @param domain - Domínio a ser verificado (ex: `caixa.mailinator.com`).
+   * @returns {boolean} true se o domínio for descartável.
+   */
+  public isDisposable(domain: string): boolean {
+    const labels = EmailPolicy.normalize(domain).split('.')
+    return labels.some((_, index) => this.disposable.has(labels.slice(index).join('.')))
+  }
+
+  /**
+   * Valida um email e garante que o seu domínio é aceito pela política.
+   * @param email - Email a ser validado, como instância ou string.
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @returns {Email} Instância do email aceito.
+   * @throws {ValidationError} Se o email for inválido ou o domínio for recusado, com o código
+   * `EMAIL_DOMAIN_NOT_ALLOWED` ou `EMAIL_DISPOSABLE`.
+   */
+  public validate(email: Email | string, options: ValidationOptions = {}): Email {
+    const instance = email instanceof Email ? email : new Email(email, options)
+    const domain = instance.getDomain()
+    const code = this.check(domain)
+
+    if (code) {
+      throw new ValidationError([
+        createValidationIssue(code, typeof email === 'string' ? email : email.raw, options, {
+          domain,
+        }),
+      ])
+    }
+
+    return instance
+  }
+
+  /**
+   * Valida um email sem lançar exceções.
+   * @param email - Email a ser validado, como instância ou string.
+   * @param options - Opções de validação, como o idioma das mensagens de erro.
+   * @returns {ValidationResult<Email>} Instância do email aceito ou lista de erros encontrados.
+   */
+  public parse(email: Email | string, options: ValidationOptions = {}): ValidationResult<Email> {
+    return toValidationResult(() => this.validate(email, options))
+  }
+
+  /**
+   * Verifica se um email é válido e aceito pela política.
+   * @param email - Email a ser verificado, como instância ou string.
+   * @returns {boolean} true se o email for aceito, false caso contrário.
+   */
+  public isAllowed(email: Email | string): boolean {
+    return this.parse(email).ok
+  }
+}
@@ -0,0 +1,126 @@
+import { promises as fs } from 'fs'
+
+import { UF } from '../types'
+
+/**
+ * Dados de endereço associados a um CEP.
+ * Cidades com CEP único não têm logradouro nem bairro.
+ */
+export interface CepRecord {
+  /** CEP, com ou sem formatação. */
+  cep: string
+  street?: string
+  neighborhood?: string
+  city: string
+  uf: UF
+  /** Complemento do logradouro associado ao CEP (ex: "lado ímpar"). */
+  complement?: string
+}
+
+/**
+ * Fonte de consulta de CEPs usada no preenchimento de endereços.
+ * Implementações podem consultar dados locais, bancos de dados ou serviços externos.
+ */
+export interface CepProvider {
+  /**
+   * Consulta os dados de um CEP.
+   * @param cep - CEP com 8 dígitos, sem formatação.
+   * @returns {Promise<CepRecord | undefined>} Dados do CEP ou undefined se não for encontrado.
+   */
+  lookup(cep: string): Promise<CepRecord | undefined>
+}
+
+/**
+ * Provedor de CEPs em memória, indicado para testes e ambientes sem acesso à rede.
+ */
+export class InMemoryCepProvider implements CepProvider {
+  /**
+   * Registros indexados pelo CEP, sem formatação.
+   * @private
+   */
+  private readonly records = new Map<string, CepRecord>()
+
+  /**
+   * Construtor do provedor em memória.
+   * @param records - Registros iniciais.
+   */
+  public constructor(records: readonly CepRecord[] = []) {
+    records.forEach((record) => this.set(record))
+  }
+
+  // -------------------------------------------------------------------------------------------------------------------
+
+  /**
+   * Adiciona ou substitui o registro de um CEP.
+   * @param record - Dados do CEP.
+   */
+  public set(record: CepRecord): void {
+    this.records.set(record.cep.replace(/\D/g, ''), record)
+  }
+
+  public async lookup(cep: string): Promise<CepRecord | undefined> {
+    return this.records.get(cep.replace(/\D/g, ''))
+  }
+}
+
+/**
+ * Provedor de CEPs que lê os registros de um arquivo JSON com uma lista de `CepRecord`.
+ * O arquivo é lido na primeira consulta e mantido em memória.
+ */
+export class JsonFileCepProvider implements CepProvider {
+  /**
+   * Caminho do arquivo JSON.
+   * @private
+   */
+  private readonly path: string
+
+  /**
+   * Registros carregados do arquivo, compartilhados entre consultas simultâneas.
+   * @private
+   */
+  private provider?: Promise<InMemoryCepProvider>
+
+  /**
+   * Construtor do provedor baseado em arquivo.
+   * @param path - Caminho do arquivo JSON.
+   */
+  public constructor(path: string) {
+    this.path = path
+  }
+
+  /**
+   * Lê e interpreta o arquivo de registros.
+   * @returns {Promise<InMemoryCepProvider>} Registros carregados.
+   * @throws {TypeError} Se o arquivo não contiver uma lista de registros.
+   * @private
+   */
+  private async load(): Promise<InMemoryCepProvider> {
+    const records: unknown = JSON.parse(await fs.readFile(this.path, 'utf8'))
+
+    if (!Array.isArray(records)) {
+      throw new TypeError(`O arquivo ${this.path} deve conter uma lista de CEPs`)
+    }
+
+    return new InMemoryCepProvider(records as CepRecord[])
+  }
+
+  // -------------------------------------------------------------------------------------------------------------------
+
+  /**
+   * Consulta os dados de um CEP, lendo o arquivo na primeira chamada.
+   * Se a leitura falhar, a próxima consulta tenta ler o arquivo novamente.
+   * @param cep - CEP com 8 dígitos, sem formatação.
+   * @returns {Promise<CepRecord | undefined>} Dados do CEP ou undefined se não for encontrado.
+   * @throws {Error} Se o arquivo não puder ser lido ou não for um JSON válido.
+   */
+  public async lookup(cep: string): Promise<CepRecord | undefined> {
+    this.provider ??= this.load()
+
+    try {
+      return await (await this.provider).lookup(cep)
+    } catch (error) {
+      this.provider = undefined
+      throw error
+    }
+  }
+}
@@ -0,0 +1,401 @@
+import { RepositoryError } from '../errors'
+import { RepositoryErrorCode } from '../types'
+import {
+  EntityChanges,
+  FieldFilter,
+  FieldOperators,
+  Filter,
+  FindManyQuery,
+  NewEntity,
+  Page,
+  Repository,
+  SortOrder,
+  VersionedEntity,
+  WriteOptions,
+} from './repository'
+
+/**
+ * Opções de configuração do repositório em memória.
+ */
+export interface InMemoryRepositoryOptions<T> {
+  /**
+   * Restrições de unicidade nomeadas, cada uma extraindo a chave a ser comparada
+   * (ex: `{ cpf: (employee) => employee.cpf.raw }`). Chaves nulas ou indefinidas são ignoradas.
+   */
+  unique?: Record<string, (entity: T) => unknown>
+}
+
+/**
+ * Operadores reconhecidos no filtro de um campo.
+ */
+const operators: readonly (keyof FieldOperators<unknown>)[] = [
+  'eq',
+  'ne',
+  'in',
+  'nin',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'contains',
+]
+
+/**
+ * Converte um valor para a forma usada em comparações.
+ * Objetos de valor são comparados pelo `raw` e datas pelo instante.
+ * @param value - Valor a ser convertido.
+ * @returns {unknown} Valor comparável.
+ */
+function toComparable(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.getTime()
+  }
+
+  if (value !== null && typeof value === 'object' && 'raw' in value) {
+    return (value as { raw: unknown }).raw
+  }
+
+  return value
+}
+
+/**
+ * Compara dois valores já convertidos; valores nulos ou indefinidos vêm primeiro.
+ * @param a - Primeiro valor.
+ * @param b - Segundo valor.
+ * @returns {number} Negativo se a < b, positivo se a > b e zero se forem iguais.
+ */
+function compareValues(a: unknown, b: unknown): number {
+  // Nulos e indefinidos são equivalentes, pois o cursor serializado em JSON converte undefined em null
+  if ((a ?? null) === (b ?? null)) {
+    return 0
+  }
+
+  if (a === null || a === undefined) {
+    return -1
+  }
+
+  if (b === null || b === undefined) {
+    return 1
+  }
+
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.localeCompare(b, 'pt-BR')
+  }
+
+  return (a as number) < (b as number) ? -1 : (a as number) > (b as number) ? 1 : 0
+}
+
+/**
+ * Verifica se o filtro de um campo é um conjunto de operadores.
+ * @param filter - Filtro a ser verificado.
+ * @returns {boolean} true se o filtro for um objeto simples contendo apenas operadores.
+ */
+function isOperators<V>(filter: FieldFilter<V>): filter is FieldOperators<V> {
+  if (filter === null || typeof filter !== 'object') {
+    return false
+  }
+
+  const prototype = Object.getPrototypeOf(filter)
+  const keys = Object.keys(filter)
+  return (
+    (prototype === Object.prototype || prototype === null) &&
+    keys.length > 0 &&
+    keys.every((key) => (operators as string[]).includes(key))
+  )
+}
+
+/**
+ * Verifica se o valor de um campo satisfaz o filtro.
+ * @param value - Valor do campo.
+ * @param filter - Filtro do campo.
+ * @returns {boolean} true se o valor satisfizer o filtro, false caso contrário.
+ */
+function matchesField<V>(value: V, filter: FieldFilter<V>): boolean {
+  if (typeof filter === 'function') {
+    return (filter as (value: V) => boolean)(value)
+  }
+
+  const current = toComparable(value)
+
+  if (!isOperators(filter)) {
+    return compareValues(current, toComparable(filter)) === 0
+  }
+
+  const { eq, ne, in: included, nin, gt, gte, lt, lte, contains } = filter
+  const compare = (other: V) => compareValues(current, toComparable(other))
+
+  return (
+    (eq === undefined || compare(eq) === 0) &&
+    (ne === undefined || compare(ne) !== 0) &&
+    (included === undefined || included.some((other) => compare(other) === 0)) &&
+    (nin === undefined || nin.every((other) => compare(other) !== 0)) &&
+    (gt === undefined || compare(gt) > 0) &&
+    (gte === undefined || compare(gte) >= 0) &&
+    (lt === undefined || compare(lt) < 0) &&
+    (lte === undefined || compare(lte) <= 0) &&
+    (contains === undefined ||
+      String(current ?? '')
+        .toLowerCase()
+        .includes(contains.toLowerCase()))
+  )
+}
+
+/**
+ * Repositório CRUD em memória que implementa fielmente o contrato `Repository`.
+ * Indicado para testes e protótipos; aplica unicidade e concorrência otimista como um banco faria.
+ */
+export class InMemoryRepository<T extends VersionedEntity<Id>, Id> implements Repository<T, Id> {
+  /**
+   * Entidades armazenadas, indexadas pelo id.
+   * @private
+   */
+  private readonly entities = new Map<Id, T>()
+
+  /**
+   * Restrições de unicidade configuradas.
+   * @private
+   */
+  private readonly unique: Record<string, (entity: T) => unknown>
+
+  /**
+   * Construtor do repositório em memória.
+   * @param options - Restrições de unicidade.
+   */
+  public constructor(options: InMemoryRepositoryOptions<T> = {}) {
+    this.unique = options.unique ?? {}
+  }
+
+  /**
+   * Garante que a entidade não viola nenhuma restrição de unicidade.
+   * @param entity - Entidade a ser verificada.
+   * @throws {RepositoryError} Com `UNIQUE_CONSTRAINT` se outra entidade tiver a mesma chave.
+   * @private
+   */
+  private assertUnique(entity: T): void {
+    for (const [name, extract] of Object.entries(this.unique)) {
+      const key = toComparable(extract(entity))
+      if (key === null || key === undefined) {
+        continue
+      }
+
+      for (const other of this.entities.values()) {
+        if (other.id !== entity.id && compareValues(toComparable(extract(other)), key) === 0) {
+          throw new RepositoryError(
+            RepositoryErrorCode.UNIQUE_CONSTRAINT,
+            `Já existe um registro com o mesmo valor para a restrição única "${name}"`,
+          )
+        }
+      }
+    }
+  }
+
+  /**
+   * Garante que a versão armazenada é a esperada.
+   * @param stored - Entidade armazenada.
+   * @param options - Opções de escrita com a versão esperada.
+   * @throws {RepositoryError} Com `VERSION_CONFLICT` se as versões forem diferentes.
+   * @private
+   */
+  private assertVersion(stored: T, options: WriteOptions): void {
+    if (options.expectedVersion !== undefined && options.expectedVersion !== stored.version) {
+      throw new RepositoryError(
+        RepositoryErrorCode.VERSION_CONFLICT,
+        `Versão esperada ${options.expectedVersion}, mas a versão armazenada é ${stored.version}`,
+      )
+    }
+  }
+
+  /**
+   * Verifica se a entidade satisfaz o filtro.
+   * @param entity - Entidade a ser verificada.
+   * @param where - Filtro da consulta.
+   * @returns {boolean} true se todos os campos do filtro forem satisfeitos.
+   * @private
+   */
+  private matches(entity: T, where: Filter<T>): boolean {
+    return (Object.keys(where) as (keyof T)[]).every((field) => {
+      const filter = where[field]
+      return filter === undefined || matchesField(entity[field], filter)
+    })
+  }
+
+  /**
+   * Retorna as chaves de ordenação de uma entidade, com o id como critério de desempate.
+   * @param entity - Entidade.
+   * @param orderBy - Ordenação da consulta.
+   * @returns {unknown[]} Valores comparáveis dos campos ordenados seguidos do id.
+   * @private
+   */
+  private sortKeys(entity: T, orderBy: SortOrder<T>[]): unknown[] {
+    return [...orderBy.map(({ field }) => toComparable(entity[field])), entity.id]
+  }
+
+  /**
+   * Compara duas listas de chaves de ordenação.
+   * @param a - Chaves da primeira entidade.
+   * @param b - Chaves da segunda entidade.
+   * @param orderBy - Ordenação da consulta.
+   * @returns {number} Negativo se a vier antes de b, positivo se vier depois.
+   * @private
+   */
+  private compareKeys(a: unknown[], b: unknown[], orderBy: SortOrder<T>[]): number {
+    for (let i = 0; i < a.length; i++) {
+      const result = compareValues(a[i], b[i])
+      if (result !== 0) {
+        return orderBy[i]?.direction === 'desc' ? -result : result
+      }
+    }
+    return 0
+  }
+
+  /**
+   * Decodifica um cursor de paginação.
+   * @param cursor - Cursor retornado por uma consulta anterior.
+   * @param orderBy - Ordenação da consulta.
+   * @returns {unknown[]} Chaves de ordenação do último item da página anterior.
+   * @throws {RepositoryError} Com `INVALID_CURSOR` se o cursor for inválido para a ordenação.
+   * @private
+   */
+  private decodeCursor(cursor: string, orderBy: SortOrder<T>[]): unknown[] {
+    try {
+      const keys = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+      if (Array.isArray(keys) && keys.length === orderBy.length + 1) {
+        return keys
+      }
+    } catch {
+      // Tratado abaixo como cursor inválido
+    }
+
+    throw new RepositoryError(RepositoryErrorCode.INVALID_CURSOR, 'Cursor de paginação inválido')
+  }
+
+  // -------------------------------------------------------------------------------------------------------------------
+
+  /**
+   * Armazena uma nova entidade com a versão 1.
+   * @param data - Dados da entidade, incluindo o id e sem a versão.
+   * @returns {Promise<T>} Cópia da entidade armazenada.
+   * @throws {RepositoryError} Com `DUPLICATE_ID` se o id já existir ou `UNIQUE_CONSTRAINT` se a
+   * entidade violar uma restrição de unicidade.
+   */
+  public async create(data: NewEntity<T>): Promise<T> {
+    const entity = { ...data, version: 1 } as T
+
+    if (this.entities.has(entity.id)) {
+      throw new RepositoryError(
+        RepositoryErrorCode.DUPLICATE_ID,
+        `Já existe um registro com o id ${String(entity.id)}`,
+      )
+    }
+
+    this.assertUnique(entity)
+    this.entities.set(entity.id, entity)
+    return { ...entity }
+  }
+
+  /**
+   * Busca uma entidade pelo id.
+   * @param id - Id da entidade.
+   * @returns {Promise<T | null>} Cópia da entidade ou null se não existir.
+   */
+  public async findById(id: Id): Promise<T | null> {
+    const entity = this.entities.get(id)
+    return entity ? { ...entity } : null
+  }
+
+  /**
+   * Busca as entidades que satisfazem o filtro, com ordenação e paginação por offset ou cursor.
+   * O cursor é o JSON, codificado em base64url, das chaves de ordenação do último item retornado
+   * seguidas do seu id; só é válido para consultas com a mesma ordenação.
+   * @param query - Filtro, ordenação, limite, offset e cursor da consulta.
+   * @returns {Promise<Page<T>>} Itens da página, total de itens filtrados e cursor da próxima página,
+   * ou null se não houver mais itens.
+   * @throws {RepositoryError} Com `INVALID_CURSOR` se o cursor for inválido para a ordenação.
+   */
+  public async findMany(query: FindManyQuery<T> = {}): Promise<Page<T>> {
+    const orderBy = query.orderBy === undefined ? [] : [query.orderBy].flat()
+    const where = query.where ?? {}
+
+    const filtered = [...this.entities.values()]
+      .filter((entity) => this.matches(entity, where))
+      .map((entity) => ({ entity, keys: this.sortKeys(entity, orderBy) }))
+      .sort((a, b) => this.compareKeys(a.keys, b.keys, orderBy))
+
+    // O cursor indica o último item já retornado; a página começa logo após ele
+    let start = 0
+    if (query.cursor !== undefined) {
+      const cursorKeys = this.decodeCursor(query.cursor, orderBy)
+      const index = filtered.findIndex(
+        ({ keys }) => this.compareKeys(keys, cursorKeys, orderBy) > 0,
+      )
+      start = index === -1 ? filtered.length : index
+    }
+
+    start += query.offset ?? 0
+    const end = query.limit === undefined ? filtered.length : start + query.limit
+    const page = filtered.slice(start, end)
+    const last = page[page.length - 1]
+
+    return {
+      items: page.map(({ entity }) => ({ ...entity })),
+      total: filtered.length,
+      nextCursor:
+        last && end < filtered.length
+          ? Buffer.from(JSON.stringify(last.keys)).toString('base64url')
+          : null,
+    }
+  }
+
+  /**
+   * Altera uma entidade, incrementando a sua versão.
+   * @param id - Id da entidade.
+   * @param changes - Campos a serem alterados; o id e a versão não podem ser alterados.
+   * @param options - Versão esperada, para concorrência otimista.
+   * @returns {Promise<T>} Cópia da entidade alterada.
+   * @throws {RepositoryError} Com `NOT_FOUND` se a entidade não existir, `VERSION_CONFLICT` se a
+   * versão armazenada for diferente da esperada ou `UNIQUE_CONSTRAINT` se a alteração violar uma
+   * restrição de unicidade.
+   */
+  public async update(id: Id, changes: EntityChanges<T>, options: WriteOptions = {}): Promise<T> {
+    const stored = this.entities.get(id)
+    if (!stored) {
+      throw new RepositoryError(
+        RepositoryErrorCode.NOT_FOUND,
+        `Registro com o id ${String(id)} não encontrado`,
+      )
+    }
+
+    this.assertVersion(stored, options)
+
+    const entity = { ...stored, ...changes, id, version: stored.version + 1 } as T
+    this.assertUnique(entity)
+    this.entities.set(id, entity)
+    return { ...entity }
+  }
+
+  /**
+   * Remove uma entidade.
+   * @param id - Id da entidade.
+   * @param options - Versão esperada, para concorrência otimista.
+   * @returns {Promise<boolean>} true se a entidade foi removida, false se não existir.
+   * @throws {RepositoryError} Com `VERSION_CONFLICT` se a versão armazenada for diferente da esperada.
+   */
+  public async delete(id: Id, options: WriteOptions = {}): Promise<boolean> {
+    const stored = this.entities.get(id)
+    if (!stored) {
+      return false
+    }
+
+    this.assertVersion(stored, options)
+    return this.entities.delete(id)
+  }
+
+  /**
+   * Conta as entidades que satisfazem o filtro.
+   * @param where - Filtro da contagem. Quando omitido, conta todas as entidades.
+   * @returns {Promise<number>} Quantidade de entidades.
+   */
+  public async count(where: Filter<T> = {}): Promise<number> {
+    return [...this.entities.values()].filter((entity) => this.matches(entity, where)).length
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Contrato mínimo das entidades armazenadas em um repositório.
+ * O campo `version` é controlado pelo repositório e usado na concorrência otimista.
+ */
+export interface VersionedEntity<Id> {
+  id: Id
+  version: number
+}
+
+/**
+ * Dados aceitos na criação de uma entidade; a versão é atribuída pelo repositório.
+ */
+export type NewEntity<T> = Omit<T, 'version'>
+
+/**
+ * Alterações aceitas na atualização de uma entidade; id e versão não podem ser alterados.
+ */
+export type EntityChanges<T> = Partial<Omit<T, 'id' | 'version'>>
+
+/**
+ * Operadores de comparação aceitos no filtro de um campo.
+ */
+export interface FieldOperators<V> {
+  eq?: V
+  ne?: V
+  in?: V[]
+  nin?: V[]
+  gt?: V
+  gte?: V
+  lt?: V
+  lte?: V
+  /** Busca por trecho de texto, sem diferenciar maiúsculas. */
+  contains?: string
+}
+
+/**
+ * Filtro de um campo: um valor exato, um conjunto de operadores ou uma função de teste.
+ * Objetos de valor são comparados pelo `raw` e datas pelo instante.
+ */
+export type FieldFilter<V> = V | FieldOperators<V> | ((value: V) => boolean)
+
+/**
+ * Filtro tipado de entidades; todos os campos informados devem ser satisfeitos.
+ */
+export type Filter<T> = { [K in keyof T]?: FieldFilter<T[K]> }
+
+/**
+ * Ordenação por um campo da entidade.
+ */
+export interface SortOrder<T> {
+  field: keyof T
+  direction?: 'asc' | 'desc'
+}
+
+/**
+ * Consulta de várias entidades com filtro, ordenação e paginação por deslocamento ou cursor.
+ */
+export interface FindManyQuery<T> {
+  where?: Filter<T>
+  orderBy?: SortOrder<T> | SortOrder<T>[]
+  /** Quantidade máxima de itens retornados. */
+  limit?: number
+  /** Quantidade de itens ignorados, aplicada após o cursor. */
+  offset?: number
+  /** Cursor retornado em `nextCursor` por uma consulta anterior com a mesma ordenação. */
+  cursor?: string
+}
+
+/**
+ * Página de resultados de uma consulta.
+ */
+export interface Page<T> {
+  items: T[]
+  /** Total de entidades que satisfazem o filtro, independentemente da paginação. */
+  total: number
+  /** Cursor para a próxima página ou null se não houver mais itens. */
+  nextCursor: string | null
+}
+
+/**
+ * Opções de escrita com concorrência otimista.
+ */
+export interface WriteOptions {
+  /** Versão esperada da entidade; a operação falha se a versão armazenada for outra. */
+  expectedVersion?: number
+}
+
+/**
+ * Contrato genérico de repositório CRUD.
+ */
+export interface Repository<T extends VersionedEntity<Id>, Id> {
+  /**
+   * Armazena uma nova entidade com a versão 1.
+   * @throws {RepositoryError} Com `DUPLICATE_ID` ou `UNIQUE_CONSTRAINT`.
+   */
+  create(data: NewEntity<T>): Promise<T>
+
+  /** Retorna a entidade com o id informado ou null se não existir. */
+  findById(id: Id): Promise<T | null>
+
+  /** Retorna as entidades que satisfazem a consulta. */
+  findMany(query?: FindManyQuery<T>): Promise<Page<T>>
+
+  /**
+   * Aplica alterações a uma entidade e incrementa a sua versão.
+   * @throws {RepositoryError} Com `NOT_FOUND`, `VERSION_CONFLICT` ou `UNIQUE_CONSTRAINT`.
+   */
+  update(id: Id, changes: EntityChanges<T>, options?: WriteOptions): Promise<T>
+
+  /**
+   * Remove uma entidade, retornando false se ela não existir.
+   * @throws {RepositoryError} Com `VERSION_CONFLICT`.
+   */
+  delete(id: Id, options?: WriteOptions): Promise<boolean>
+
+  /** Conta as entidades que satisfazem o filtro. */
+  count(where?: Filter<T>): Promise<number>
+}
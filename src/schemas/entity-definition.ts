@@ -0,0 +1,256 @@
+import { z } from 'zod'
+
+import {
+  birthDateSchema,
+  brDateSchema,
+  cnhSchema,
+  cnpjSchema,
+  cpfSchema,
+  ctpsSchema,
+  emailSchema,
+  employeeStatusSchema,
+  fullNameSchema,
+  moneySchema,
+  phoneSchema,
+  pisSchema,
+  tituloEleitorSchema,
+} from './value-objects'
+
+/**
+ * Marcadores de um campo da definição de entidade.
+ */
+export interface FieldFlags {
+  /** Informado na criação, mas não pode ser alterado depois. */
+  readonly: boolean
+  /** Gerado pelo sistema (ex: id, datas de controle); não é aceito na criação nem na atualização. */
+  generated: boolean
+  /** Pode ser omitido na criação e na leitura. */
+  optional: boolean
+}
+
+/**
+ * Marcadores padrão: campo obrigatório, editável e informado pelo cliente.
+ */
+export interface DefaultFieldFlags extends FieldFlags {
+  readonly: false
+  generated: false
+  optional: false
+}
+
+/**
+ * Substitui o valor de um marcador, preservando os demais.
+ */
+type WithFlag<F extends FieldFlags, K extends keyof FieldFlags> = {
+  [P in keyof F]: P extends K ? true : F[P]
+}
+
+/**
+ * Campo de uma definição de entidade: o schema que valida o valor e os seus marcadores.
+ */
+export class FieldDefinition<S extends z.ZodTypeAny, F extends FieldFlags = DefaultFieldFlags> {
+  /**
+   * Schema que valida e transforma o valor do campo.
+   */
+  public readonly schema: S
+
+  /**
+   * Marcadores do campo.
+   */
+  public readonly flags: F
+
+  /**
+   * Construtor para criação de campos; prefira as fábricas de `field`.
+   * @param schema - Schema que valida e transforma o valor do campo.
+   * @param flags - Marcadores do campo.
+   */
+  public constructor(schema: S, flags: F) {
+    this.schema = schema
+    this.flags = flags
+  }
+
+  /**
+   * Marca o campo como somente leitura após a criação.
+   * @returns {FieldDefinition} Novo campo com o marcador aplicado.
+   */
+  public readonly(): FieldDefinition<S, WithFlag<F, 'readonly'>> {
+    return new FieldDefinition(this.schema, { ...this.flags, readonly: true } as WithFlag<
+      F,
+      'readonly'
+    >)
+  }
+
+  /**
+   * Marca o campo como gerado pelo sistema.
+   * @returns {FieldDefinition} Novo campo com o marcador aplicado.
+   */
+  public generated(): FieldDefinition<S, WithFlag<F, 'generated'>> {
+    return new FieldDefinition(this.schema, { ...this.flags, generated: true } as WithFlag<
+      F,
+      'generated'
+    >)
+  }
+
+  /**
+   * Marca o campo como opcional.
+   * @returns {FieldDefinition} Novo campo com o marcador aplicado.
+   */
+  public optional(): FieldDefinition<S, WithFlag<F, 'optional'>> {
+    return new FieldDefinition(this.schema, { ...this.flags, optional: true } as WithFlag<
+      F,
+      'optional'
+    >)
+  }
+}
+
+/**
+ * Cria um campo com os marcadores padrão.
+ * @param schema - Schema que valida e transforma o valor do campo.
+ * @returns {FieldDefinition} Campo obrigatório e editável.
+ */
+function createField<S extends z.ZodTypeAny>(schema: S): FieldDefinition<S> {
+  return new FieldDefinition(schema, { readonly: false, generated: false, optional: false })
+}
+
+/**
+ * Fábricas dos campos aceitos em uma definição de entidade.
+ */
+export const field = {
+  cpf: () => createField(cpfSchema),
+  cnpj: () => createField(cnpjSchema),
+  email: () => createField(emailSchema),
+  fullName: () => createField(fullNameSchema),
+  phone: () => createField(phoneSchema),
+  pis: () => createField(pisSchema),
+  tituloEleitor: () => createField(tituloEleitorSchema),
+  cnh: () => createField(cnhSchema),
+  ctps: () => createField(ctpsSchema),
+  brDate: () => createField(brDateSchema),
+  birthDate: () => createField(birthDateSchema),
+  money: () => createField(moneySchema),
+  employeeStatus: () => createField(employeeStatusSchema),
+  string: () => createField(z.string()),
+  number: () => createField(z.number()),
+  boolean: () => createField(z.boolean()),
+  /** Aceita instâncias de Date ou strings de data; produz sempre um Date. */
+  date: () =>
+    createField(
+      z.preprocess((value) => (typeof value === 'string' ? new Date(value) : value), z.date()),
+    ),
+  /** Aceita qualquer schema do zod. */
+  custom: <S extends z.ZodTypeAny>(schema: S) => createField(schema),
+}
+
+/**
+ * Conjunto de campos de uma definição de entidade.
+ */
+export type EntityFields = Record<string, FieldDefinition<z.ZodTypeAny, FieldFlags>>
+
+/**
+ * Schema de um campo, opcional quando o campo é marcado como tal.
+ */
+type FieldSchema<D> =
+  D extends FieldDefinition<infer S, infer F>
+    ? F['optional'] extends true
+      ? z.ZodOptional<S>
+      : S
+    : never
+
+/**
+ * Campos aceitos no payload de criação: todos, exceto os gerados.
+ */
+export type CreateShape<F extends EntityFields> = {
+  [K in keyof F as F[K]['flags']['generated'] extends true ? never : K]: FieldSchema<F[K]>
+}
+
+/**
+ * Campos aceitos no payload de atualização: todos opcionais, exceto os gerados e somente leitura.
+ */
+export type UpdateShape<F extends EntityFields> = {
+  [K in keyof F as F[K]['flags']['generated'] extends true
+    ? never
+    : F[K]['flags']['readonly'] extends true
+      ? never
+      : K]: z.ZodOptional<F[K]['schema']>
+}
+
+/**
+ * Campos do payload de leitura: todos os campos da entidade.
+ */
+export type ReadShape<F extends EntityFields> = { [K in keyof F]: FieldSchema<F[K]> }
+
+/**
+ * Definição de entidade com os validadores de cada payload.
+ */
+export interface EntityDefinition<F extends EntityFields> {
+  fields: F
+  /** Valida o payload de criação; campos desconhecidos, gerados ou não, são rejeitados. */
+  createSchema: z.ZodObject<CreateShape<F>, 'strict'>
+  /** Valida o payload de atualização parcial; campos somente leitura ou gerados são rejeitados. */
+  updateSchema: z.ZodObject<UpdateShape<F>, 'strict'>
+  /** Valida o payload de leitura completo. */
+  readSchema: z.ZodObject<ReadShape<F>>
+}
+
+/**
+ * Payload de criação já validado, com os objetos de valor instanciados.
+ */
+export type CreateDto<D extends EntityDefinition<EntityFields>> = z.output<D['createSchema']>
+
+/**
+ * Payload de atualização já validado, com os objetos de valor instanciados.
+ */
+export type UpdateDto<D extends EntityDefinition<EntityFields>> = z.output<D['updateSchema']>
+
+/**
+ * Payload de leitura, com os objetos de valor instanciados.
+ */
+export type ReadDto<D extends EntityDefinition<EntityFields>> = z.output<D['readSchema']>
+
+/**
+ * Payload de criação bruto, antes da validação (ex: CPF como string).
+ */
+export type CreateInput<D extends EntityDefinition<EntityFields>> = z.input<D['createSchema']>
+
+/**
+ * Payload de atualização bruto, antes da validação.
+ */
+export type UpdateInput<D extends EntityDefinition<EntityFields>> = z.input<D['updateSchema']>
+
+/**
+ * Payload de leitura bruto, antes da validação.
+ */
+export type ReadInput<D extends EntityDefinition<EntityFields>> = z.input<D['readSchema']>
+
+/**
+ * Cria uma definição de entidade a partir dos seus campos.
+ * Os tipos e validadores de criação, atualização e leitura são derivados da mesma definição.
+ * @param fields - Campos da entidade.
+ * @returns {EntityDefinition} Definição com os validadores de cada payload.
+ */
+export function defineEntity<F extends EntityFields>(fields: F): EntityDefinition<F> {
+  const createShape: z.ZodRawShape = {}
+  const updateShape: z.ZodRawShape = {}
+  const readShape: z.ZodRawShape = {}
+
+  for (const [name, definition] of Object.entries(fields)) {
+    const schema = definition.flags.optional ? definition.schema.optional() : definition.schema
+    readShape[name] = schema
+
+    if (definition.flags.generated) {
+      continue
+    }
+
+    createShape[name] = schema
+
+    if (!definition.flags.readonly) {
+      updateShape[name] = definition.schema.optional()
+    }
+  }
+
+  return {
+    fields,
+    createSchema: z.object(createShape).strict() as EntityDefinition<F>['createSchema'],
+    updateSchema: z.object(updateShape).strict() as EntityDefinition<F>['updateSchema'],
+    readSchema: z.object(readShape) as EntityDefinition<F>['readSchema'],
+  }
+}
@@ -0,0 +1,2 @@
+export * from './value-objects'
+export * from './entity-definition'
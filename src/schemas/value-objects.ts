@@ -0,0 +1,135 @@
+import { z } from 'zod'
+
+import { ValidationError } from '../errors'
+import {
+  BirthDate,
+  BrDate,
+  CNH,
+  CNPJ,
+  CPF,
+  CTPS,
+  Email,
+  FullName,
+  Money,
+  Phone,
+  PIS,
+  TituloEleitor,
+} from '../factories'
+import { EmployeeStatus, ValidationErrorCode, ValidationIssue, ValidationResult } from '../types'
+
+/**
+ * Adiciona ao contexto do zod os problemas encontrados por um objeto de valor.
+ * O código de cada problema fica disponível em `params.code` e os valores interpolados na mensagem,
+ * em `params.values`, permitindo traduzir a mensagem novamente.
+ * @param ctx - Contexto de refinamento do zod.
+ * @param issues - Problemas encontrados durante a validação.
+ */
+function addIssues(ctx: z.RefinementCtx, issues: ValidationIssue[]): void {
+  for (const issue of issues) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: issue.message,
+      params: { code: issue.code, values: issue.values },
+    })
+  }
+}
+
+/**
+ * Cria um schema que recebe uma string e a transforma em uma instância do objeto de valor.
+ * @param parse - Método `parse` do objeto de valor.
+ * @returns {z.ZodType} Schema que produz a instância do objeto de valor.
+ */
+function valueObjectSchema<T>(
+  parse: (input: string) => ValidationResult<T>,
+): z.ZodEffects<z.ZodString, T, string> {
+  return z.string().transform((input, ctx) => {
+    const result = parse(input)
+
+    if (!result.ok) {
+      addIssues(ctx, result.errors)
+      return z.NEVER
+    }
+
+    return result.value
+  })
+}
+
+/**
+ * Schema que valida um CPF, com ou sem pontuação, e produz uma instância de `CPF`.
+ */
+export const cpfSchema = valueObjectSchema((input) => CPF.parse(input))
+
+/**
+ * Schema que valida um CNPJ, com ou sem pontuação, e produz uma instância de `CNPJ`.
+ */
+export const cnpjSchema = valueObjectSchema((input) => CNPJ.parse(input))
+
+/**
+ * Schema que valida um email e produz uma instância de `Email`.
+ */
+export const emailSchema = valueObjectSchema((input) => Email.parse(input))
+
+/**
+ * Schema que valida um nome completo e produz uma instância de `FullName`.
+ */
+export const fullNameSchema = valueObjectSchema((input) => FullName.parse(input))
+
+/**
+ * Schema que valida um telefone, com ou sem formatação, e produz uma instância de `Phone`.
+ */
+export const phoneSchema = valueObjectSchema((input) => Phone.parse(input))
+
+/**
+ * Schema que valida um PIS/PASEP/NIT, com ou sem pontuação, e produz uma instância de `PIS`.
+ */
+export const pisSchema = valueObjectSchema((input) => PIS.parse(input))
+
+/**
+ * Schema que valida um título de eleitor e produz uma instância de `TituloEleitor`.
+ */
+export const tituloEleitorSchema = valueObjectSchema((input) => TituloEleitor.parse(input))
+
+/**
+ * Schema que valida o número de registro de uma CNH e produz uma instância de `CNH`.
+ */
+export const cnhSchema = valueObjectSchema((input) => CNH.parse(input))
+
+/**
+ * Schema que valida o número e a série de uma CTPS e produz uma instância de `CTPS`.
+ */
+export const ctpsSchema = valueObjectSchema((input) => CTPS.parse(input))
+
+/**
+ * Schema que valida uma data no formato dd/mm/aaaa ou ISO e produz uma instância de `BrDate`.
+ */
+export const brDateSchema = valueObjectSchema((input) => BrDate.parse(input))
+
+/**
+ * Schema que valida uma data de nascimento, exigindo a idade mínima para o trabalho na data atual,
+ * e produz uma instância de `BirthDate`.
+ */
+export const birthDateSchema = valueObjectSchema((input) => BirthDate.parse(input))
+
+/**
+ * Schema que valida um valor em reais, como `R$ 1.234,56` ou `1234.56`, e produz uma instância de
+ * `Money`.
+ */
+export const moneySchema = valueObjectSchema((input) => Money.parse(input))
+
+/**
+ * Schema que valida um status de funcionário.
+ * Aceita tanto o valor ('Férias') quanto o nome da chave ('VACATION'), sem diferenciar maiúsculas.
+ */
+export const employeeStatusSchema = z.string().transform((input, ctx) => {
+  const normalized = input.trim().toLowerCase()
+  const status = (Object.keys(EmployeeStatus) as (keyof typeof EmployeeStatus)[]).find(
+    (key) => key.toLowerCase() === normalized || EmployeeStatus[key].toLowerCase() === normalized,
+  )
+
+  if (!status) {
+    ctx.addIssue(ValidationError.toZodIssue(ValidationErrorCode.EMPLOYEE_STATUS_INVALID))
+    return z.NEVER
+  }
+
+  return EmployeeStatus[status]
+})
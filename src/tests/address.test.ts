@@ -0,0 +1,134 @@
+import { ValidationError } from '../errors'
+import { Address, AddressInput, CEP } from '../factories'
+import { InMemoryCepProvider } from '../providers'
+import { UF, ValidationErrorCode } from '../types'
+
+describe('Address', () => {
+  const input: AddressInput = {
+    street: '  Avenida   Paulista ',
+    number: '1000',
+    complement: 'Apto 12',
+    neighborhood: 'Bela Vista',
+    city: 'São Paulo',
+    uf: 'sp',
+    cep: '01310-100',
+  }
+
+  describe('create', () => {
+    it('deve criar um endereço normalizado', () => {
+      const address = Address.create(input)
+
+      expect(address.street).toBe('Avenida Paulista')
+      expect(address.uf).toBe(UF.SP)
+      expect(address.cep).toBeInstanceOf(CEP)
+      expect(address.formatted).toBe(
+        'Avenida Paulista, 1000, Apto 12 - Bela Vista, São Paulo - SP, 01310-100',
+      )
+    })
+
+    it('deve aceitar endereços sem complemento', () => {
+      const address = Address.create({ ...input, complement: ' ', cep: new CEP('01310100') })
+
+      expect(address.complement).toBeUndefined()
+      expect(address.formatted).toBe(
+        'Avenida Paulista, 1000 - Bela Vista, São Paulo - SP, 01310-100',
+      )
+    })
+
+    it('deve rejeitar um CEP de outro estado', () => {
+      expect(() => Address.create({ ...input, uf: UF.RJ })).toThrow(
+        expect.objectContaining({ code: ValidationErrorCode.ADDRESS_CEP_UF_MISMATCH }),
+      )
+      expect(() => Address.create({ ...input, uf: UF.RJ })).toThrow(
+        'O CEP 01310-100 não pertence ao estado RJ',
+      )
+    })
+
+    it('deve reportar todos os campos inválidos', () => {
+      const result = Address.parse({
+        ...input,
+        street: '',
+        neighborhood: '   ',
+        uf: 'XX',
+        cep: '123',
+      })
+
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.errors.map((issue) => [issue.field, issue.code])).toEqual([
+          ['street', ValidationErrorCode.ADDRESS_FIELD_REQUIRED],
+          ['neighborhood', ValidationErrorCode.ADDRESS_FIELD_REQUIRED],
+          ['uf', ValidationErrorCode.ADDRESS_INVALID_UF],
+          ['cep', ValidationErrorCode.CEP_INVALID_FORMAT],
+        ])
+        expect(result.errors[0].message).toBe('O campo street é obrigatório')
+      }
+    })
+
+    it('deve lançar ValidationError', () => {
+      expect(() => Address.create({ ...input, city: '' })).toThrow(ValidationError)
+    })
+  })
+
+  describe('fromCep', () => {
+    const provider = new InMemoryCepProvider([
+      {
+        cep: '01310-100',
+        street: 'Avenida Paulista',
+        neighborhood: 'Bela Vista',
+        city: 'São Paulo',
+        uf: UF.SP,
+      },
+      { cep: '69900-000', city: 'Rio Branco', uf: UF.AC },
+    ])
+
+    it('deve preencher o endereço a partir do CEP', async () => {
+      const address = await Address.fromCep('01310100', provider, {
+        number: '1000',
+        complement: 'Apto 12',
+      })
+
+      expect(address.toProps()).toEqual(
+        expect.objectContaining({
+          street: 'Avenida Paulista',
+          number: '1000',
+          neighborhood: 'Bela Vista',
+          city: 'São Paulo',
+          uf: UF.SP,
+        }),
+      )
+    })
+
+    it('deve exigir o logradouro em cidades com CEP único', async () => {
+      await expect(Address.fromCep('69900-000', provider, { number: '10' })).rejects.toThrow(
+        expect.objectContaining({ code: ValidationErrorCode.ADDRESS_FIELD_REQUIRED }),
+      )
+
+      const address = await Address.fromCep('69900-000', provider, {
+        number: '10',
+        street: 'Rua Rio Grande do Sul',
+        neighborhood: 'Centro',
+      })
+      expect(address.city).toBe('Rio Branco')
+    })
+
+    it('deve rejeitar CEPs não encontrados', async () => {
+      await expect(Address.fromCep('20040-020', provider, { number: '1' })).rejects.toThrow(
+        expect.objectContaining({
+          code: ValidationErrorCode.CEP_NOT_FOUND,
+          message: 'CEP 20040-020 não encontrado',
+        }),
+      )
+    })
+
+    it('deve rejeitar CEPs inválidos antes da consulta', async () => {
+      const spy = jest.spyOn(provider, 'lookup')
+
+      await expect(Address.fromCep('123', provider, { number: '1' })).rejects.toThrow(
+        ValidationError,
+      )
+      expect(spy).not.toHaveBeenCalled()
+      spy.mockRestore()
+    })
+  })
+})
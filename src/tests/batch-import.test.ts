@@ -0,0 +1,151 @@
+import { CPF, Email } from '../factories'
+import { toPlainReport, validateImport, validateRows } from '../importing'
+import { defineEntity, field } from '../schemas'
+import { ValidationErrorCode } from '../types'
+
+describe('validateImport', () => {
+  const employee = defineEntity({
+    id: field.string().generated(),
+    name: field.fullName(),
+    cpf: field.cpf(),
+    email: field.email(),
+    phone: field.phone().optional(),
+  })
+
+  const csv = [
+    'Nome;CPF;E-mail;Telefone',
+    'maria da silva;529.982.247-25;maria@exemplo.com;',
+    'João;111.111.111-11;joao@exemplo.com;(11) 98765-4321',
+    '',
+    'José Souza;52998224725;jose@exemplo.com;',
+    'Ana Lima;;MARIA@exemplo.com;',
+  ].join('\r\n')
+
+  const columns = { name: 'Nome', cpf: 'CPF', email: 'E-mail', phone: 'Telefone' }
+
+  it('deve retornar os registros válidos normalizados', async () => {
+    const report = await validateImport(csv, employee, { columns })
+
+    expect(report.total).toBe(4)
+    expect(report.invalid).toBe(3)
+    expect(report.records).toHaveLength(1)
+    expect(report.records[0].row).toBe(2)
+    expect(report.records[0].record.name.raw).toBe('Maria da Silva')
+    expect(report.records[0].record.cpf).toBeInstanceOf(CPF)
+    expect(report.records[0].record.phone).toBeUndefined()
+  })
+
+  it('deve converter o relatório em objetos simples para serialização', async () => {
+    const report = toPlainReport(await validateImport(csv, employee, { columns }))
+    const name: string = report.records[0].record.name
+
+    expect(name).toBe('Maria da Silva')
+    expect(JSON.parse(JSON.stringify(report))).toEqual({
+      records: [
+        {
+          row: 2,
+          record: { name: 'Maria da Silva', cpf: '52998224725', email: 'maria@exemplo.com' },
+        },
+      ],
+      errors: expect.arrayContaining([
+        expect.objectContaining({
+          row: 3,
+          field: 'name',
+          code: ValidationErrorCode.NAME_SINGLE_WORD,
+        }),
+      ]),
+      total: 4,
+      invalid: 3,
+    })
+  })
+
+  it('deve reportar linha, coluna, valor, código e mensagem de cada erro', async () => {
+    const report = await validateImport(csv, employee, { columns })
+
+    expect(report.errors.map(({ row, column, input, code }) => [row, column, input, code])).toEqual(
+      [
+        [3, 'Nome', 'João', ValidationErrorCode.NAME_SINGLE_WORD],
+        [3, 'CPF', '111.111.111-11', ValidationErrorCode.CPF_REPEATED_DIGITS],
+        [5, 'CPF', '52998224725', ValidationErrorCode.IMPORT_DUPLICATE_VALUE],
+        [6, 'CPF', '', ValidationErrorCode.IMPORT_FIELD_REQUIRED],
+        [6, 'E-mail', 'MARIA@exemplo.com', ValidationErrorCode.IMPORT_DUPLICATE_VALUE],
+      ],
+    )
+    expect(report.errors[2].message).toBe('Valor duplicado; já informado na linha 2')
+    expect(report.errors[3].field).toBe('cpf')
+  })
+
+  it('não deve acusar duplicidade com valores de linhas rejeitadas', async () => {
+    const report = await validateImport(
+      [
+        'Nome;CPF;E-mail',
+        'João;529.982.247-25;joao@exemplo.com',
+        'João Souza;529.982.247-25;joao@exemplo.com',
+      ].join('\n'),
+      employee,
+      { columns },
+    )
+
+    expect(report.errors.map(({ row, code }) => [row, code])).toEqual([
+      [2, ValidationErrorCode.NAME_SINGLE_WORD],
+    ])
+    expect(report.records.map(({ row }) => row)).toEqual([3])
+  })
+
+  it('deve ler CSVs sem cabeçalho pela posição das colunas', async () => {
+    const report = await validateImport(
+      'Maria da Silva,529.982.247-25,maria@exemplo.com\n',
+      employee,
+      { columns: { name: 0, cpf: 1, email: 2, phone: 3 } },
+    )
+
+    expect(report.invalid).toBe(0)
+    expect(report.records[0].row).toBe(1)
+  })
+
+  it('deve rejeitar colunas mapeadas que não existem', async () => {
+    await expect(
+      validateImport(csv, employee, { columns: { ...columns, email: 'Email corporativo' } }),
+    ).rejects.toThrow(
+      expect.objectContaining({
+        code: ValidationErrorCode.IMPORT_COLUMN_NOT_FOUND,
+        message: 'Coluna Email corporativo não encontrada',
+      }),
+    )
+  })
+
+  it('deve validar arrays de objetos', async () => {
+    const report = await validateImport(
+      [
+        { nome: 'Maria da Silva', cpf: '529.982.247-25', email: 'maria@exemplo.com' },
+        { nome: 'José Souza', cpf: '390.533.447-05', email: 'invalido' },
+      ],
+      employee,
+      { columns: { name: 'nome' } },
+    )
+
+    expect(report.records[0].record.email).toBeInstanceOf(Email)
+    expect(report.errors).toEqual([
+      expect.objectContaining({
+        row: 2,
+        column: 'email',
+        field: 'email',
+        code: ValidationErrorCode.EMAIL_INVALID_FORMAT,
+      }),
+    ])
+  })
+
+  it('deve processar fontes assíncronas linha a linha', async () => {
+    async function* chunks(): AsyncGenerator<string> {
+      yield 'name,cpf,email\nMaria da Silva,529.982.247-25,'
+      yield 'maria@exemplo.com\nJosé Souza,390.533.447-05,jose@exemplo.com\n'
+    }
+
+    const rows: number[] = []
+    for await (const result of validateRows(chunks(), employee, { unique: [] })) {
+      expect(result.ok).toBe(true)
+      rows.push(result.row)
+    }
+    expect(rows).toEqual([2, 3])
+  })
+})
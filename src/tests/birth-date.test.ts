@@ -0,0 +1,47 @@
+import { BirthDate } from '../factories'
+import { ValidationErrorCode } from '../types'
+
+describe('BirthDate', () => {
+  const referenceDate = '15/01/2024'
+
+  it('deve calcular a idade e a maioridade', () => {
+    const birthDate = new BirthDate('20/05/1990', { referenceDate })
+
+    expect(birthDate.formatted).toBe('20/05/1990')
+    expect(birthDate.age('19/05/2024')).toBe(33)
+    expect(birthDate.age('20/05/2024')).toBe(34)
+    expect(birthDate.isAdult('20/05/2008')).toBe(true)
+    expect(birthDate.isAdult('19/05/2008')).toBe(false)
+  })
+
+  it('deve exigir a idade mínima para o trabalho na data de referência', () => {
+    expect(() => new BirthDate('16/01/2008', { referenceDate })).toThrow(
+      expect.objectContaining({
+        code: ValidationErrorCode.BIRTH_DATE_UNDER_MINIMUM_AGE,
+        message: 'Idade mínima de 16 anos não atingida',
+      }),
+    )
+    expect(BirthDate.isValid('15/01/2008', { referenceDate })).toBe(true)
+  })
+
+  it('deve aceitar uma idade mínima personalizada', () => {
+    expect(BirthDate.isValid('01/01/2009', { referenceDate, minimumAge: 14 })).toBe(true)
+    expect(BirthDate.isValid('01/01/2023', { referenceDate, minimumAge: 0 })).toBe(true)
+    expect(() => new BirthDate('01/01/2000', { minimumAge: -1 })).toThrow(RangeError)
+  })
+
+  it('deve rejeitar datas futuras', () => {
+    expect(() => new BirthDate('16/01/2024', { referenceDate, minimumAge: 0 })).toThrow(
+      expect.objectContaining({ code: ValidationErrorCode.BIRTH_DATE_IN_FUTURE }),
+    )
+  })
+
+  it('deve reportar datas inválidas', () => {
+    const result = BirthDate.parse('31/02/1990')
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.errors[0].code).toBe(ValidationErrorCode.DATE_INVALID)
+    }
+  })
+})
@@ -0,0 +1,102 @@
+import { ValidationError } from '../errors'
+import { BrDate } from '../factories'
+import { ValidationErrorCode } from '../types'
+
+describe('BrDate', () => {
+  describe('constructor', () => {
+    test.each([
+      ['15/01/2024', '2024-01-15'],
+      ['5/1/2024', '2024-01-05'],
+      ['2024-01-15', '2024-01-15'],
+      ['2024-01-15T23:59:59Z', '2024-01-15'],
+      [' 29/02/2024 ', '2024-02-29'],
+    ])('deve aceitar %p', (input, iso) => {
+      expect(new BrDate(input).iso).toBe(iso)
+    })
+
+    it('deve aceitar instâncias de Date considerando a data local', () => {
+      const date = new BrDate(new Date(2024, 0, 15, 23, 30))
+
+      expect(date.iso).toBe('2024-01-15')
+      expect(date.toDate()).toEqual(new Date(2024, 0, 15))
+    })
+
+    test.each([
+      ['15-01-2024', ValidationErrorCode.DATE_INVALID_FORMAT],
+      ['2024/01/15', ValidationErrorCode.DATE_INVALID_FORMAT],
+      ['', ValidationErrorCode.DATE_INVALID_FORMAT],
+      ['31/02/2024', ValidationErrorCode.DATE_INVALID],
+      ['29/02/2023', ValidationErrorCode.DATE_INVALID],
+      ['2024-13-01', ValidationErrorCode.DATE_INVALID],
+      ['00/01/2024', ValidationErrorCode.DATE_INVALID],
+    ])('deve rejeitar %p com o código %p', (input, code) => {
+      expect(() => new BrDate(input)).toThrow(expect.objectContaining({ code, input }))
+    })
+
+    it('deve rejeitar instâncias de Date inválidas', () => {
+      expect(() => new BrDate(new Date('x'))).toThrow(ValidationError)
+    })
+
+    it('deve traduzir a mensagem de erro', () => {
+      expect(() => new BrDate('31/04/2024', { locale: 'en' })).toThrow('Date does not exist')
+    })
+  })
+
+  describe('formatação', () => {
+    const date = new BrDate('2024-03-05')
+
+    it('deve formatar no padrão brasileiro', () => {
+      expect(date.formatted).toBe('05/03/2024')
+      expect(date.extended).toBe('5 de março de 2024')
+      expect([date.day, date.month, date.year]).toEqual([5, 3, 2024])
+    })
+  })
+
+  describe('comparação', () => {
+    const date = new BrDate('15/01/2024')
+
+    it('deve comparar datas em qualquer formato aceito', () => {
+      expect(date.isBefore('2024-01-16')).toBe(true)
+      expect(date.isAfter(new Date(2024, 0, 14))).toBe(true)
+      expect(date.equals('2024-01-15T10:00:00')).toBe(true)
+      expect(date.equals('31/02/2024')).toBe(false)
+      expect(date.equals(undefined)).toBe(false)
+    })
+
+    it('deve contar os dias entre duas datas', () => {
+      expect(date.daysUntil('15/02/2024')).toBe(31)
+      expect(date.daysUntil('15/01/2025')).toBe(366)
+      expect(date.daysUntil('14/01/2024')).toBe(-1)
+    })
+  })
+
+  describe('tenure', () => {
+    test.each([
+      ['15/01/2024', '10/03/2025', { years: 1, months: 1, days: 23 }],
+      ['15/01/2024', '15/01/2024', { years: 0, months: 0, days: 0 }],
+      ['31/01/2024', '29/02/2024', { years: 0, months: 0, days: 29 }],
+      ['31/01/2024', '01/03/2024', { years: 0, months: 1, days: 1 }],
+      ['29/02/2020', '28/02/2021', { years: 0, months: 11, days: 30 }],
+      ['01/06/2000', '01/06/2024', { years: 24, months: 0, days: 0 }],
+    ])('deve calcular o tempo entre %p e %p', (start, end, tenure) => {
+      expect(new BrDate(start).tenure(end)).toEqual(tenure)
+    })
+
+    it('deve rejeitar uma data final anterior à inicial', () => {
+      expect(() => new BrDate('15/01/2024').tenure('14/01/2024')).toThrow(RangeError)
+    })
+  })
+
+  describe('isValid e parse', () => {
+    it('deve validar sem lançar exceções', () => {
+      expect(BrDate.isValid('29/02/2024')).toBe(true)
+      expect(BrDate.isValid('29/02/2023')).toBe(false)
+
+      const result = BrDate.parse('abc')
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.errors[0].code).toBe(ValidationErrorCode.DATE_INVALID_FORMAT)
+      }
+    })
+  })
+})
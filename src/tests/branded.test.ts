@@ -0,0 +1,133 @@
+import {
+  assertCpf,
+  assertEmail,
+  assertFullName,
+  CPF,
+  CpfString,
+  Email,
+  EmailString,
+  fromCpfString,
+  fromEmailString,
+  fromFullNameString,
+  FullName,
+  isCpf,
+  isEmail,
+  isFullName,
+  toCpfString,
+  toEmailString,
+  toFullNameString,
+  ValidationErrorCode,
+} from '../index'
+
+/**
+ * Função que só aceita CPFs validados em tempo de compilação.
+ */
+function digitsOf(cpf: CpfString): string {
+  return cpf.replace(/\D/g, '')
+}
+
+describe('Tipos marcados', () => {
+  describe('CpfString', () => {
+    test.each([
+      ['52998224725', true],
+      ['529.982.247-25', false],
+      [' 52998224725', false],
+      ['111.111.111-11', false],
+      [52998224725, false],
+      [null, false],
+    ])('isCpf(%p) deve retornar %p', (value, expected) => {
+      expect(isCpf(value)).toBe(expected)
+    })
+
+    it('deve restringir o tipo após a verificação', () => {
+      const value: unknown = '52998224725'
+
+      expect(isCpf(value)).toBe(true)
+      if (isCpf(value)) {
+        expect(digitsOf(value)).toBe('52998224725')
+      }
+      // @ts-expect-error strings comuns não são aceitas onde um CPF validado é esperado
+      expect(() => digitsOf('529.982.247-25')).not.toThrow()
+    })
+
+    it('deve lançar o mesmo erro da criação de um CPF', () => {
+      expect(() => assertCpf('123')).toThrow(
+        expect.objectContaining({ code: ValidationErrorCode.CPF_WRONG_LENGTH, input: '123' }),
+      )
+      expect(() => assertCpf(52998224725)).toThrow(TypeError)
+    })
+
+    it('deve exigir a forma normalizada, apenas com dígitos', () => {
+      expect(() => assertCpf('52998224725')).not.toThrow()
+      expect(() => assertCpf('529.982.247-25')).toThrow(
+        expect.objectContaining({
+          code: ValidationErrorCode.VALUE_NOT_NORMALIZED,
+          message: 'Valor fora da forma normalizada; esperado 52998224725',
+        }),
+      )
+    })
+
+    it('deve converter entre string marcada e instância', () => {
+      const value = toCpfString('529.982.247-25')
+
+      expect(value).toBe('52998224725')
+      expect(toCpfString(new CPF('529.982.247-25'))).toBe(value)
+      expect(fromCpfString(value)).toBeInstanceOf(CPF)
+      expect(fromCpfString(value).formatted).toBe('529.982.247-25')
+      expect(() => toCpfString('111.111.111-11')).toThrow(
+        expect.objectContaining({ code: ValidationErrorCode.CPF_REPEATED_DIGITS }),
+      )
+    })
+
+    it('deve ser serializada em JSON como uma string comum', () => {
+      expect(JSON.stringify({ cpf: toCpfString('529.982.247-25') })).toBe('{"cpf":"52998224725"}')
+    })
+  })
+
+  describe('EmailString', () => {
+    it('deve verificar e garantir emails válidos e normalizados', () => {
+      expect(isEmail('maria@empresa.com.br')).toBe(true)
+      expect(isEmail(' Maria@Empresa.com.br ')).toBe(false)
+      expect(isEmail('maria')).toBe(false)
+      expect(() => assertEmail('maria@empresa.com.br')).not.toThrow()
+      expect(() => assertEmail(' Maria@Empresa.com.br ')).toThrow(
+        expect.objectContaining({ code: ValidationErrorCode.VALUE_NOT_NORMALIZED }),
+      )
+      expect(() => assertEmail('maria')).toThrow(
+        expect.objectContaining({ code: ValidationErrorCode.EMAIL_INVALID_FORMAT }),
+      )
+    })
+
+    it('deve converter entre string marcada e instância', () => {
+      const value: EmailString = toEmailString(' Maria@Empresa.com.br ')
+
+      expect(value).toBe('maria@empresa.com.br')
+      expect(toEmailString(new Email('maria@empresa.com.br'))).toBe(value)
+      expect(fromEmailString(value).getDomain()).toBe('empresa.com.br')
+    })
+  })
+
+  describe('FullNameString', () => {
+    it('deve verificar nomes conforme as regras informadas', () => {
+      expect(isFullName('Maria da Silva')).toBe(true)
+      expect(isFullName('maria  da silva')).toBe(false)
+      expect(isFullName('Madonna')).toBe(false)
+      expect(isFullName('Madonna', { rules: { minWords: 1 } })).toBe(true)
+      expect(() => assertFullName('Maria')).toThrow(
+        expect.objectContaining({ code: ValidationErrorCode.NAME_SINGLE_WORD }),
+      )
+      expect(() => assertFullName('Madonna', { rules: { minWords: 1 } })).not.toThrow()
+      expect(() => assertFullName('madonna', { rules: { minWords: 1 } })).toThrow(
+        expect.objectContaining({ code: ValidationErrorCode.VALUE_NOT_NORMALIZED }),
+      )
+    })
+
+    it('deve converter entre string marcada e instância', () => {
+      const value = toFullNameString('  maria  da silva ')
+
+      expect(value).toBe('Maria da Silva')
+      expect(toFullNameString(new FullName('Maria da Silva'))).toBe(value)
+      expect(fromFullNameString(value).getFirstName()).toBe('Maria')
+    })
+  })
+})
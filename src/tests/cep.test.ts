@@ -0,0 +1,127 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { ValidationError } from '../errors'
+import { CEP, cepRanges } from '../factories'
+import { InMemoryCepProvider, JsonFileCepProvider } from '../providers'
+import { UF, ValidationErrorCode } from '../types'
+
+describe('CEP', () => {
+  describe('Constructor', () => {
+    test.each(['01310-100', '01310100', '01.310-100', ' 01310-100 '])(
+      'deve aceitar o CEP %s',
+      (input) => {
+        const cep = new CEP(input)
+
+        expect(cep.raw).toBe('01310100')
+        expect(cep.formatted).toBe('01310-100')
+      },
+    )
+
+    test.each([
+      ['0131010', ValidationErrorCode.CEP_INVALID_FORMAT],
+      ['013101000', ValidationErrorCode.CEP_INVALID_FORMAT],
+      ['', ValidationErrorCode.CEP_INVALID_FORMAT],
+      ['00999-999', ValidationErrorCode.CEP_INVALID_RANGE],
+    ])('deve rejeitar o CEP %s', (input, code) => {
+      expect(() => new CEP(input)).toThrow(expect.objectContaining({ code, input }))
+      expect(CEP.isValid(input)).toBe(false)
+    })
+
+    it('deve lançar ValidationError com a mensagem traduzida', () => {
+      expect(() => new CEP('123')).toThrow(ValidationError)
+      expect(() => new CEP('123', { locale: 'en' })).toThrow(
+        'CEP must contain exactly 8 numeric digits',
+      )
+    })
+
+    it('deve validar sem lançar exceções', () => {
+      expect(CEP.isValid('01310-100')).toBe(true)
+
+      const result = CEP.parse('123')
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.errors[0].code).toBe(ValidationErrorCode.CEP_INVALID_FORMAT)
+      }
+    })
+  })
+
+  describe('Estado', () => {
+    test.each([
+      ['01310-100', UF.SP],
+      ['20040-020', UF.RJ],
+      ['29010-000', UF.ES],
+      ['30130-010', UF.MG],
+      ['68900-000', UF.AP],
+      ['69301-000', UF.RR],
+      ['69900-000', UF.AC],
+      ['70040-010', UF.DF],
+      ['73700-000', UF.GO],
+      ['76801-000', UF.RO],
+      ['77001-000', UF.TO],
+      ['90010-000', UF.RS],
+    ])('deve identificar o estado do CEP %s', (input, uf) => {
+      expect(new CEP(input).uf).toBe(uf)
+    })
+
+    it('deve cobrir todos os estados', () => {
+      expect(new Set(cepRanges.map((range) => range.uf)).size).toBe(27)
+    })
+  })
+
+  describe('Provedores', () => {
+    const record = {
+      cep: '01310-100',
+      street: 'Avenida Paulista',
+      neighborhood: 'Bela Vista',
+      city: 'São Paulo',
+      uf: UF.SP,
+    }
+
+    it('deve consultar o provedor em memória', async () => {
+      const provider = new InMemoryCepProvider([record])
+
+      expect(await new CEP('01310100').lookup(provider)).toEqual(record)
+      expect(await new CEP('20040-020').lookup(provider)).toBeUndefined()
+    })
+
+    describe('Arquivo JSON', () => {
+      let directory: string
+
+      beforeEach(() => {
+        directory = mkdtempSync(join(tmpdir(), 'cep-'))
+      })
+
+      afterEach(() => {
+        rmSync(directory, { recursive: true, force: true })
+      })
+
+      it('deve consultar os CEPs do arquivo', async () => {
+        const path = join(directory, 'ceps.json')
+        writeFileSync(path, JSON.stringify([record]))
+        const provider = new JsonFileCepProvider(path)
+
+        expect(await provider.lookup('01310100')).toEqual(record)
+        expect(await provider.lookup('20040020')).toBeUndefined()
+      })
+
+      it('deve rejeitar arquivos que não contêm uma lista', async () => {
+        const path = join(directory, 'ceps.json')
+        writeFileSync(path, JSON.stringify(record))
+
+        await expect(new JsonFileCepProvider(path).lookup('01310100')).rejects.toThrow(TypeError)
+      })
+
+      it('deve tentar ler o arquivo novamente após uma falha', async () => {
+        const path = join(directory, 'ceps.json')
+        const provider = new JsonFileCepProvider(path)
+
+        await expect(provider.lookup('01310100')).rejects.toThrow()
+
+        writeFileSync(path, JSON.stringify([record]))
+        expect(await provider.lookup('01310100')).toEqual(record)
+      })
+    })
+  })
+})
@@ -0,0 +1,143 @@
+import { Readable } from 'stream'
+
+import { CliCommand, CliExitCode, CliUsageError, CliValueType, parseArgs, runCli } from '../index'
+
+/**
+ * Executa a linha de comando, capturando as saídas.
+ */
+async function run(argv: string[], stdin: string[] = [], isTTY = false) {
+  let stdout = ''
+  let stderr = ''
+  const input = Object.assign(Readable.from(stdin), { isTTY })
+
+  const exitCode = await runCli(argv, {
+    stdin: input,
+    stdout: { write: (text: string) => (stdout += text) },
+    stderr: { write: (text: string) => (stderr += text) },
+  })
+
+  return { exitCode, stdout, stderr }
+}
+
+describe('parseArgs', () => {
+  it('deve interpretar subcomando, tipo, valores e opções', () => {
+    expect(parseArgs(['validate', 'cpf', '123', '--json', '--locale=en'])).toEqual({
+      command: CliCommand.VALIDATE,
+      type: CliValueType.CPF,
+      values: ['123'],
+      json: true,
+      count: 1,
+      seed: undefined,
+      locale: 'en',
+    })
+  })
+
+  it('deve converter sementes numéricas em número', () => {
+    expect(parseArgs(['generate', 'name', '--count', '3', '--seed', '42'])).toMatchObject({
+      count: 3,
+      seed: 42,
+    })
+    expect(parseArgs(['generate', 'name', '--seed', 'carga'])).toMatchObject({ seed: 'carga' })
+  })
+
+  test.each([
+    [[]],
+    [['remove', 'cpf']],
+    [['validate']],
+    [['validate', 'cnpj']],
+    [['validate', 'cpf', '--verbose']],
+    [['generate', 'cpf', '--count']],
+    [['generate', 'cpf', '--count', '0']],
+    [['generate', 'cpf', '123']],
+    [['format', 'cpf', '--seed', '1']],
+  ])('deve rejeitar os argumentos %p', (argv) => {
+    expect(() => parseArgs(argv)).toThrow(CliUsageError)
+  })
+})
+
+describe('runCli', () => {
+  it('deve validar os valores informados nos argumentos', async () => {
+    const { exitCode, stdout } = await run(['validate', 'cpf', '529.982.247-25', '111.111.111-11'])
+
+    expect(exitCode).toBe(CliExitCode.INVALID_INPUT)
+    expect(stdout).toMatch(/^529\.982\.247-25\tválido\n111\.111\.111-11\tinválido\t.+\n$/)
+  })
+
+  it('deve ler os valores da entrada padrão, ignorando linhas em branco', async () => {
+    const { exitCode, stdout } = await run(
+      ['format', 'cpf'],
+      ['52998224725\n\n', '  39053344705 \n'],
+    )
+
+    expect(exitCode).toBe(CliExitCode.SUCCESS)
+    expect(stdout).toBe('529.982.247-25\n390.533.447-05\n')
+  })
+
+  it('deve enviar os valores inválidos de format e mask para a saída de erros', async () => {
+    const { exitCode, stdout, stderr } = await run(['mask', 'email', 'maria@empresa.com', 'maria'])
+
+    expect(exitCode).toBe(CliExitCode.INVALID_INPUT)
+    expect(stdout).toBe('m***a@empresa.com\n')
+    expect(stderr).toMatch(/^maria: .+\n$/)
+  })
+
+  it('deve emitir um objeto JSON por valor', async () => {
+    const { stdout } = await run(['mask', 'cpf', '--json', '52998224725', '123'])
+    const [valid, invalid] = stdout
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line))
+
+    expect(valid).toEqual({ input: '52998224725', valid: true, value: '***.982.247-**' })
+    expect(invalid).toMatchObject({
+      input: '123',
+      valid: false,
+      errors: [{ code: 'CPF_WRONG_LENGTH' }],
+    })
+  })
+
+  it('deve usar o idioma informado nas mensagens de erro', async () => {
+    const pt = await run(['validate', 'name', 'Maria'])
+    const en = await run(['validate', 'name', 'Maria', '--locale', 'en'])
+
+    expect(en.stdout).not.toBe(pt.stdout)
+  })
+
+  it('deve gerar valores reproduzíveis a partir da semente', async () => {
+    const first = await run(['generate', 'cpf', '--count', '3', '--seed', '42'])
+    const second = await run(['generate', 'cpf', '--count', '3', '--seed', '42'])
+    const values = first.stdout.trim().split('\n')
+
+    expect(first.exitCode).toBe(CliExitCode.SUCCESS)
+    expect(first.stdout).toBe(second.stdout)
+    expect(values).toHaveLength(3)
+    expect(values.every((value) => /^\d{3}\.\d{3}\.\d{3}-\d{2}$/.test(value))).toBe(true)
+  })
+
+  it('deve gerar valores em JSON', async () => {
+    const { stdout } = await run(['generate', 'email', '--seed', 'carga', '--json'])
+
+    expect(JSON.parse(stdout)).toEqual({ value: expect.stringContaining('@exemplo.com.br') })
+  })
+
+  it('deve retornar erro de uso para argumentos inválidos', async () => {
+    const { exitCode, stderr } = await run(['validate', 'cnpj', '123'])
+
+    expect(exitCode).toBe(CliExitCode.USAGE_ERROR)
+    expect(stderr).toContain('Tipo desconhecido: cnpj')
+    expect(stderr).toContain('Uso: package-crud')
+  })
+
+  it('deve retornar erro de uso sem valores em um terminal interativo', async () => {
+    const { exitCode } = await run(['validate', 'cpf'], [], true)
+
+    expect(exitCode).toBe(CliExitCode.USAGE_ERROR)
+  })
+
+  it('deve exibir a ajuda', async () => {
+    const { exitCode, stdout } = await run(['--help'])
+
+    expect(exitCode).toBe(CliExitCode.SUCCESS)
+    expect(stdout).toContain('Uso: package-crud')
+  })
+})
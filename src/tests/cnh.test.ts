@@ -0,0 +1,54 @@
+import { CNH } from '../factories'
+import { cnhSchema } from '../schemas'
+import { ValidationErrorCode } from '../types'
+
+describe('CNH', () => {
+  describe('Constructor', () => {
+    test.each(['02650306461', '69044271146', '62472927637', '12345678900', '02468013522'])(
+      'deve aceitar a CNH %s',
+      (input) => {
+        const cnh = new CNH(input)
+
+        expect(cnh.raw).toBe(input)
+        expect(cnh.formatted).toBe(input)
+      },
+    )
+
+    it('deve aplicar o desconto quando o primeiro dígito for 10', () => {
+      expect(CNH.isValid('98765432109')).toBe(true)
+      expect(CNH.isValid('98765432100')).toBe(false)
+    })
+
+    it('deve remover a pontuação', () => {
+      expect(new CNH('026.503.064-61').raw).toBe('02650306461')
+    })
+
+    test.each([
+      ['0265030646', ValidationErrorCode.CNH_WRONG_LENGTH],
+      ['026503064610', ValidationErrorCode.CNH_WRONG_LENGTH],
+      ['00000000000', ValidationErrorCode.CNH_REPEATED_DIGITS],
+      ['02650306462', ValidationErrorCode.CNH_CHECK_DIGIT],
+      ['02650306451', ValidationErrorCode.CNH_CHECK_DIGIT],
+    ])('deve rejeitar a CNH %s', (input, code) => {
+      expect(() => new CNH(input)).toThrow(expect.objectContaining({ code, input }))
+      expect(CNH.isValid(input)).toBe(false)
+    })
+  })
+
+  describe('Parse', () => {
+    it('deve retornar os erros sem lançar exceções', () => {
+      const result = CNH.parse('123', { locale: 'es' })
+
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.errors[0].message).toBe(
+          'La CNH debe contener exactamente 11 dígitos numéricos',
+        )
+      }
+    })
+
+    it('deve validar com o schema', () => {
+      expect(cnhSchema.parse('02650306461')).toBeInstanceOf(CNH)
+    })
+  })
+})
@@ -0,0 +1,118 @@
+import { ValidationError } from '../errors'
+import { CNPJ } from '../factories'
+import { ValidationErrorCode } from '../types'
+
+describe('CNPJ', () => {
+  describe('Constructor', () => {
+    it('deve criar uma instância de CNPJ com um CNPJ numérico válido', () => {
+      const cnpj = new CNPJ('11.222.333/0001-81')
+      expect(cnpj).toBeInstanceOf(CNPJ)
+      expect(cnpj.raw).toBe('11222333000181')
+    })
+
+    it('deve aceitar CNPJ sem formatação', () => {
+      const cnpj = new CNPJ('11222333000181')
+      expect(cnpj.raw).toBe('11222333000181')
+    })
+
+    it('deve aceitar CNPJ alfanumérico válido', () => {
+      const cnpj = new CNPJ('12.ABC.345/01DE-35')
+      expect(cnpj).toBeInstanceOf(CNPJ)
+      expect(cnpj.raw).toBe('12ABC34501DE35')
+    })
+
+    it('deve converter letras minúsculas para maiúsculas', () => {
+      const cnpj = new CNPJ('12.abc.345/01de-35')
+      expect(cnpj.raw).toBe('12ABC34501DE35')
+    })
+
+    it('deve lançar erro para CNPJ com quantidade incorreta de caracteres', () => {
+      expect(() => new CNPJ('1122233300018')).toThrow(
+        'CNPJ deve conter 12 caracteres alfanuméricos seguidos de 2 dígitos verificadores',
+      )
+      expect(() => new CNPJ('112223330001811')).toThrow(
+        'CNPJ deve conter 12 caracteres alfanuméricos seguidos de 2 dígitos verificadores',
+      )
+    })
+
+    it('deve lançar erro para CNPJ com letras nos dígitos verificadores', () => {
+      expect(() => new CNPJ('12ABC34501DE3A')).toThrow(
+        'CNPJ deve conter 12 caracteres alfanuméricos seguidos de 2 dígitos verificadores',
+      )
+    })
+
+    it('deve lançar erro para CNPJ com dígitos verificadores inválidos', () => {
+      expect(() => new CNPJ('11.222.333/0001-82')).toThrow('CNPJ inválido')
+      expect(() => new CNPJ('12.ABC.345/01DE-36')).toThrow('CNPJ inválido')
+    })
+
+    it('deve lançar erro para CNPJ com todos os caracteres iguais', () => {
+      expect(() => new CNPJ('00000000000000')).toThrow('CNPJ inválido')
+      expect(() => new CNPJ('11111111111111')).toThrow('CNPJ inválido')
+    })
+  })
+
+  describe('Propriedades', () => {
+    it('deve retornar o valor formatado do CNPJ', () => {
+      expect(new CNPJ('11222333000181').formatted).toBe('11.222.333/0001-81')
+      expect(new CNPJ('12ABC34501DE35').formatted).toBe('12.ABC.345/01DE-35')
+    })
+
+    it('deve retornar a raiz do CNPJ', () => {
+      expect(new CNPJ('11.222.333/0001-81').root).toBe('11222333')
+      expect(new CNPJ('12.ABC.345/01DE-35').root).toBe('12ABC345')
+    })
+
+    it('deve retornar o número do estabelecimento', () => {
+      expect(new CNPJ('11.222.333/0001-81').branch).toBe('0001')
+      expect(new CNPJ('12.ABC.345/01DE-35').branch).toBe('01DE')
+    })
+
+    it('deve identificar se o CNPJ é da matriz', () => {
+      expect(new CNPJ('11.222.333/0001-81').isHeadquarters()).toBe(true)
+      expect(new CNPJ('12.ABC.345/01DE-35').isHeadquarters()).toBe(false)
+    })
+  })
+
+  describe('Validação Estática', () => {
+    it('deve identificar CNPJs válidos', () => {
+      expect(CNPJ.isValid('11.222.333/0001-81')).toBe(true)
+      expect(CNPJ.isValid('11.444.777/0001-61')).toBe(true)
+      expect(CNPJ.isValid('12.ABC.345/01DE-35')).toBe(true)
+    })
+
+    it('deve identificar CNPJs inválidos', () => {
+      expect(CNPJ.isValid('11.222.333/0001-80')).toBe(false)
+      expect(CNPJ.isValid('00.000.000/0000-00')).toBe(false)
+      expect(CNPJ.isValid('12345')).toBe(false)
+      expect(CNPJ.isValid('')).toBe(false)
+    })
+  })
+
+  describe('Parse', () => {
+    it('deve retornar a instância quando o CNPJ for válido', () => {
+      const result = CNPJ.parse('12.ABC.345/01DE-35')
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.value.raw).toBe('12ABC34501DE35')
+      }
+    })
+
+    it.each([
+      ['1122233300018', ValidationErrorCode.CNPJ_INVALID_FORMAT],
+      ['00.000.000/0000-00', ValidationErrorCode.CNPJ_REPEATED_CHARACTERS],
+      ['11.222.333/0001-82', ValidationErrorCode.CNPJ_CHECK_DIGIT],
+    ])('deve retornar o código de erro para o CNPJ %s', (input, code) => {
+      const result = CNPJ.parse(input)
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.errors[0].code).toBe(code)
+        expect(result.errors[0].input).toBe(input)
+      }
+    })
+
+    it('deve lançar ValidationError no construtor', () => {
+      expect(() => new CNPJ('11.222.333/0001-82')).toThrow(ValidationError)
+    })
+  })
+})
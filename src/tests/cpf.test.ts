@@ -1,4 +1,6 @@
-import { CPF } from '../factories'
+import { ValidationError } from '../errors'
+import { CPF, cpfFiscalRegions } from '../factories'
+import { UF, ValidationErrorCode } from '../types'
 
 describe('CPF', () => {
   describe('Constructor', () => {
@@ -94,4 +96,100 @@ describe('CPF', () => {
       expect(() => new CPF(cpfInvalido)).toThrow()
     })
   })
+
+  describe('Parse', () => {
+    it('deve retornar a instância quando o CPF for válido', () => {
+      const result = CPF.parse('529.982.247-25')
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.value.raw).toBe('52998224725')
+      }
+    })
+
+    it.each([
+      ['1234567890', ValidationErrorCode.CPF_WRONG_LENGTH],
+      ['111.111.111-11', ValidationErrorCode.CPF_REPEATED_DIGITS],
+      ['529.982.247-26', ValidationErrorCode.CPF_CHECK_DIGIT],
+    ])('deve retornar o código de erro para o CPF %s', (input, code) => {
+      const result = CPF.parse(input)
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.errors).toHaveLength(1)
+        expect(result.errors[0].code).toBe(code)
+        expect(result.errors[0].input).toBe(input)
+        expect(result.errors[0].message).toBeTruthy()
+      }
+    })
+
+    it('deve lançar ValidationError com os mesmos dados no construtor', () => {
+      expect(() => new CPF('529.982.247-26')).toThrow(ValidationError)
+      expect(() => new CPF('529.982.247-26')).toThrow(
+        expect.objectContaining({
+          code: ValidationErrorCode.CPF_CHECK_DIGIT,
+          input: '529.982.247-26',
+          message: 'CPF inválido',
+        }),
+      )
+    })
+  })
+
+  describe('Máscara', () => {
+    it('deve exibir apenas os dígitos centrais por padrão', () => {
+      expect(new CPF('529.982.247-25').masked).toBe('***.982.247-**')
+    })
+
+    it.each([
+      [{ pattern: '###.***.***-##' }, '529.***.***-25'],
+      [{ pattern: '*********##' }, '*********25'],
+      [{ maskChar: 'X' }, 'XXX.982.247-XX'],
+    ])('deve aplicar o padrão %p', (options, expected) => {
+      expect(new CPF('52998224725').mask(options)).toBe(expected)
+    })
+
+    it('deve rejeitar padrões sem 11 marcadores', () => {
+      expect(() => new CPF('52998224725').mask({ pattern: '***.###.###' })).toThrow(RangeError)
+    })
+  })
+
+  describe('Região fiscal', () => {
+    it.each([
+      ['529.982.247-25', 7, [UF.ES, UF.RJ]],
+      ['111.444.777-35', 7, [UF.ES, UF.RJ]],
+      ['123.456.780-62', 0, [UF.RS]],
+      ['123.456.788-10', 8, [UF.SP]],
+    ])('deve identificar a região fiscal do CPF %s', (input, region, states) => {
+      expect(new CPF(input).fiscalRegion).toEqual({ region, states })
+    })
+
+    it('deve cobrir todos os estados exatamente uma vez', () => {
+      const states = Object.values(cpfFiscalRegions).flat()
+      expect([...states].sort()).toEqual(Object.values(UF).sort())
+    })
+  })
+
+  describe('Dígitos verificadores', () => {
+    it.each([
+      ['529982247', '25'],
+      ['529.982.247', '25'],
+      ['123456780', '62'],
+    ])('deve calcular os dígitos verificadores de %s', (base, expected) => {
+      expect(CPF.checkDigits(base)).toBe(expected)
+    })
+
+    it('deve criar um CPF a partir dos dígitos base', () => {
+      expect(CPF.fromBaseDigits('529.982.247').formatted).toBe('529.982.247-25')
+    })
+
+    it.each(['52998224', '5299822472'])('deve rejeitar a base %s', (base) => {
+      expect(() => CPF.fromBaseDigits(base)).toThrow(
+        expect.objectContaining({ code: ValidationErrorCode.CPF_BASE_WRONG_LENGTH, input: base }),
+      )
+    })
+
+    it('deve rejeitar bases com todos os dígitos iguais', () => {
+      expect(() => CPF.fromBaseDigits('111111111')).toThrow(
+        expect.objectContaining({ code: ValidationErrorCode.CPF_REPEATED_DIGITS }),
+      )
+    })
+  })
 })
@@ -0,0 +1,48 @@
+import { detectDelimiter, readCsv } from '../importing'
+
+/**
+ * Lê todos os registros de um CSV.
+ */
+async function readAll(...args: Parameters<typeof readCsv>): Promise<string[][]> {
+  const records: string[][] = []
+  for await (const record of readCsv(...args)) {
+    records.push(record)
+  }
+  return records
+}
+
+describe('readCsv', () => {
+  test.each([
+    ['nome;cpf;email', ';'],
+    ['nome,cpf,email', ','],
+    ['nome\tcpf\temail', '\t'],
+    ['"Silva, Maria";cpf', ';'],
+    ['nome', ','],
+  ])('deve detectar o separador de %p', (line, delimiter) => {
+    expect(detectDelimiter(line)).toBe(delimiter)
+  })
+
+  it('deve ler campos entre aspas com separadores, aspas e quebras de linha', async () => {
+    const csv = 'nome;obs\r\n"Silva; Maria";"disse ""oi""\nduas vezes"\r\nJoão;\r\n'
+
+    expect(await readAll(csv)).toEqual([
+      ['nome', 'obs'],
+      ['Silva; Maria', 'disse "oi"\nduas vezes'],
+      ['João', ''],
+    ])
+  })
+
+  it('deve ler trechos divididos em qualquer posição, inclusive bytes UTF-8', async () => {
+    const bytes = new TextEncoder().encode('\uFEFFnome;cidade\n"José";São Paulo')
+    const chunks = Array.from({ length: bytes.length }, (_, i) => bytes.slice(i, i + 1))
+
+    expect(await readAll(chunks)).toEqual([
+      ['nome', 'cidade'],
+      ['José', 'São Paulo'],
+    ])
+  })
+
+  it('deve respeitar o separador informado', async () => {
+    expect(await readAll('a;b|c', { delimiter: '|' })).toEqual([['a;b', 'c']])
+  })
+})
@@ -0,0 +1,56 @@
+import { CTPS } from '../factories'
+import { ctpsSchema } from '../schemas'
+import { ValidationErrorCode } from '../types'
+
+describe('CTPS', () => {
+  describe('Constructor', () => {
+    test.each(['1234567/0012', '1234567 0012', '12345670012', '1234567-0012', ' 1234567 / 0012 '])(
+      'deve aceitar a CTPS %s',
+      (input) => {
+        const ctps = new CTPS(input)
+
+        expect(ctps.raw).toBe('12345670012')
+        expect(ctps.formatted).toBe('1234567/0012')
+      },
+    )
+
+    it('deve completar o número e a série com zeros', () => {
+      const ctps = new CTPS('34567/12')
+
+      expect(ctps.number).toBe('0034567')
+      expect(ctps.series).toBe('0012')
+      expect(ctps.formatted).toBe('0034567/0012')
+    })
+
+    it('deve criar a CTPS a partir do número e da série', () => {
+      expect(CTPS.from('34567', '12').raw).toBe('00345670012')
+    })
+
+    test.each([
+      ['1234567', ValidationErrorCode.CTPS_WRONG_LENGTH],
+      ['12345678/0012', ValidationErrorCode.CTPS_WRONG_LENGTH],
+      ['1234567/00123', ValidationErrorCode.CTPS_WRONG_LENGTH],
+      ['1234567/0012/1', ValidationErrorCode.CTPS_WRONG_LENGTH],
+      ['0000000/0012', ValidationErrorCode.CTPS_INVALID],
+      ['1234567/0000', ValidationErrorCode.CTPS_INVALID],
+    ])('deve rejeitar a CTPS %s', (input, code) => {
+      expect(() => new CTPS(input)).toThrow(expect.objectContaining({ code, input }))
+      expect(CTPS.isValid(input)).toBe(false)
+    })
+  })
+
+  describe('Parse', () => {
+    it('deve retornar os erros sem lançar exceções', () => {
+      const result = CTPS.parse('1234567/0000')
+
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.errors[0].message).toBe('CTPS inválida')
+      }
+    })
+
+    it('deve validar com o schema', () => {
+      expect(ctpsSchema.parse('1234567/0012')).toBeInstanceOf(CTPS)
+    })
+  })
+})
@@ -0,0 +1,89 @@
+import { Email } from '../factories'
+import { resetMessages, setLocale } from '../i18n'
+import { disposableEmailDomains, EmailPolicy } from '../policies'
+import { ValidationErrorCode } from '../types'
+
+describe('EmailPolicy', () => {
+  afterEach(() => {
+    resetMessages()
+  })
+
+  describe('Domínios descartáveis', () => {
+    const policy = new EmailPolicy()
+
+    it('deve distribuir a lista de domínios descartáveis', () => {
+      expect(disposableEmailDomains).toContain('mailinator.com')
+      expect(disposableEmailDomains).toContain('yopmail.com')
+    })
+
+    test.each(['teste@mailinator.com', 'teste@caixa.mailinator.com', 'TESTE@YOPMAIL.COM'])(
+      'deve rejeitar %s',
+      (input) => {
+        expect(() => policy.validate(input)).toThrow(
+          expect.objectContaining({ code: ValidationErrorCode.EMAIL_DISPOSABLE, input }),
+        )
+      },
+    )
+
+    it('deve aceitar domínios comuns', () => {
+      expect(policy.validate('usuario@gmail.com')).toBeInstanceOf(Email)
+      expect(policy.isAllowed(new Email('usuario@empresa.com.br'))).toBe(true)
+    })
+
+    it('deve permitir desativar a verificação ou trocar a lista', () => {
+      expect(new EmailPolicy({ blockDisposable: false }).isAllowed('a@mailinator.com')).toBe(true)
+
+      const custom = new EmailPolicy({ disposableDomains: ['descartavel.com.br'] })
+      expect(custom.isAllowed('a@mailinator.com')).toBe(true)
+      expect(custom.isAllowed('a@descartavel.com.br')).toBe(false)
+    })
+  })
+
+  describe('Listas de permitidos e bloqueados', () => {
+    const policy = new EmailPolicy({
+      allow: ['empresa.com.br', '*.empresa.com.br', 'mailinator.com'],
+      block: ['rh.empresa.com.br'],
+    })
+
+    test.each([
+      ['joao@empresa.com.br', true],
+      ['joao@ti.empresa.com.br', true],
+      ['joao@sp.ti.empresa.com.br', true],
+      ['joao@mailinator.com', true],
+      ['joao@rh.empresa.com.br', false],
+      ['joao@outraempresa.com.br', false],
+      ['joao@gmail.com', false],
+    ])('deve avaliar %s', (input, allowed) => {
+      expect(policy.isAllowed(input)).toBe(allowed)
+    })
+
+    it('deve não aceitar o domínio principal apenas com o curinga', () => {
+      const wildcard = new EmailPolicy({ allow: ['*.empresa.com.br'] })
+
+      expect(wildcard.isAllowed('joao@empresa.com.br')).toBe(false)
+      expect(wildcard.isAllowed('joao@ti.empresa.com.br')).toBe(true)
+    })
+
+    it('deve informar o domínio recusado', () => {
+      const result = policy.parse('joao@gmail.com')
+
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.errors[0].code).toBe(ValidationErrorCode.EMAIL_DOMAIN_NOT_ALLOWED)
+        expect(result.errors[0].message).toBe('O domínio gmail.com não é permitido')
+      }
+    })
+
+    it('deve traduzir as mensagens', () => {
+      setLocale('en')
+
+      expect(() => policy.validate('joao@gmail.com')).toThrow('The domain gmail.com is not allowed')
+    })
+  })
+
+  it('deve repassar os erros de formato do email', () => {
+    expect(() => new EmailPolicy().validate('email-invalido')).toThrow(
+      expect.objectContaining({ code: ValidationErrorCode.EMAIL_INVALID_FORMAT }),
+    )
+  })
+})
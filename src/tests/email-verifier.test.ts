@@ -0,0 +1,166 @@
+import { DnsError } from '../errors'
+import { Email } from '../factories'
+import {
+  EmailVerificationConfidence,
+  EmailVerificationReason,
+  EmailVerificationStatus,
+} from '../types'
+import { DnsResolver, EmailVerifier, InMemoryDnsResolver } from '../verification'
+
+describe('EmailVerifier', () => {
+  const resolver = new InMemoryDnsResolver({
+    'empresa.com.br': {
+      mx: [
+        { exchange: 'mx2.empresa.com.br', priority: 20 },
+        { exchange: 'mx1.empresa.com.br', priority: 10 },
+      ],
+    },
+    'sem-mx.com.br': { a: ['203.0.113.10'], aaaa: ['2001:db8::10'] },
+    'nao-recebe.com.br': { mx: [{ exchange: '', priority: 0 }], a: ['203.0.113.20'] },
+    'vazio.com.br': {},
+  })
+
+  describe('Classificação', () => {
+    it.each([
+      [
+        'empresa.com.br',
+        EmailVerificationStatus.DELIVERABLE,
+        EmailVerificationReason.MX_FOUND,
+        EmailVerificationConfidence.HIGH,
+      ],
+      [
+        'sem-mx.com.br',
+        EmailVerificationStatus.DELIVERABLE,
+        EmailVerificationReason.ADDRESS_FALLBACK,
+        EmailVerificationConfidence.MEDIUM,
+      ],
+      [
+        'nao-recebe.com.br',
+        EmailVerificationStatus.UNDELIVERABLE,
+        EmailVerificationReason.NULL_MX,
+        EmailVerificationConfidence.HIGH,
+      ],
+      [
+        'vazio.com.br',
+        EmailVerificationStatus.UNDELIVERABLE,
+        EmailVerificationReason.NO_RECORDS,
+        EmailVerificationConfidence.HIGH,
+      ],
+      [
+        'inexistente.com.br',
+        EmailVerificationStatus.UNDELIVERABLE,
+        EmailVerificationReason.DOMAIN_NOT_FOUND,
+        EmailVerificationConfidence.HIGH,
+      ],
+    ])('deve classificar %s', async (domain, status, reason, confidence) => {
+      const result = await new EmailVerifier({ resolver }).verify(domain)
+
+      expect(result).toEqual(
+        expect.objectContaining({ domain, status, reason, confidence, cached: false }),
+      )
+    })
+
+    it('deve ordenar os registros MX por prioridade', async () => {
+      const result = await new EmailVerifier({ resolver }).verify('empresa.com.br')
+
+      expect(result.mx.map((record) => record.exchange)).toEqual([
+        'mx1.empresa.com.br',
+        'mx2.empresa.com.br',
+      ])
+    })
+
+    it('deve retornar os endereços usados no lugar do MX', async () => {
+      const result = await new EmailVerifier({ resolver }).verify('sem-mx.com.br')
+
+      expect(result.addresses).toEqual(['203.0.113.10', '2001:db8::10'])
+    })
+
+    it('deve retornar resultado desconhecido quando a consulta falhar', async () => {
+      const failing: DnsResolver = {
+        resolveMx: async (domain) => {
+          throw new DnsError('ETIMEOUT', domain)
+        },
+        resolve4: async () => [],
+        resolve6: async () => [],
+      }
+
+      const result = await new EmailVerifier({ resolver: failing }).verify('empresa.com.br')
+
+      expect(result.status).toBe(EmailVerificationStatus.UNKNOWN)
+      expect(result.reason).toBe(EmailVerificationReason.LOOKUP_FAILED)
+      expect(result.confidence).toBe(EmailVerificationConfidence.LOW)
+    })
+  })
+
+  describe('Cache', () => {
+    it('deve reutilizar o resultado até o fim do tempo de vida', async () => {
+      let now = 0
+      const counting = new InMemoryDnsResolver({ 'empresa.com.br': { mx: [] } })
+      const spy = jest.spyOn(counting, 'resolveMx')
+      const verifier = new EmailVerifier({ resolver: counting, ttl: 1000, now: () => now })
+
+      await verifier.verify('empresa.com.br')
+      now = 999
+      const cached = await verifier.verify('EMPRESA.com.br')
+      now = 1000
+      const refreshed = await verifier.verify('empresa.com.br')
+
+      expect(cached.cached).toBe(true)
+      expect(refreshed.cached).toBe(false)
+      expect(spy).toHaveBeenCalledTimes(2)
+    })
+
+    it('deve compartilhar consultas simultâneas', async () => {
+      const spy = jest.spyOn(resolver, 'resolveMx')
+      const verifier = new EmailVerifier({ resolver })
+
+      await Promise.all([verifier.verify('empresa.com.br'), verifier.verify('empresa.com.br')])
+
+      expect(spy).toHaveBeenCalledTimes(1)
+      spy.mockRestore()
+    })
+
+    it('não deve armazenar falhas de consulta', async () => {
+      let attempts = 0
+      const flaky = new InMemoryDnsResolver({
+        'empresa.com.br': { mx: [{ exchange: 'mx.empresa.com.br', priority: 10 }] },
+      })
+      const original = flaky.resolveMx.bind(flaky)
+      flaky.resolveMx = async (domain) => {
+        attempts++
+        if (attempts === 1) {
+          throw new DnsError('ESERVFAIL', domain)
+        }
+        return original(domain)
+      }
+      const verifier = new EmailVerifier({ resolver: flaky })
+
+      expect((await verifier.verify('empresa.com.br')).status).toBe(EmailVerificationStatus.UNKNOWN)
+      expect((await verifier.verify('empresa.com.br')).status).toBe(
+        EmailVerificationStatus.DELIVERABLE,
+      )
+    })
+
+    it('deve limpar o cache', async () => {
+      const spy = jest.spyOn(resolver, 'resolveMx')
+      const verifier = new EmailVerifier({ resolver })
+
+      await verifier.verify('empresa.com.br')
+      verifier.clearCache()
+      await verifier.verify('empresa.com.br')
+
+      expect(spy).toHaveBeenCalledTimes(2)
+      spy.mockRestore()
+    })
+  })
+
+  describe('Email.verify', () => {
+    it('deve verificar o domínio do email com o verificador informado', async () => {
+      const verifier = new EmailVerifier({ resolver })
+      const result = await new Email('usuario@empresa.com.br').verify(verifier)
+
+      expect(result.status).toBe(EmailVerificationStatus.DELIVERABLE)
+      expect(result.domain).toBe('empresa.com.br')
+    })
+  })
+})
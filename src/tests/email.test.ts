@@ -1,4 +1,6 @@
+import { ValidationError } from '../errors'
 import { Email } from '../factories/email'
+import { ValidationErrorCode } from '../types'
 
 describe('Email', () => {
   describe('Constructor', () => {
@@ -99,4 +101,137 @@ describe('Email', () => {
       expect(() => new Email(emailValido)).not.toThrow()
     })
   })
+
+  describe('Parse', () => {
+    it('deve retornar a instância quando o email for válido', () => {
+      const result = Email.parse('Teste@Exemplo.com')
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.value.raw).toBe('teste@exemplo.com')
+      }
+    })
+
+    it('deve retornar EMAIL_INVALID_FORMAT para email sem domínio', () => {
+      const result = Email.parse('teste@')
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.errors).toEqual([
+          {
+            code: ValidationErrorCode.EMAIL_INVALID_FORMAT,
+            input: 'teste@',
+            message: 'Email inválido',
+          },
+        ])
+      }
+    })
+
+    it('deve retornar EMAIL_TOO_LONG para email muito longo', () => {
+      const result = Email.parse(`${'a'.repeat(250)}@exemplo.com`)
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.errors.map((error) => error.code)).toContain(
+          ValidationErrorCode.EMAIL_TOO_LONG,
+        )
+      }
+    })
+
+    it('deve lançar ValidationError no construtor', () => {
+      expect(() => new Email('teste@')).toThrow(ValidationError)
+    })
+  })
+
+  describe('Máscara', () => {
+    it('deve exibir o primeiro e o último caractere do usuário por padrão', () => {
+      expect(new Email('usuario@exemplo.com').masked).toBe('u*****o@exemplo.com')
+    })
+
+    it.each([
+      ['ab@exemplo.com', 'a*@exemplo.com'],
+      ['a@exemplo.com', '*@exemplo.com'],
+    ])('deve mascarar usuários curtos: %s', (input, expected) => {
+      expect(new Email(input).masked).toBe(expected)
+    })
+
+    it('deve aceitar a quantidade de caracteres visíveis e o caractere de máscara', () => {
+      expect(
+        new Email('usuario@exemplo.com').mask({ visibleStart: 2, visibleEnd: 0, maskChar: '#' }),
+      ).toBe('us#####@exemplo.com')
+    })
+
+    it('deve mascarar o domínio preservando o sufixo', () => {
+      expect(new Email('usuario@empresa.com.br').mask({ maskDomain: true })).toBe(
+        'u*****o@e*****a.com.br',
+      )
+    })
+  })
+
+  describe('Forma canônica', () => {
+    it.each([
+      ['Joao.Silva+rh@gmail.com', 'joaosilva@gmail.com'],
+      ['joaosilva@googlemail.com', 'joaosilva@gmail.com'],
+      ['joao.silva+rh@empresa.com.br', 'joao.silva@empresa.com.br'],
+      ['joao.silva@me.com', 'joao.silva@icloud.com'],
+      ['joao.silva@hotmail.com', 'joao.silva@hotmail.com'],
+      ['+rh@empresa.com.br', '+rh@empresa.com.br'],
+    ])('deve canonicalizar %s', (input, expected) => {
+      expect(new Email(input).canonical).toBe(expected)
+    })
+
+    it('deve manter o email original em raw', () => {
+      expect(new Email('Joao.Silva+rh@gmail.com').raw).toBe('joao.silva+rh@gmail.com')
+    })
+  })
+
+  describe('Tag', () => {
+    it.each([
+      ['joao+rh@empresa.com.br', 'rh'],
+      ['joao+rh+2024@empresa.com.br', 'rh+2024'],
+      ['joao@empresa.com.br', undefined],
+      ['+rh@empresa.com.br', undefined],
+    ])('deve retornar a tag de %s', (input, expected) => {
+      expect(new Email(input).getTag()).toBe(expected)
+    })
+  })
+
+  describe('Domínios internacionalizados', () => {
+    it('deve armazenar o domínio em punycode e exibi-lo em Unicode', () => {
+      const email = new Email('Usuario@Açaí.com.br')
+
+      expect(email.raw).toBe('usuario@xn--aa-4iaz.com.br')
+      expect(email.getDomain()).toBe('xn--aa-4iaz.com.br')
+      expect(email.unicode).toBe('usuario@açaí.com.br')
+      expect(Email.isValid('usuario@açaí.com.br')).toBe(true)
+    })
+
+    it('deve aceitar o domínio já em punycode', () => {
+      expect(new Email('usuario@xn--aa-4iaz.com.br').unicode).toBe('usuario@açaí.com.br')
+    })
+  })
+
+  describe('Sugestões', () => {
+    it.each([
+      ['usuario@gmial.com', 'usuario@gmail.com'],
+      ['usuario@hotmial.com', 'usuario@hotmail.com'],
+      ['usuario@gmail.con', 'usuario@gmail.com'],
+      ['usuario@yaho.com.br', 'usuario@yahoo.com.br'],
+      ['usuario@outlok.com', 'usuario@outlook.com'],
+    ])('deve sugerir a correção de %s', (input, expected) => {
+      expect(new Email(input).suggest()).toBe(expected)
+    })
+
+    it.each(['usuario@gmail.com', 'usuario@empresa.com.br', 'usuario@exemplo.com'])(
+      'não deve sugerir correção para %s',
+      (input) => {
+        expect(new Email(input).suggest()).toBeUndefined()
+      },
+    )
+
+    it('deve aceitar uma lista de domínios e a distância máxima', () => {
+      const email = new Email('usuario@empresa.cmo.br')
+
+      expect(email.suggest()).toBeUndefined()
+      expect(email.suggest({ domains: ['empresa.com.br'] })).toBe('usuario@empresa.com.br')
+      expect(email.suggest({ domains: ['empresa.com.br'], maxDistance: 0 })).toBeUndefined()
+    })
+  })
 })
@@ -0,0 +1,213 @@
+import { canTransition, Employee, EmployeeStatusHistory } from '../entities'
+import { ValidationError } from '../errors'
+import { EmployeeStatus, ValidationErrorCode } from '../types'
+
+describe('EmployeeStatusLifecycle', () => {
+  const admission = new Date('2024-01-01T00:00:00Z')
+
+  describe('canTransition', () => {
+    it('deve permitir transições a partir de NORMAL', () => {
+      expect(canTransition(EmployeeStatus.NORMAL, EmployeeStatus.VACATION)).toBe(true)
+      expect(canTransition(EmployeeStatus.NORMAL, EmployeeStatus.LEAVE)).toBe(true)
+      expect(canTransition(EmployeeStatus.NORMAL, EmployeeStatus.TRANSFERRED)).toBe(true)
+      expect(canTransition(EmployeeStatus.NORMAL, EmployeeStatus.DISMISSED)).toBe(true)
+    })
+
+    it('deve tratar DISMISSED como status terminal', () => {
+      for (const status of Object.values(EmployeeStatus)) {
+        expect(canTransition(EmployeeStatus.DISMISSED, status)).toBe(false)
+      }
+    })
+
+    it('deve permitir que TRANSFERRED vá apenas para NORMAL ou DISMISSED', () => {
+      expect(canTransition(EmployeeStatus.TRANSFERRED, EmployeeStatus.NORMAL)).toBe(true)
+      expect(canTransition(EmployeeStatus.TRANSFERRED, EmployeeStatus.DISMISSED)).toBe(true)
+      expect(canTransition(EmployeeStatus.TRANSFERRED, EmployeeStatus.VACATION)).toBe(false)
+      expect(canTransition(EmployeeStatus.TRANSFERRED, EmployeeStatus.LEAVE)).toBe(false)
+    })
+
+    it('não deve permitir transição para o mesmo status', () => {
+      expect(canTransition(EmployeeStatus.NORMAL, EmployeeStatus.NORMAL)).toBe(false)
+    })
+  })
+
+  describe('EmployeeStatusHistory', () => {
+    const history = EmployeeStatusHistory.start(EmployeeStatus.NORMAL, {
+      effectiveDate: admission,
+      reason: 'Admissão',
+    })
+      .transition(EmployeeStatus.VACATION, {
+        effectiveDate: new Date('2024-07-01T00:00:00Z'),
+        expectedReturnDate: new Date('2024-07-31T00:00:00Z'),
+        reason: 'Férias anuais',
+      })
+      .transition(EmployeeStatus.NORMAL, { effectiveDate: new Date('2024-07-31T00:00:00Z') })
+
+    it('deve registrar as alterações em ordem cronológica', () => {
+      expect(history.current).toBe(EmployeeStatus.NORMAL)
+      expect(history.changes.map((change) => change.status)).toEqual([
+        EmployeeStatus.NORMAL,
+        EmployeeStatus.VACATION,
+        EmployeeStatus.NORMAL,
+      ])
+    })
+
+    it('deve retornar o status vigente em uma data', () => {
+      expect(history.statusAt(new Date('2023-12-31T00:00:00Z'))).toBeUndefined()
+      expect(history.statusAt(admission)).toBe(EmployeeStatus.NORMAL)
+      expect(history.statusAt(new Date('2024-07-15T00:00:00Z'))).toBe(EmployeeStatus.VACATION)
+      expect(history.statusAt(new Date('2024-08-01T00:00:00Z'))).toBe(EmployeeStatus.NORMAL)
+    })
+
+    it('deve retornar os dados da alteração vigente', () => {
+      const change = history.changeAt(new Date('2024-07-15T00:00:00Z'))
+      expect(change?.reason).toBe('Férias anuais')
+      expect(change?.expectedReturnDate).toEqual(new Date('2024-07-31T00:00:00Z'))
+    })
+
+    it('deve ser imutável', () => {
+      const dismissed = history.transition(EmployeeStatus.DISMISSED, {
+        effectiveDate: new Date('2024-12-01T00:00:00Z'),
+      })
+      expect(dismissed.current).toBe(EmployeeStatus.DISMISSED)
+      expect(history.current).toBe(EmployeeStatus.NORMAL)
+    })
+
+    it('deve rejeitar transições não permitidas com código de erro', () => {
+      const dismissed = history.transition(EmployeeStatus.DISMISSED, {
+        effectiveDate: new Date('2024-12-01T00:00:00Z'),
+      })
+
+      expect(() =>
+        dismissed.transition(EmployeeStatus.VACATION, {
+          effectiveDate: new Date('2025-01-01T00:00:00Z'),
+        }),
+      ).toThrow(
+        expect.objectContaining({
+          code: ValidationErrorCode.STATUS_TRANSITION_NOT_ALLOWED,
+          message: 'Transição de status não permitida: Demitido → Férias',
+        }),
+      )
+    })
+
+    it('deve rejeitar datas anteriores à última alteração', () => {
+      expect(() =>
+        history.transition(EmployeeStatus.LEAVE, {
+          effectiveDate: new Date('2024-06-01T00:00:00Z'),
+        }),
+      ).toThrow(expect.objectContaining({ code: ValidationErrorCode.STATUS_DATE_OUT_OF_ORDER }))
+    })
+
+    it('deve rejeitar data de vigência inválida no status inicial', () => {
+      expect(() =>
+        EmployeeStatusHistory.start(EmployeeStatus.NORMAL, { effectiveDate: new Date(NaN) }),
+      ).toThrow(expect.objectContaining({ code: ValidationErrorCode.EMPLOYEE_INVALID_DATE }))
+    })
+
+    it('deve aceitar data prevista de retorno apenas para férias e afastamentos', () => {
+      expect(() =>
+        history.transition(EmployeeStatus.TRANSFERRED, {
+          effectiveDate: new Date('2024-09-01T00:00:00Z'),
+          expectedReturnDate: new Date('2024-10-01T00:00:00Z'),
+        }),
+      ).toThrow(expect.objectContaining({ code: ValidationErrorCode.STATUS_RETURN_DATE_INVALID }))
+
+      expect(() =>
+        history.transition(EmployeeStatus.LEAVE, {
+          effectiveDate: new Date('2024-09-01T00:00:00Z'),
+          expectedReturnDate: new Date('2024-08-01T00:00:00Z'),
+        }),
+      ).toThrow(expect.objectContaining({ code: ValidationErrorCode.STATUS_RETURN_DATE_INVALID }))
+    })
+
+    it('deve reconstruir o histórico a partir das alterações', () => {
+      const restored = EmployeeStatusHistory.fromChanges(history.changes)
+      expect(restored.changes).toEqual(history.changes)
+
+      expect(() =>
+        EmployeeStatusHistory.fromChanges([
+          { status: EmployeeStatus.DISMISSED, effectiveDate: admission },
+          { status: EmployeeStatus.NORMAL, effectiveDate: new Date('2024-02-01T00:00:00Z') },
+        ]),
+      ).toThrow(ValidationError)
+    })
+  })
+
+  describe('EmployeeStatusHistory com data de admissão', () => {
+    const options = { admissionDate: '15/01/2024' }
+    const history = EmployeeStatusHistory.start(
+      EmployeeStatus.NORMAL,
+      { effectiveDate: new Date(2024, 0, 15) },
+      options,
+    )
+
+    it('deve rejeitar alterações anteriores à admissão', () => {
+      expect(() =>
+        EmployeeStatusHistory.start(
+          EmployeeStatus.NORMAL,
+          { effectiveDate: new Date(2024, 0, 14) },
+          options,
+        ),
+      ).toThrow(expect.objectContaining({ code: ValidationErrorCode.STATUS_DATE_BEFORE_ADMISSION }))
+
+      expect(() =>
+        EmployeeStatusHistory.fromChanges(
+          [
+            { status: EmployeeStatus.NORMAL, effectiveDate: new Date(2023, 11, 1) },
+            { status: EmployeeStatus.DISMISSED, effectiveDate: new Date(2024, 0, 10) },
+          ],
+          { admissionDate: new Date(2023, 11, 1) },
+        ).transition(EmployeeStatus.NORMAL, { effectiveDate: new Date(2024, 0, 11) }),
+      ).toThrow(ValidationError)
+    })
+
+    it('deve rejeitar demissões anteriores à admissão', () => {
+      expect(() =>
+        EmployeeStatusHistory.start(
+          EmployeeStatus.DISMISSED,
+          { effectiveDate: new Date(2024, 0, 1) },
+          options,
+        ),
+      ).toThrow(
+        expect.objectContaining({ code: ValidationErrorCode.STATUS_DISMISSAL_BEFORE_ADMISSION }),
+      )
+    })
+
+    it('deve aceitar férias e afastamentos após a admissão', () => {
+      const vacation = history.transition(EmployeeStatus.VACATION, {
+        effectiveDate: new Date(2025, 0, 15),
+        expectedReturnDate: new Date(2025, 1, 14),
+      })
+
+      expect(vacation.current).toBe(EmployeeStatus.VACATION)
+      expect(vacation.admissionDate?.formatted).toBe('15/01/2024')
+    })
+
+    it('deve calcular o tempo de casa até a demissão', () => {
+      const dismissed = history.transition(EmployeeStatus.DISMISSED, {
+        effectiveDate: new Date(2025, 2, 10),
+      })
+
+      expect(history.tenure('10/03/2025')).toEqual({ years: 1, months: 1, days: 23 })
+      expect(dismissed.tenure('01/01/2030')).toEqual({ years: 1, months: 1, days: 23 })
+      expect(
+        EmployeeStatusHistory.start(EmployeeStatus.NORMAL, { effectiveDate: admission }).tenure(),
+      ).toBeUndefined()
+    })
+  })
+
+  describe('Employee', () => {
+    it('deve impedir transições não permitidas no funcionário', () => {
+      const employee = Employee.create({
+        name: 'Maria da Silva',
+        cpf: '529.982.247-25',
+        email: 'maria@exemplo.com',
+        status: EmployeeStatus.DISMISSED,
+      })
+
+      expect(() => employee.withStatus(EmployeeStatus.VACATION)).toThrow(
+        expect.objectContaining({ code: ValidationErrorCode.STATUS_TRANSITION_NOT_ALLOWED }),
+      )
+    })
+  })
+})
@@ -0,0 +1,145 @@
+import { Employee } from '../entities'
+import { ValidationError } from '../errors'
+import { CPF, Email, FullName } from '../factories'
+import { EmployeeStatus, ValidationErrorCode } from '../types'
+
+describe('Employee', () => {
+  const input = {
+    id: 'funcionario-1',
+    name: 'maria da silva',
+    cpf: '529.982.247-25',
+    email: 'Maria@Exemplo.com',
+    status: EmployeeStatus.NORMAL,
+    createdAt: new Date('2024-01-10T12:00:00Z'),
+  }
+
+  describe('Criação', () => {
+    it('deve criar um funcionário a partir de strings', () => {
+      const employee = Employee.create(input)
+      expect(employee).toBeInstanceOf(Employee)
+      expect(employee.id).toBe('funcionario-1')
+      expect(employee.name.raw).toBe('Maria da Silva')
+      expect(employee.cpf.raw).toBe('52998224725')
+      expect(employee.email.raw).toBe('maria@exemplo.com')
+      expect(employee.status).toBe(EmployeeStatus.NORMAL)
+      expect(employee.updatedAt).toEqual(employee.createdAt)
+    })
+
+    it('deve aceitar instâncias dos objetos de valor', () => {
+      const employee = Employee.create({
+        name: new FullName('João Souza'),
+        cpf: new CPF('111.444.777-35'),
+        email: new Email('joao@exemplo.com'),
+      })
+      expect(employee.name.raw).toBe('João Souza')
+      expect(employee.status).toBe(EmployeeStatus.NORMAL)
+      expect(employee.id).toMatch(/^[0-9a-f-]{36}$/)
+    })
+
+    it('deve reportar todos os campos inválidos de uma só vez', () => {
+      const result = Employee.parse({
+        ...input,
+        name: 'João',
+        cpf: '123',
+        email: 'teste@',
+        status: 'Aposentado' as EmployeeStatus,
+      })
+
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.errors.map((error) => [error.field, error.code])).toEqual([
+          ['name', ValidationErrorCode.NAME_SINGLE_WORD],
+          ['cpf', ValidationErrorCode.CPF_WRONG_LENGTH],
+          ['email', ValidationErrorCode.EMAIL_INVALID_FORMAT],
+          ['status', ValidationErrorCode.EMPLOYEE_STATUS_INVALID],
+        ])
+      }
+    })
+
+    it('deve rejeitar id vazio e datas inconsistentes', () => {
+      const result = Employee.parse({
+        ...input,
+        id: ' ',
+        updatedAt: new Date('2023-01-01T00:00:00Z'),
+      })
+
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.errors.map((error) => error.field)).toEqual(['id', 'updatedAt'])
+      }
+    })
+
+    it('deve reportar a data de criação que não é um Date', () => {
+      const result = Employee.parse({
+        ...input,
+        createdAt: '2024-01-10' as unknown as Date,
+        updatedAt: new Date('2024-02-01T00:00:00Z'),
+      })
+
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.errors.map((error) => [error.field, error.code])).toEqual([
+          ['createdAt', ValidationErrorCode.EMPLOYEE_INVALID_DATE],
+        ])
+      }
+    })
+
+    it('deve lançar ValidationError com todos os problemas', () => {
+      expect(() => Employee.create({ ...input, cpf: '123', email: 'x' })).toThrow(ValidationError)
+      try {
+        Employee.create({ ...input, cpf: '123', email: 'x' })
+      } catch (error) {
+        expect((error as ValidationError).issues).toHaveLength(2)
+      }
+    })
+  })
+
+  describe('Alterações imutáveis', () => {
+    const employee = Employee.create(input)
+    const updatedAt = new Date('2024-02-01T12:00:00Z')
+
+    it('deve retornar uma nova instância ao alterar o nome', () => {
+      const updated = employee.withName('Maria de Souza', updatedAt)
+      expect(updated).not.toBe(employee)
+      expect(updated.name.raw).toBe('Maria de Souza')
+      expect(updated.updatedAt).toEqual(updatedAt)
+      expect(employee.name.raw).toBe('Maria da Silva')
+      expect(employee.updatedAt).toEqual(input.createdAt)
+    })
+
+    it('deve alterar CPF, email e status', () => {
+      const updated = employee
+        .withCpf('111.444.777-35', updatedAt)
+        .withEmail('maria.silva@exemplo.com', updatedAt)
+        .withStatus(EmployeeStatus.VACATION, updatedAt)
+      expect(updated.cpf.raw).toBe('11144477735')
+      expect(updated.email.raw).toBe('maria.silva@exemplo.com')
+      expect(updated.status).toBe(EmployeeStatus.VACATION)
+      expect(updated.createdAt).toEqual(employee.createdAt)
+    })
+
+    it('deve lançar erro ao alterar para um valor inválido', () => {
+      expect(() => employee.withCpf('123', updatedAt)).toThrow(ValidationError)
+    })
+
+    it('deve usar o idioma informado nas mensagens de erro', () => {
+      expect(() => employee.withCpf('123', updatedAt, { locale: 'en' })).toThrow(
+        'CPF must contain exactly 11 numeric digits',
+      )
+      expect(() =>
+        employee
+          .withStatus(EmployeeStatus.DISMISSED, updatedAt)
+          .withStatus(EmployeeStatus.NORMAL, updatedAt, { locale: 'en' }),
+      ).toThrow(/^Status transition not allowed/)
+    })
+  })
+
+  describe('Igualdade', () => {
+    it('deve comparar funcionários pela identidade', () => {
+      const employee = Employee.create(input)
+      expect(employee.equals(employee.withStatus(EmployeeStatus.LEAVE))).toBe(true)
+      expect(employee.equals(Employee.create({ ...input, id: 'funcionario-2' }))).toBe(false)
+      expect(employee.equals(undefined)).toBe(false)
+    })
+  })
+})
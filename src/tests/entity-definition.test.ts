@@ -0,0 +1,155 @@
+import { z } from 'zod'
+
+import { CPF, Email, FullName } from '../factories'
+import {
+  CreateDto,
+  CreateInput,
+  defineEntity,
+  field,
+  ReadDto,
+  UpdateDto,
+  UpdateInput,
+} from '../schemas'
+import { EmployeeStatus, ValidationErrorCode } from '../types'
+
+describe('defineEntity', () => {
+  const employeeDefinition = defineEntity({
+    id: field.string().generated(),
+    name: field.fullName(),
+    cpf: field.cpf().readonly(),
+    email: field.email(),
+    status: field.employeeStatus().optional(),
+    notes: field.string().optional(),
+    createdAt: field.date().generated(),
+  })
+
+  const createInput: CreateInput<typeof employeeDefinition> = {
+    name: 'maria da silva',
+    cpf: '529.982.247-25',
+    email: 'maria@exemplo.com',
+  }
+
+  describe('Marcadores', () => {
+    it('deve aplicar os marcadores sem alterar o campo original', () => {
+      const base = field.string()
+      const flagged = base.readonly().optional()
+
+      expect(base.flags).toEqual({ readonly: false, generated: false, optional: false })
+      expect(flagged.flags).toEqual({ readonly: true, generated: false, optional: true })
+      expect(flagged.schema).toBe(base.schema)
+    })
+  })
+
+  describe('Criação', () => {
+    it('deve validar o payload e produzir os objetos de valor', () => {
+      const data: CreateDto<typeof employeeDefinition> =
+        employeeDefinition.createSchema.parse(createInput)
+
+      expect(data.name).toBeInstanceOf(FullName)
+      expect(data.name.raw).toBe('Maria da Silva')
+      expect(data.cpf).toBeInstanceOf(CPF)
+      expect(data.email).toBeInstanceOf(Email)
+      expect(data.status).toBeUndefined()
+    })
+
+    it('deve aceitar os campos opcionais', () => {
+      const data = employeeDefinition.createSchema.parse({
+        ...createInput,
+        status: 'Férias',
+        notes: 'Contratação temporária',
+      })
+
+      expect(data.status).toBe(EmployeeStatus.VACATION)
+      expect(data.notes).toBe('Contratação temporária')
+    })
+
+    test.each(['id', 'createdAt'])('deve rejeitar o campo gerado %s', (name) => {
+      const result = employeeDefinition.createSchema.safeParse({ ...createInput, [name]: 'x' })
+
+      expect(result.success).toBe(false)
+      expect(result.error?.issues[0].code).toBe(z.ZodIssueCode.unrecognized_keys)
+    })
+
+    it('deve exigir os campos obrigatórios', () => {
+      const result = employeeDefinition.createSchema.safeParse({ name: 'Maria da Silva' })
+
+      expect(result.success).toBe(false)
+      expect(result.error?.issues.map((issue) => issue.path[0])).toEqual(['cpf', 'email'])
+    })
+
+    it('deve expor o código de erro dos objetos de valor', () => {
+      const result = employeeDefinition.createSchema.safeParse({
+        ...createInput,
+        cpf: '111.111.111-11',
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.error?.issues[0]).toEqual(
+        expect.objectContaining({
+          path: ['cpf'],
+          params: { code: ValidationErrorCode.CPF_REPEATED_DIGITS },
+        }),
+      )
+    })
+  })
+
+  describe('Atualização', () => {
+    it('deve aceitar atualizações parciais', () => {
+      const input: UpdateInput<typeof employeeDefinition> = { email: 'maria.silva@exemplo.com' }
+      const data: UpdateDto<typeof employeeDefinition> =
+        employeeDefinition.updateSchema.parse(input)
+
+      expect(data.email?.raw).toBe('maria.silva@exemplo.com')
+      expect(data.name).toBeUndefined()
+      expect(employeeDefinition.updateSchema.parse({})).toEqual({})
+    })
+
+    test.each(['cpf', 'id', 'createdAt'])('deve rejeitar o campo %s', (name) => {
+      const result = employeeDefinition.updateSchema.safeParse({ [name]: '529.982.247-25' })
+
+      expect(result.success).toBe(false)
+      expect(result.error?.issues[0].code).toBe(z.ZodIssueCode.unrecognized_keys)
+    })
+  })
+
+  describe('Leitura', () => {
+    it('deve incluir os campos gerados e converter as datas', () => {
+      const data: ReadDto<typeof employeeDefinition> = employeeDefinition.readSchema.parse({
+        ...createInput,
+        id: 'employee-1',
+        createdAt: '2024-01-15T10:00:00.000Z',
+      })
+
+      expect(data.id).toBe('employee-1')
+      expect(data.cpf.formatted).toBe('529.982.247-25')
+      expect(data.createdAt).toEqual(new Date('2024-01-15T10:00:00.000Z'))
+    })
+
+    it('deve rejeitar datas inválidas', () => {
+      const result = employeeDefinition.readSchema.safeParse({
+        ...createInput,
+        id: 'employee-1',
+        createdAt: 'não é uma data',
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.error?.issues[0].path).toEqual(['createdAt'])
+    })
+  })
+
+  describe('Tipos', () => {
+    it('deve derivar os tipos de cada payload a partir da definição', () => {
+      // @ts-expect-error campos gerados não fazem parte do payload de criação
+      const withId: CreateInput<typeof employeeDefinition> = { ...createInput, id: 'x' }
+      // @ts-expect-error campos somente leitura não fazem parte do payload de atualização
+      const withCpf: UpdateInput<typeof employeeDefinition> = { cpf: '529.982.247-25' }
+      // @ts-expect-error campos obrigatórios não podem ser omitidos na criação
+      const withoutEmail: CreateInput<typeof employeeDefinition> = {
+        name: 'Maria da Silva',
+        cpf: '',
+      }
+
+      expect([withId, withCpf, withoutEmail]).toHaveLength(3)
+    })
+  })
+})
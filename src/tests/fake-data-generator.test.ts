@@ -0,0 +1,161 @@
+import { Employee } from '../entities'
+import { CPF, Email, FullName } from '../factories'
+import { FakeDataGenerator, SeededRandom } from '../fakers'
+import { EmployeeStatus, ValidationErrorCode } from '../types'
+
+describe('FakeDataGenerator', () => {
+  describe('Determinismo', () => {
+    it('deve produzir a mesma sequência para a mesma semente', () => {
+      const a = new FakeDataGenerator(42)
+      const b = new FakeDataGenerator(42)
+
+      const first = a.employees(5).map((employee) => employee.toProps())
+      const second = b.employees(5).map((employee) => employee.toProps())
+
+      expect(first).toEqual(second)
+    })
+
+    it('deve aceitar sementes textuais', () => {
+      expect(new FakeDataGenerator('seed').cpf().raw).toBe(new FakeDataGenerator('seed').cpf().raw)
+    })
+
+    it('deve produzir sequências diferentes para sementes diferentes', () => {
+      const a = Array.from({ length: 5 }, () => new FakeDataGenerator(1).cpf().raw)
+      const b = new FakeDataGenerator(2)
+
+      expect(Array.from({ length: 5 }, () => b.cpf().raw)).not.toEqual(a)
+    })
+  })
+
+  describe('CPF', () => {
+    it('deve gerar CPFs válidos e sem repetição', () => {
+      const fake = new FakeDataGenerator(1)
+      const cpfs = Array.from({ length: 200 }, () => fake.cpf())
+
+      cpfs.forEach((cpf) => expect(CPF.isValid(cpf.raw)).toBe(true))
+      expect(new Set(cpfs.map((cpf) => cpf.raw)).size).toBe(200)
+    })
+
+    it('deve respeitar a região fiscal', () => {
+      const fake = new FakeDataGenerator(1)
+
+      for (let region = 0; region <= 9; region++) {
+        expect(fake.cpf({ fiscalRegion: region }).raw[8]).toBe(String(region))
+      }
+    })
+
+    test.each([-1, 10, 1.5])('deve rejeitar a região fiscal %p', (region) => {
+      expect(() => new FakeDataGenerator(1).cpf({ fiscalRegion: region })).toThrow(RangeError)
+    })
+
+    test.each([
+      ValidationErrorCode.CPF_WRONG_LENGTH,
+      ValidationErrorCode.CPF_REPEATED_DIGITS,
+      ValidationErrorCode.CPF_CHECK_DIGIT,
+    ] as const)('deve gerar CPFs inválidos com o erro %s', (code) => {
+      const fake = new FakeDataGenerator(7)
+
+      for (let i = 0; i < 20; i++) {
+        const result = CPF.parse(fake.invalidCpf(code))
+
+        expect(result.ok).toBe(false)
+        expect(!result.ok && result.errors[0].code).toBe(code)
+      }
+    })
+  })
+
+  describe('FullName', () => {
+    it('deve gerar nomes válidos com pelo menos prenome e sobrenome', () => {
+      const fake = new FakeDataGenerator(3)
+
+      for (let i = 0; i < 200; i++) {
+        const name = fake.fullName()
+
+        expect(FullName.isValid(name.raw)).toBe(true)
+        expect(name.raw.split(' ').length).toBeGreaterThanOrEqual(2)
+      }
+    })
+
+    it('deve incluir partículas em parte dos nomes', () => {
+      const fake = new FakeDataGenerator(3)
+      const names = Array.from({ length: 100 }, () => fake.fullName().raw)
+
+      expect(names.some((name) => / (da|de|do|das|dos) /.test(name))).toBe(true)
+    })
+  })
+
+  describe('Email', () => {
+    it('deve derivar o email do nome e do domínio', () => {
+      const email = new FakeDataGenerator(5).email('José da Conceição', 'empresa.com.br')
+
+      expect(email).toBeInstanceOf(Email)
+      expect(email.raw).toMatch(/^jose\.conceicao\d*@empresa\.com\.br$/)
+    })
+
+    it('deve gerar emails válidos para nomes gerados', () => {
+      const fake = new FakeDataGenerator(5)
+
+      for (let i = 0; i < 50; i++) {
+        expect(Email.isValid(fake.email().raw)).toBe(true)
+      }
+    })
+  })
+
+  describe('Employee', () => {
+    it('deve gerar funcionários completos e válidos', () => {
+      const employee = new FakeDataGenerator(9).employee({ domain: 'empresa.com.br' })
+
+      expect(employee).toBeInstanceOf(Employee)
+      expect(employee.id).toMatch(
+        /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+      )
+      expect(employee.email.getDomain()).toBe('empresa.com.br')
+      expect(employee.updatedAt.getTime()).toBeGreaterThanOrEqual(employee.createdAt.getTime())
+    })
+
+    it('deve manter as datas antes da data de referência', () => {
+      const referenceDate = new Date('2020-06-01T00:00:00.000Z')
+      const employees = new FakeDataGenerator(9).employees(50, { referenceDate })
+
+      employees.forEach((employee) => {
+        expect(employee.updatedAt.getTime()).toBeLessThanOrEqual(referenceDate.getTime())
+      })
+    })
+
+    it('deve sortear os status de acordo com os pesos', () => {
+      const fake = new FakeDataGenerator(11)
+      const statuses = fake.employees(500).map((employee) => employee.status)
+      const normal = statuses.filter((status) => status === EmployeeStatus.NORMAL).length
+
+      expect(normal).toBeGreaterThan(350)
+      expect(normal).toBeLessThan(450)
+    })
+
+    it('deve ignorar status com peso zero', () => {
+      const fake = new FakeDataGenerator(11)
+      const statuses = fake
+        .employees(50, {
+          statusWeights: { [EmployeeStatus.VACATION]: 1, [EmployeeStatus.DISMISSED]: 0 },
+        })
+        .map((employee) => employee.status)
+
+      expect(new Set(statuses)).toEqual(new Set([EmployeeStatus.VACATION]))
+    })
+  })
+})
+
+describe('SeededRandom', () => {
+  it('deve gerar inteiros dentro dos limites', () => {
+    const random = new SeededRandom(1)
+
+    for (let i = 0; i < 100; i++) {
+      const value = random.integer(3, 5)
+      expect(value).toBeGreaterThanOrEqual(3)
+      expect(value).toBeLessThanOrEqual(5)
+    }
+  })
+
+  it('deve rejeitar pesos sem valores positivos', () => {
+    expect(() => new SeededRandom(1).weighted({ a: 0 })).toThrow(RangeError)
+  })
+})
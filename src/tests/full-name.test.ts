@@ -1,4 +1,11 @@
-import { FullName } from '../factories/full-name'
+import { ValidationError } from '../errors'
+import {
+  FullName,
+  getFullNameRules,
+  resetFullNameRules,
+  setFullNameRules,
+} from '../factories/full-name'
+import { ValidationErrorCode } from '../types'
 
 describe('FullName', () => {
   describe('Constructor', () => {
@@ -150,4 +157,274 @@ describe('FullName', () => {
       expect(fullName.getLastName()).toBe('Silva')
     })
   })
+
+  describe('Parse', () => {
+    it('deve retornar a instância quando o nome for válido', () => {
+      const result = FullName.parse('maria da silva')
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.value.raw).toBe('Maria da Silva')
+      }
+    })
+
+    it.each([
+      ['Jo', ValidationErrorCode.NAME_TOO_SHORT],
+      ['A'.repeat(101), ValidationErrorCode.NAME_TOO_LONG],
+      ['João', ValidationErrorCode.NAME_SINGLE_WORD],
+      ['João S', ValidationErrorCode.NAME_WORD_TOO_SHORT],
+      ['João Silva123', ValidationErrorCode.NAME_INVALID_CHARACTERS],
+    ])('deve retornar o código de erro para o nome %s', (input, code) => {
+      const result = FullName.parse(input)
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.errors[0].code).toBe(code)
+        expect(result.errors[0].input).toBe(input)
+      }
+    })
+
+    it('deve lançar ValidationError no construtor', () => {
+      expect(() => new FullName('João')).toThrow(ValidationError)
+    })
+  })
+
+  describe('Máscara', () => {
+    it('deve abreviar os sobrenomes e manter as partículas por padrão', () => {
+      expect(new FullName('João Silva da Souza').masked).toBe('João S. da S.')
+    })
+
+    it('deve exibir a quantidade de palavras informada', () => {
+      expect(new FullName('Maria Clara dos Santos').mask({ visibleWords: 2 })).toBe(
+        'Maria Clara dos S.',
+      )
+    })
+  })
+
+  describe('Estrutura do nome', () => {
+    it('deve separar prenome, sobrenomes, partículas e sufixos', () => {
+      expect(new FullName('José Santos da Silva Júnior').getParts()).toEqual({
+        givenNames: ['José'],
+        surnames: ['Santos', 'Silva'],
+        particles: ['da'],
+        suffixes: ['Júnior'],
+      })
+    })
+
+    test.each([
+      ['José da Silva Júnior', 'Silva'],
+      ['Carlos Pereira Filho', 'Pereira'],
+      ['Antônio Souza Sobrinho Neto', 'Souza'],
+      ['Maria de Souza', 'Souza'],
+      ['José Neto', 'Neto'],
+      ['Pedro Costa e Silva', 'Silva'],
+    ])('deve retornar o último sobrenome de %s', (name, lastName) => {
+      expect(new FullName(name).getLastName()).toBe(lastName)
+    })
+
+    it('deve reconhecer sufixos sem acento', () => {
+      expect(new FullName('José Silva Junior').getParts().suffixes).toEqual(['Junior'])
+    })
+
+    it('deve tratar o sufixo como sobrenome quando não houver outro', () => {
+      expect(new FullName('José Filho').getParts()).toEqual({
+        givenNames: ['José'],
+        surnames: ['Filho'],
+        particles: [],
+        suffixes: [],
+      })
+    })
+  })
+
+  describe('Formatos', () => {
+    const name = new FullName('José Santos da Silva Júnior')
+
+    it('deve retornar as iniciais', () => {
+      expect(name.getInitials()).toBe('JSS')
+      expect(new FullName('maria de souza').getInitials()).toBe('MS')
+    })
+
+    test.each([
+      ['José Santos da Silva Júnior', 'José S. da Silva Júnior'],
+      ['Maria de Souza dos Santos', 'Maria S. dos Santos'],
+      ['Ana Paula Oliveira', 'Ana P. Oliveira'],
+      ['João Silva', 'João Silva'],
+    ])('deve abreviar os nomes do meio de %s', (input, abbreviated) => {
+      expect(new FullName(input).abbreviated).toBe(abbreviated)
+    })
+
+    test.each([
+      ['José da Silva Júnior', 'SILVA JÚNIOR, José da'],
+      ['José Santos da Silva', 'SILVA, José Santos da'],
+      ['Ana Paula Oliveira', 'OLIVEIRA, Ana Paula'],
+      ['José Filho', 'FILHO, José'],
+    ])('deve formatar %s para citação', (input, citation) => {
+      expect(new FullName(input).citation).toBe(citation)
+    })
+
+    test.each([
+      [100, 'José Santos da Silva Júnior'],
+      [24, 'José S. da Silva Júnior'],
+      [17, 'José Silva Júnior'],
+      [12, 'José Silva'],
+      [8, 'José S.'],
+      [5, 'José'],
+      [3, 'Jos'],
+    ])('deve gerar um nome curto de até %i caracteres', (maxLength, shortName) => {
+      expect(name.shortName(maxLength)).toBe(shortName)
+    })
+
+    it('deve rejeitar tamanho máximo inválido', () => {
+      expect(() => name.shortName(0)).toThrow(RangeError)
+    })
+  })
+
+  describe('Comparação', () => {
+    it('deve gerar a chave de busca sem acentos, maiúsculas e partículas', () => {
+      expect(new FullName('JOÃO DA SILVA').searchKey).toBe('joao silva')
+      expect(new FullName('Antônio dos Santos e Souza').searchKey).toBe('antonio santos souza')
+    })
+
+    test.each([
+      ['Sylva', 'Silva'],
+      ['Thiago', 'Tiago'],
+      ['Raphael', 'Rafael'],
+      ['Souza', 'Sousa'],
+      ['Luiz', 'Luís'],
+      ['Mattos', 'Matos'],
+      ['Conceição', 'Conseissao'],
+      ['Nascimento', 'Nasimento'],
+      ['Henrique', 'Enrrike'],
+    ])('deve gerar o mesmo código fonético para %s e %s', (a, b) => {
+      expect(new FullName(`Ana ${a}`).phoneticKey).toBe(new FullName(`Ana ${b}`).phoneticKey)
+    })
+
+    test.each([
+      ['Joao da Silva', 'JOÃO DA SYLVA'],
+      ['João Silva', 'Joao da Silva'],
+      ['Thiago Raphael de Souza', 'Tiago Rafael de Sousa'],
+    ])('deve considerar %s e %s a mesma pessoa', (a, b) => {
+      expect(FullName.similarity(a, b)).toBe(1)
+      expect(FullName.matches(a, b)).toBe(true)
+    })
+
+    test.each([
+      ['João Silva', 'José Silva'],
+      ['Maria Santos', 'Mário Soares'],
+    ])('deve diferenciar %s e %s', (a, b) => {
+      expect(FullName.similarity(a, b)).toBeLessThan(0.85)
+      expect(FullName.matches(a, b)).toBe(false)
+    })
+
+    it('deve aceitar o limite de similaridade', () => {
+      const a = new FullName('João Silva')
+      const b = new FullName('José Silva')
+
+      expect(FullName.matches(a, b, { threshold: 0.8 })).toBe(true)
+      expect(FullName.matches(a, b, { threshold: 0.9 })).toBe(false)
+      expect(() => FullName.matches(a, b, { threshold: 1.5 })).toThrow(RangeError)
+      expect(() => FullName.matches(a, b, { threshold: NaN })).toThrow(RangeError)
+    })
+
+    it('deve lançar erro para nomes inválidos', () => {
+      expect(() => FullName.matches('João', 'João Silva')).toThrow(ValidationError)
+    })
+  })
+
+  describe('Regras', () => {
+    afterEach(() => {
+      resetFullNameRules()
+    })
+
+    it('deve aceitar pessoas com nome único', () => {
+      expect(() => new FullName('Madonna')).toThrow(
+        expect.objectContaining({ code: ValidationErrorCode.NAME_SINGLE_WORD }),
+      )
+
+      const name = new FullName('madonna', { rules: { minWords: 1 } })
+      expect(name.raw).toBe('Madonna')
+      expect(name.getLastName()).toBe('Madonna')
+      expect(name.citation).toBe('MADONNA')
+    })
+
+    it('deve aplicar os limites de tamanho informados', () => {
+      const longName = `Maria ${'Souza '.repeat(20)}Silva`
+
+      expect(FullName.isValid(longName)).toBe(false)
+      expect(FullName.isValid(longName, { rules: { maxLength: 200 } })).toBe(true)
+
+      const result = FullName.parse('Ana Li', { rules: { minLength: 8 } })
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.errors[0].code).toBe(ValidationErrorCode.NAME_TOO_SHORT)
+        expect(result.errors[0].message).toBe('Nome completo deve ter pelo menos 8 caracteres')
+      }
+    })
+
+    it('deve reconhecer partículas adicionais', () => {
+      const name = new FullName('Ludwig VAN Beethoven', { rules: { particles: ['van'] } })
+
+      expect(name.raw).toBe('Ludwig van Beethoven')
+      expect(name.getParts().particles).toEqual(['van'])
+      expect(name.citation).toBe('BEETHOVEN, Ludwig van')
+    })
+
+    it('deve aceitar partículas adicionais de um caractere', () => {
+      expect(FullName.isValid('Pedro García y Pérez')).toBe(false)
+      expect(FullName.isValid('Pedro García y Pérez', { rules: { particles: ['y'] } })).toBe(true)
+    })
+
+    test.each(['Łukasz Kowalski', 'Nguyễn Văn An', 'Søren Kierkegaard', 'Иван Петров'])(
+      'deve aceitar %s com letras Unicode',
+      (name) => {
+        expect(new FullName(name, { rules: { unicode: true } }).raw).toBe(name)
+      },
+    )
+
+    it('deve rejeitar letras fora do Latin-1 por padrão', () => {
+      expect(() => new FullName('Łukasz Kowalski')).toThrow(
+        expect.objectContaining({ code: ValidationErrorCode.NAME_INVALID_CHARACTERS }),
+      )
+      expect(FullName.isValid('Łukasz K0walski', { rules: { unicode: true } })).toBe(false)
+    })
+
+    it('deve manter as letras Unicode nas chaves de busca e fonética', () => {
+      const rules = { unicode: true }
+      const name = new FullName('Łukasz Kowalski', { rules })
+
+      expect(name.searchKey).toBe('łukasz kowalski')
+      expect(name.phoneticKey).toBe('łukas kovalski')
+      expect(new FullName('Иван Петров', { rules }).phoneticKey).toBe('иван петров')
+      expect(FullName.similarity('Иван Петров', 'Иван Петров', { rules })).toBe(1)
+      expect(FullName.similarity('Иван Петров', 'Анна Смирнова', { rules })).toBeLessThan(0.85)
+      expect(FullName.matches('Иван Петров', 'Анна Смирнова', { rules })).toBe(false)
+    })
+
+    it('deve aplicar as regras informadas na comparação', () => {
+      expect(() => FullName.matches('Madonna', 'Madona')).toThrow(ValidationError)
+      expect(FullName.matches('Madonna', 'Madona', { rules: { minWords: 1 } })).toBe(true)
+      expect(
+        FullName.matches('Łukasz Kowalski', 'Lukasz Kowalski', {
+          threshold: 0.9,
+          rules: { unicode: true },
+        }),
+      ).toBe(true)
+    })
+
+    it('deve preservar a capitalização informada', () => {
+      const name = new FullName('  Maria  DE  souza McDonald ', { rules: { preserveCase: true } })
+
+      expect(name.raw).toBe('Maria DE souza McDonald')
+      expect(name.getParts().particles).toEqual(['DE'])
+    })
+
+    it('deve aplicar as regras globais', () => {
+      setFullNameRules({ minWords: 1, unicode: true })
+
+      expect(getFullNameRules()).toEqual(expect.objectContaining({ minWords: 1, maxLength: 100 }))
+      expect(FullName.isValid('Łukasz')).toBe(true)
+      expect(FullName.isValid('Łukasz', { rules: { unicode: false } })).toBe(false)
+
+      resetFullNameRules()
+      expect(FullName.isValid('Łukasz')).toBe(false)
+    })
+  })
 })
@@ -0,0 +1,214 @@
+import { RepositoryError } from '../errors'
+import { CPF, Email, FullName } from '../factories'
+import { InMemoryRepository } from '../repositories'
+import { EmployeeStatus, RepositoryErrorCode } from '../types'
+
+interface EmployeeRecord {
+  id: string
+  name: FullName
+  cpf: CPF
+  email: Email
+  status: EmployeeStatus
+  admittedAt: Date
+  version: number
+}
+
+describe('InMemoryRepository', () => {
+  const records = [
+    {
+      id: '1',
+      name: new FullName('Maria da Silva'),
+      cpf: new CPF('529.982.247-25'),
+      email: new Email('maria@exemplo.com'),
+      status: EmployeeStatus.NORMAL,
+      admittedAt: new Date('2022-03-01'),
+    },
+    {
+      id: '2',
+      name: new FullName('João Souza'),
+      cpf: new CPF('111.444.777-35'),
+      email: new Email('joao@exemplo.com'),
+      status: EmployeeStatus.VACATION,
+      admittedAt: new Date('2021-06-15'),
+    },
+    {
+      id: '3',
+      name: new FullName('Ana Paula Oliveira'),
+      cpf: new CPF('448.748.803-63'),
+      email: new Email('ana@empresa.com.br'),
+      status: EmployeeStatus.NORMAL,
+      admittedAt: new Date('2023-01-10'),
+    },
+  ]
+
+  let repository: InMemoryRepository<EmployeeRecord, string>
+
+  beforeEach(async () => {
+    repository = new InMemoryRepository<EmployeeRecord, string>({
+      unique: { cpf: (employee) => employee.cpf.raw, email: (employee) => employee.email.raw },
+    })
+    for (const record of records) {
+      await repository.create(record)
+    }
+  })
+
+  describe('create', () => {
+    it('deve armazenar a entidade com a versão 1', async () => {
+      const created = await repository.findById('1')
+      expect(created?.version).toBe(1)
+      expect(created?.name.raw).toBe('Maria da Silva')
+    })
+
+    it('deve rejeitar ids duplicados', async () => {
+      await expect(
+        repository.create({ ...records[0], cpf: new CPF('053.125.853-00') }),
+      ).rejects.toMatchObject({ code: RepositoryErrorCode.DUPLICATE_ID })
+    })
+
+    it('deve aplicar as restrições de unicidade', async () => {
+      await expect(
+        repository.create({ ...records[0], id: '4', email: new Email('outro@exemplo.com') }),
+      ).rejects.toThrow(RepositoryError)
+      await expect(
+        repository.create({ ...records[0], id: '4', email: new Email('outro@exemplo.com') }),
+      ).rejects.toMatchObject({ code: RepositoryErrorCode.UNIQUE_CONSTRAINT })
+    })
+
+    it('deve retornar cópias das entidades armazenadas', async () => {
+      const found = await repository.findById('1')
+      if (found) {
+        found.status = EmployeeStatus.DISMISSED
+      }
+      expect((await repository.findById('1'))?.status).toBe(EmployeeStatus.NORMAL)
+    })
+  })
+
+  describe('findById', () => {
+    it('deve retornar null para ids inexistentes', async () => {
+      expect(await repository.findById('99')).toBeNull()
+    })
+  })
+
+  describe('findMany', () => {
+    it('deve filtrar por valor exato, inclusive objetos de valor', async () => {
+      const page = await repository.findMany({
+        where: { status: EmployeeStatus.NORMAL, cpf: new CPF('448.748.803-63') },
+      })
+      expect(page.items.map((item) => item.id)).toEqual(['3'])
+      expect(page.total).toBe(1)
+    })
+
+    it('deve filtrar com operadores e funções', async () => {
+      const byDate = await repository.findMany({
+        where: { admittedAt: { gte: new Date('2022-01-01') } },
+        orderBy: { field: 'admittedAt' },
+      })
+      expect(byDate.items.map((item) => item.id)).toEqual(['1', '3'])
+
+      const byEmail = await repository.findMany({ where: { email: { contains: 'EXEMPLO' } } })
+      expect(byEmail.total).toBe(2)
+
+      const byStatus = await repository.findMany({
+        where: { status: { in: [EmployeeStatus.VACATION, EmployeeStatus.LEAVE] } },
+      })
+      expect(byStatus.items.map((item) => item.id)).toEqual(['2'])
+
+      const byFunction = await repository.findMany({
+        where: { name: (name) => name.getFirstName() === 'Ana' },
+      })
+      expect(byFunction.items.map((item) => item.id)).toEqual(['3'])
+    })
+
+    it('deve ordenar por vários campos e direções', async () => {
+      const page = await repository.findMany({
+        orderBy: [{ field: 'status' }, { field: 'name', direction: 'desc' }],
+      })
+      expect(page.items.map((item) => item.id)).toEqual(['2', '1', '3'])
+    })
+
+    it('deve paginar por deslocamento', async () => {
+      const page = await repository.findMany({ orderBy: { field: 'name' }, offset: 1, limit: 1 })
+      expect(page.items.map((item) => item.name.raw)).toEqual(['João Souza'])
+      expect(page.total).toBe(3)
+    })
+
+    it('deve paginar por cursor', async () => {
+      const first = await repository.findMany({ orderBy: { field: 'name' }, limit: 2 })
+      expect(first.items.map((item) => item.id)).toEqual(['3', '2'])
+      expect(first.nextCursor).not.toBeNull()
+
+      const second = await repository.findMany({
+        orderBy: { field: 'name' },
+        limit: 2,
+        cursor: first.nextCursor ?? undefined,
+      })
+      expect(second.items.map((item) => item.id)).toEqual(['1'])
+      expect(second.nextCursor).toBeNull()
+    })
+
+    it('deve manter a posição do cursor mesmo se o último item for removido', async () => {
+      const first = await repository.findMany({ orderBy: { field: 'name' }, limit: 1 })
+      await repository.delete('3')
+
+      const second = await repository.findMany({
+        orderBy: { field: 'name' },
+        cursor: first.nextCursor ?? undefined,
+      })
+      expect(second.items.map((item) => item.id)).toEqual(['2', '1'])
+    })
+
+    it('deve rejeitar cursores inválidos', async () => {
+      await expect(repository.findMany({ cursor: 'invalido' })).rejects.toMatchObject({
+        code: RepositoryErrorCode.INVALID_CURSOR,
+      })
+    })
+  })
+
+  describe('update', () => {
+    it('deve aplicar as alterações e incrementar a versão', async () => {
+      const updated = await repository.update('2', { status: EmployeeStatus.NORMAL })
+      expect(updated.status).toBe(EmployeeStatus.NORMAL)
+      expect(updated.version).toBe(2)
+    })
+
+    it('deve rejeitar versões desatualizadas', async () => {
+      await repository.update('2', { status: EmployeeStatus.NORMAL }, { expectedVersion: 1 })
+      await expect(
+        repository.update('2', { status: EmployeeStatus.LEAVE }, { expectedVersion: 1 }),
+      ).rejects.toMatchObject({ code: RepositoryErrorCode.VERSION_CONFLICT })
+    })
+
+    it('deve aplicar as restrições de unicidade', async () => {
+      await expect(
+        repository.update('2', { email: new Email('maria@exemplo.com') }),
+      ).rejects.toMatchObject({ code: RepositoryErrorCode.UNIQUE_CONSTRAINT })
+    })
+
+    it('deve rejeitar ids inexistentes', async () => {
+      await expect(repository.update('99', {})).rejects.toMatchObject({
+        code: RepositoryErrorCode.NOT_FOUND,
+      })
+    })
+  })
+
+  describe('delete', () => {
+    it('deve remover a entidade', async () => {
+      expect(await repository.delete('1')).toBe(true)
+      expect(await repository.findById('1')).toBeNull()
+      expect(await repository.delete('1')).toBe(false)
+    })
+
+    it('deve rejeitar versões desatualizadas', async () => {
+      await expect(repository.delete('1', { expectedVersion: 2 })).rejects.toMatchObject({
+        code: RepositoryErrorCode.VERSION_CONFLICT,
+      })
+    })
+  })
+
+  describe('count', () => {
+    it('deve contar as entidades que satisfazem o filtro', async () => {
+      expect(await repository.count()).toBe(3)
+      expect(await repository.count({ status: EmployeeStatus.NORMAL })).toBe(2)
+    })
+  })
+})
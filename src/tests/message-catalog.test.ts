@@ -0,0 +1,85 @@
+import { CPF, Email, FullName } from '../factories'
+import { getLocale, registerMessages, resetMessages, setLocale, translate } from '../i18n'
+import { ValidationErrorCode } from '../types'
+
+describe('MessageCatalog', () => {
+  afterEach(() => {
+    resetMessages()
+  })
+
+  describe('Idioma global', () => {
+    it('deve usar pt-BR como idioma padrão', () => {
+      expect(getLocale()).toBe('pt-BR')
+      expect(() => new CPF('12345678901')).toThrow('CPF inválido')
+    })
+
+    it('deve usar o idioma global definido', () => {
+      setLocale('en')
+      expect(() => new CPF('12345678901')).toThrow('Invalid CPF')
+      expect(() => new Email('teste@')).toThrow('Invalid email')
+    })
+
+    it('deve traduzir as mensagens para espanhol', () => {
+      setLocale('es')
+      expect(() => new FullName('João')).toThrow('Nombre completo inválido')
+    })
+  })
+
+  describe('Idioma por chamada', () => {
+    it('deve usar o idioma informado no parse', () => {
+      const result = CPF.parse('1234', { locale: 'en' })
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.errors[0].message).toBe('CPF must contain exactly 11 numeric digits')
+      }
+    })
+
+    it('deve usar o idioma informado no construtor', () => {
+      expect(() => new FullName('Jo', { locale: 'es' })).toThrow(
+        'El nombre completo debe tener al menos 3 caracteres',
+      )
+    })
+
+    it('não deve alterar o idioma global', () => {
+      Email.parse('teste@', { locale: 'en' })
+      expect(getLocale()).toBe('pt-BR')
+    })
+  })
+
+  describe('Tradução', () => {
+    it('deve interpolar os valores na mensagem', () => {
+      expect(translate(ValidationErrorCode.EMAIL_TOO_LONG, 'en', { max: 255 })).toBe(
+        'Email cannot exceed 255 characters',
+      )
+    })
+
+    it('deve usar o idioma base quando a região não estiver registrada', () => {
+      expect(translate(ValidationErrorCode.CPF_CHECK_DIGIT, 'en-US')).toBe('Invalid CPF')
+    })
+
+    it('deve usar pt-BR quando o idioma não estiver registrado', () => {
+      expect(translate(ValidationErrorCode.CPF_CHECK_DIGIT, 'fr')).toBe('CPF inválido')
+    })
+  })
+
+  describe('Registro de mensagens', () => {
+    it('deve sobrescrever mensagens embutidas', () => {
+      registerMessages('pt-BR', {
+        [ValidationErrorCode.CPF_CHECK_DIGIT]: 'Dígito verificador incorreto',
+      })
+      expect(() => new CPF('529.982.247-26')).toThrow('Dígito verificador incorreto')
+      expect(() => new CPF('1234')).toThrow('CPF deve conter exatamente 11 dígitos numéricos')
+    })
+
+    it('deve permitir registrar novos idiomas', () => {
+      registerMessages('fr', { [ValidationErrorCode.EMAIL_INVALID_FORMAT]: 'Email invalide' })
+      expect(() => new Email('teste@', { locale: 'fr' })).toThrow('Email invalide')
+    })
+
+    it('deve restaurar as mensagens embutidas', () => {
+      registerMessages('pt-BR', { [ValidationErrorCode.CPF_CHECK_DIGIT]: 'Outro texto' })
+      resetMessages()
+      expect(translate(ValidationErrorCode.CPF_CHECK_DIGIT)).toBe('CPF inválido')
+    })
+  })
+})
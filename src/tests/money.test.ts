@@ -0,0 +1,151 @@
+import { Money } from '../factories'
+import { RoundingMode, ValidationErrorCode } from '../types'
+
+describe('Money', () => {
+  describe('constructor', () => {
+    test.each([
+      ['R$ 1.234,56', 123456],
+      ['R$1.234,56', 123456],
+      ['1.234,56', 123456],
+      ['1234,56', 123456],
+      ['1234.56', 123456],
+      ['1,234.56', 123456],
+      ['1.234', 123400],
+      ['1.234.567', 123456700],
+      ['0,5', 50],
+      ['-R$ 10,00', -1000],
+      ['R$ -10,00', -1000],
+      [1234.56, 123456],
+      [0.1, 10],
+    ])('deve interpretar %p', (input, cents) => {
+      expect(new Money(input).cents).toBe(cents)
+    })
+
+    test.each([
+      ['abc', ValidationErrorCode.MONEY_INVALID_FORMAT],
+      ['', ValidationErrorCode.MONEY_INVALID_FORMAT],
+      ['1.23.4', ValidationErrorCode.MONEY_INVALID_FORMAT],
+      ['--10', ValidationErrorCode.MONEY_INVALID_FORMAT],
+      ['US$ 10,00', ValidationErrorCode.MONEY_INVALID_FORMAT],
+      ['1234,567', ValidationErrorCode.MONEY_TOO_MANY_DECIMALS],
+      ['1234.567', ValidationErrorCode.MONEY_TOO_MANY_DECIMALS],
+    ])('deve rejeitar %p com o código %p', (input, code) => {
+      expect(() => new Money(input)).toThrow(expect.objectContaining({ code, input }))
+    })
+
+    it('deve rejeitar números com mais de 2 casas decimais', () => {
+      expect(() => new Money(1.234)).toThrow(
+        expect.objectContaining({ code: ValidationErrorCode.MONEY_TOO_MANY_DECIMALS }),
+      )
+    })
+
+    it('deve aceitar outras moedas', () => {
+      const money = new Money('US$ 1,234.50', { currency: 'usd' })
+
+      expect(money.currency).toBe('USD')
+      expect(money.formatted).toBe('US$ 1.234,50')
+      expect(() => new Money('10', { currency: 'real' })).toThrow('Moeda REAL inválida')
+    })
+  })
+
+  describe('formatação', () => {
+    test.each([
+      [123456, 'R$ 1.234,56', '1234.56'],
+      [5, 'R$ 0,05', '0.05'],
+      [-123456789, '-R$ 1.234.567,89', '-1234567.89'],
+    ])('deve formatar %p centavos', (cents, formatted, decimal) => {
+      const money = Money.fromCents(cents)
+
+      expect(money.formatted).toBe(formatted)
+      expect(money.decimal).toBe(decimal)
+    })
+  })
+
+  describe('aritmética', () => {
+    const salary = new Money('R$ 1.234,56')
+
+    it('deve somar e subtrair sem erros de ponto flutuante', () => {
+      expect(new Money(0.1).add(new Money(0.2)).decimal).toBe('0.30')
+      expect(salary.subtract(new Money('1234,57')).cents).toBe(-1)
+    })
+
+    it('deve recusar a combinação de moedas diferentes', () => {
+      const dollars = new Money('10', { currency: 'USD' })
+
+      expect(() => salary.add(dollars)).toThrow(
+        expect.objectContaining({
+          code: ValidationErrorCode.MONEY_CURRENCY_MISMATCH,
+          message: 'Não é possível combinar valores em BRL e USD',
+        }),
+      )
+      expect(() => salary.compare(dollars)).toThrow(
+        expect.objectContaining({ code: ValidationErrorCode.MONEY_CURRENCY_MISMATCH }),
+      )
+      expect(salary.equals(Money.fromCents(123456, 'USD'))).toBe(false)
+    })
+
+    test.each([
+      [RoundingMode.HALF_UP, 3, -3],
+      [RoundingMode.HALF_DOWN, 2, -2],
+      [RoundingMode.HALF_EVEN, 2, -2],
+      [RoundingMode.UP, 3, -3],
+      [RoundingMode.DOWN, 2, -2],
+      [RoundingMode.CEILING, 3, -2],
+      [RoundingMode.FLOOR, 2, -3],
+    ])('deve arredondar a metade com %p', (mode, positive, negative) => {
+      expect(Money.fromCents(5).multiply(0.5, mode).cents).toBe(positive)
+      expect(Money.fromCents(-5).multiply(0.5, mode).cents).toBe(negative)
+    })
+
+    it('deve multiplicar por fatores decimais de forma exata', () => {
+      expect(salary.multiply(1.1).cents).toBe(135802)
+      expect(salary.multiply('0.075', RoundingMode.HALF_EVEN).cents).toBe(9259)
+      expect(Money.fromCents(15).multiply(0.1, RoundingMode.HALF_EVEN).cents).toBe(2)
+      expect(Money.fromCents(25).multiply(0.1, RoundingMode.HALF_EVEN).cents).toBe(2)
+      expect(() => salary.multiply('abc')).toThrow(RangeError)
+    })
+  })
+
+  describe('allocate', () => {
+    it('deve dividir sem perder centavos', () => {
+      const shares = new Money('100,00').allocate([1, 1, 1])
+
+      expect(shares.map((share) => share.cents)).toEqual([3334, 3333, 3333])
+    })
+
+    it('deve dividir proporcionalmente', () => {
+      expect(
+        Money.fromCents(1001)
+          .allocate([70, 30])
+          .map((share) => share.cents),
+      ).toEqual([701, 300])
+      expect(
+        Money.fromCents(5)
+          .allocate([1, 3])
+          .map((share) => share.cents),
+      ).toEqual([1, 4])
+      expect(
+        Money.fromCents(-100)
+          .allocate([1, 2])
+          .map((share) => share.cents),
+      ).toEqual([-33, -67])
+    })
+
+    test.each([[[]], [[1, -1]], [[0, 0]], [[Number.NaN]]])(
+      'deve rejeitar as proporções %p',
+      (ratios) => {
+        expect(() => Money.fromCents(100).allocate(ratios)).toThrow(RangeError)
+      },
+    )
+  })
+
+  describe('isValid e parse', () => {
+    it('deve validar sem lançar exceções', () => {
+      expect(Money.isValid('R$ 10,00')).toBe(true)
+      expect(Money.isValid('10,001')).toBe(false)
+      expect(Money.parse('x').ok).toBe(false)
+      expect(Money.zero().isZero).toBe(true)
+      expect(() => Money.fromCents(1.5)).toThrow(RangeError)
+    })
+  })
+})
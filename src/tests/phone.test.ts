@@ -0,0 +1,133 @@
+import { ValidationError } from '../errors'
+import { Phone, phoneAreaCodes } from '../factories'
+import { resetMessages, setLocale } from '../i18n'
+import { phoneSchema } from '../schemas'
+import { PhoneType, UF, ValidationErrorCode } from '../types'
+
+describe('Phone', () => {
+  afterEach(() => {
+    resetMessages()
+  })
+
+  describe('Constructor', () => {
+    test.each([
+      '(11) 98765-4321',
+      '11987654321',
+      '+55 11 98765-4321',
+      '+55 (11) 9 8765-4321',
+      '011 98765-4321',
+      '5511987654321',
+    ])('deve aceitar o celular %s', (input) => {
+      const phone = new Phone(input)
+
+      expect(phone.raw).toBe('11987654321')
+      expect(phone.type).toBe(PhoneType.MOBILE)
+    })
+
+    test.each(['(11) 3456-7890', '1134567890', '+55 11 3456-7890', '011 3456-7890'])(
+      'deve aceitar o telefone fixo %s',
+      (input) => {
+        const phone = new Phone(input)
+
+        expect(phone.raw).toBe('1134567890')
+        expect(phone.type).toBe(PhoneType.LANDLINE)
+      },
+    )
+
+    it('deve aceitar o DDD 55 com o código do país', () => {
+      expect(new Phone('+55 55 99123-4567').raw).toBe('55991234567')
+      expect(new Phone('(55) 99123-4567').raw).toBe('55991234567')
+    })
+
+    test.each([
+      ['0800 123 4567', '08001234567', PhoneType.TOLL_FREE],
+      ['0300 123 4567', '03001234567', PhoneType.SHARED_COST],
+      ['4004-0001', '40040001', PhoneType.NATIONAL],
+      ['3003 1234', '30031234', PhoneType.NATIONAL],
+    ])('deve aceitar o número de serviço %s', (input, raw, type) => {
+      const phone = new Phone(input)
+
+      expect(phone.raw).toBe(raw)
+      expect(phone.type).toBe(type)
+      expect(phone.ddd).toBeUndefined()
+      expect(phone.uf).toBeUndefined()
+    })
+
+    it('deve lançar ValidationError para telefones inválidos', () => {
+      expect(() => new Phone('123')).toThrow(ValidationError)
+    })
+  })
+
+  describe('Validação', () => {
+    test.each([
+      ['123', ValidationErrorCode.PHONE_INVALID_FORMAT],
+      ['(11) 98765-43210', ValidationErrorCode.PHONE_INVALID_FORMAT],
+      ['(11) 1234-5678', ValidationErrorCode.PHONE_INVALID_FORMAT],
+      ['(20) 98765-4321', ValidationErrorCode.PHONE_INVALID_DDD],
+      ['(10) 3456-7890', ValidationErrorCode.PHONE_INVALID_DDD],
+      ['(11) 8765-4321', ValidationErrorCode.PHONE_MOBILE_NINTH_DIGIT],
+      ['(11) 88765-4321', ValidationErrorCode.PHONE_MOBILE_NINTH_DIGIT],
+    ])('deve rejeitar %s', (input, code) => {
+      expect(() => new Phone(input)).toThrow(expect.objectContaining({ code, input }))
+      expect(Phone.isValid(input)).toBe(false)
+    })
+
+    it('deve informar o DDD inválido na mensagem', () => {
+      expect(() => new Phone('(20) 98765-4321')).toThrow('DDD 20 inválido')
+
+      setLocale('en')
+      expect(() => new Phone('(20) 98765-4321')).toThrow('Invalid area code 20')
+    })
+
+    it('deve validar sem lançar exceções', () => {
+      expect(Phone.isValid('(11) 98765-4321')).toBe(true)
+
+      const result = Phone.parse('(11) 8765-4321')
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.errors[0].message).toBe('Celulares devem ter 9 dígitos e começar com 9')
+      }
+    })
+
+    it('deve validar com o schema', () => {
+      const result = phoneSchema.safeParse('11987654321')
+
+      expect(result.success).toBe(true)
+      expect(result.data).toBeInstanceOf(Phone)
+      expect(phoneSchema.safeParse('(20) 98765-4321').success).toBe(false)
+    })
+  })
+
+  describe('Saídas', () => {
+    test.each([
+      ['11987654321', '(11) 98765-4321', '+5511987654321'],
+      ['1134567890', '(11) 3456-7890', '+551134567890'],
+      ['08001234567', '0800 123 4567', '+558001234567'],
+      ['03001234567', '0300 123 4567', '+553001234567'],
+      ['40040001', '4004-0001', '+5540040001'],
+    ])('deve formatar %s', (input, formatted, e164) => {
+      const phone = new Phone(input)
+
+      expect(phone.formatted).toBe(formatted)
+      expect(phone.e164).toBe(e164)
+    })
+
+    test.each([
+      ['(11) 98765-4321', '11', UF.SP],
+      ['(21) 3456-7890', '21', UF.RJ],
+      ['(61) 99876-5432', '61', UF.DF],
+      ['(92) 98765-4321', '92', UF.AM],
+      ['(99) 3456-7890', '99', UF.MA],
+    ])('deve identificar o DDD e o estado de %s', (input, ddd, uf) => {
+      const phone = new Phone(input)
+
+      expect(phone.ddd).toBe(ddd)
+      expect(phone.uf).toBe(uf)
+    })
+
+    it('deve mapear todos os DDDs em uso', () => {
+      expect(Object.keys(phoneAreaCodes)).toHaveLength(67)
+      expect(new Set(Object.values(phoneAreaCodes)).size).toBe(27)
+    })
+  })
+})
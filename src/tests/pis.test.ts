@@ -0,0 +1,62 @@
+import { ValidationError } from '../errors'
+import { PIS } from '../factories'
+import { pisSchema } from '../schemas'
+import { ValidationErrorCode } from '../types'
+
+describe('PIS', () => {
+  describe('Constructor', () => {
+    test.each(['120.12345.67-2', '12012345672', '170.54938.32-0'])(
+      'deve aceitar o PIS %s',
+      (input) => {
+        expect(new PIS(input)).toBeInstanceOf(PIS)
+      },
+    )
+
+    it('deve remover a pontuação e formatar o PIS', () => {
+      const pis = new PIS('12012345672')
+
+      expect(pis.raw).toBe('12012345672')
+      expect(pis.formatted).toBe('120.12345.67-2')
+    })
+
+    it('deve aceitar restos menores que 2 com dígito 0', () => {
+      expect(PIS.isValid('123.45678.90-0')).toBe(true)
+    })
+
+    test.each([
+      ['1201234567', ValidationErrorCode.PIS_WRONG_LENGTH],
+      ['120123456720', ValidationErrorCode.PIS_WRONG_LENGTH],
+      ['11111111111', ValidationErrorCode.PIS_REPEATED_DIGITS],
+      ['120.12345.67-3', ValidationErrorCode.PIS_CHECK_DIGIT],
+    ])('deve rejeitar o PIS %s', (input, code) => {
+      expect(() => new PIS(input)).toThrow(expect.objectContaining({ code, input }))
+      expect(PIS.isValid(input)).toBe(false)
+    })
+
+    it('deve lançar ValidationError com a mensagem traduzida', () => {
+      expect(() => new PIS('123')).toThrow(ValidationError)
+      expect(() => new PIS('123')).toThrow('PIS deve conter exatamente 11 dígitos numéricos')
+      expect(() => new PIS('123', { locale: 'en' })).toThrow(
+        'PIS must contain exactly 11 numeric digits',
+      )
+    })
+  })
+
+  describe('Parse', () => {
+    it('deve retornar a instância ou os erros', () => {
+      const valid = PIS.parse('120.12345.67-2')
+      const invalid = PIS.parse('120.12345.67-3')
+
+      expect(valid.ok && valid.value.raw).toBe('12012345672')
+      expect(invalid.ok).toBe(false)
+      if (!invalid.ok) {
+        expect(invalid.errors[0].code).toBe(ValidationErrorCode.PIS_CHECK_DIGIT)
+      }
+    })
+
+    it('deve validar com o schema', () => {
+      expect(pisSchema.parse('12012345672')).toBeInstanceOf(PIS)
+      expect(pisSchema.safeParse('12012345673').success).toBe(false)
+    })
+  })
+})
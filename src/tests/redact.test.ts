@@ -0,0 +1,99 @@
+import { ValidationError } from '../errors'
+import { CPF, Email, FullName } from '../factories'
+import { redact, redactText } from '../masking'
+
+describe('redact', () => {
+  describe('Texto', () => {
+    it.each([
+      ['CPF 529.982.247-25 recusado', 'CPF ***.982.247-** recusado'],
+      ['cpf=52998224725;', 'cpf=***.982.247-**;'],
+      ['contato: usuario@exemplo.com.', 'contato: u*****o@exemplo.com.'],
+    ])('deve substituir os dados pessoais em "%s"', (input, expected) => {
+      expect(redactText(input)).toBe(expected)
+    })
+
+    it.each([
+      'CPF 529.982.247-26 com dígito inválido',
+      'pedido 152998224725 com mais dígitos',
+      'sem dados pessoais',
+    ])('deve manter textos sem dados válidos: "%s"', (input) => {
+      expect(redactText(input)).toBe(input)
+    })
+
+    it('deve tratar emails antes de CPFs', () => {
+      expect(redactText('52998224725@exemplo.com')).toBe('5*********5@exemplo.com')
+    })
+
+    it('deve aceitar substituições personalizadas', () => {
+      expect(
+        redactText('529.982.247-25 / usuario@exemplo.com', {
+          cpf: () => '[CPF]',
+          email: (email) => `[${email.getDomain()}]`,
+        }),
+      ).toBe('[CPF] / [exemplo.com]')
+    })
+  })
+
+  describe('Objetos', () => {
+    it('deve percorrer objetos e listas sem alterar o original', () => {
+      const payload = {
+        user: { cpf: '529.982.247-25', emails: ['usuario@exemplo.com'] },
+        total: 3,
+        createdAt: new Date('2024-01-01T00:00:00.000Z'),
+      }
+
+      expect(redact(payload)).toEqual({
+        user: { cpf: '***.982.247-**', emails: ['u*****o@exemplo.com'] },
+        total: 3,
+        createdAt: new Date('2024-01-01T00:00:00.000Z'),
+      })
+      expect(payload.user.cpf).toBe('529.982.247-25')
+    })
+
+    it('deve substituir as instâncias dos objetos de valor', () => {
+      expect(
+        redact({
+          name: new FullName('João Silva da Souza'),
+          cpf: new CPF('52998224725'),
+          email: new Email('usuario@exemplo.com'),
+        }),
+      ).toEqual({
+        name: 'João S. da S.',
+        cpf: '***.982.247-**',
+        email: 'u*****o@exemplo.com',
+      })
+    })
+
+    it('deve percorrer mapas e conjuntos', () => {
+      const result = redact({
+        map: new Map([['cpf', '52998224725']]),
+        set: new Set(['usuario@exemplo.com']),
+      }) as { map: Map<string, string>; set: Set<string> }
+
+      expect(result.map.get('cpf')).toBe('***.982.247-**')
+      expect([...result.set]).toEqual(['u*****o@exemplo.com'])
+    })
+
+    it('deve preservar referências circulares', () => {
+      const payload: Record<string, unknown> = { cpf: '52998224725' }
+      payload.self = payload
+
+      const result = redact(payload) as Record<string, unknown>
+
+      expect(result.cpf).toBe('***.982.247-**')
+      expect(result.self).toBe(result)
+    })
+
+    it('deve remover a entrada dos erros de validação', () => {
+      const result = CPF.parse('usuario@exemplo.com 529.982.247-26')
+      const error = new ValidationError(result.ok ? [] : result.errors)
+      error.message = 'Falha para 529.982.247-25'
+
+      const redacted = redact(error) as Record<string, unknown>
+
+      expect(redacted.message).toBe('Falha para ***.982.247-**')
+      expect(JSON.stringify(redacted)).not.toContain('usuario@exemplo.com')
+      expect(JSON.stringify(redacted)).not.toContain('529.982.247-25')
+    })
+  })
+})
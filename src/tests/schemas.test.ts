@@ -0,0 +1,124 @@
+import { z } from 'zod'
+
+import { ValidationError } from '../errors'
+import { CNPJ, CPF, Email, FullName } from '../factories'
+import { resetMessages, setLocale } from '../i18n'
+import {
+  birthDateSchema,
+  cnpjSchema,
+  cpfSchema,
+  emailSchema,
+  employeeStatusSchema,
+  fullNameSchema,
+} from '../schemas'
+import { EmployeeStatus, ValidationErrorCode } from '../types'
+
+describe('Schemas', () => {
+  const requestSchema = z.object({
+    name: fullNameSchema,
+    cpf: cpfSchema,
+    email: emailSchema,
+    status: employeeStatusSchema,
+  })
+
+  afterEach(() => {
+    resetMessages()
+  })
+
+  describe('Transformação', () => {
+    it('deve transformar as entradas em instâncias dos objetos de valor', () => {
+      const data = requestSchema.parse({
+        name: 'maria da silva',
+        cpf: '529.982.247-25',
+        email: ' Maria@Exemplo.com ',
+        status: 'Férias',
+      })
+
+      expect(data.name).toBeInstanceOf(FullName)
+      expect(data.name.raw).toBe('Maria da Silva')
+      expect(data.cpf).toBeInstanceOf(CPF)
+      expect(data.cpf.raw).toBe('52998224725')
+      expect(data.email).toBeInstanceOf(Email)
+      expect(data.email.raw).toBe('maria@exemplo.com')
+      expect(data.status).toBe(EmployeeStatus.VACATION)
+    })
+
+    it('deve aceitar CNPJ com ou sem pontuação', () => {
+      expect(cnpjSchema.parse('11.222.333/0001-81')).toBeInstanceOf(CNPJ)
+      expect(cnpjSchema.parse('12abc34501de35').raw).toBe('12ABC34501DE35')
+    })
+
+    it('deve aceitar o status pelo nome da chave', () => {
+      expect(employeeStatusSchema.parse('dismissed')).toBe(EmployeeStatus.DISMISSED)
+      expect(employeeStatusSchema.parse(EmployeeStatus.LEAVE)).toBe(EmployeeStatus.LEAVE)
+    })
+  })
+
+  describe('Erros', () => {
+    it('deve associar os erros aos caminhos dos campos', () => {
+      const result = requestSchema.safeParse({
+        name: 'João',
+        cpf: '529.982.247-26',
+        email: 'teste@',
+        status: 'Aposentado',
+      })
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(
+          result.error.issues.map((issue) => ({
+            path: issue.path,
+            message: issue.message,
+            code: issue.code === 'custom' ? issue.params?.code : undefined,
+          })),
+        ).toEqual([
+          {
+            path: ['name'],
+            message: 'Nome completo inválido',
+            code: ValidationErrorCode.NAME_SINGLE_WORD,
+          },
+          { path: ['cpf'], message: 'CPF inválido', code: ValidationErrorCode.CPF_CHECK_DIGIT },
+          {
+            path: ['email'],
+            message: 'Email inválido',
+            code: ValidationErrorCode.EMAIL_INVALID_FORMAT,
+          },
+          {
+            path: ['status'],
+            message: 'Status de funcionário inválido',
+            code: ValidationErrorCode.EMPLOYEE_STATUS_INVALID,
+          },
+        ])
+      }
+    })
+
+    it('deve usar o idioma global nas mensagens', () => {
+      setLocale('en')
+      const result = cpfSchema.safeParse('1234')
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues[0].message).toBe('CPF must contain exactly 11 numeric digits')
+      }
+    })
+
+    it('deve preservar os valores interpolados nas mensagens', () => {
+      const result = birthDateSchema.safeParse('01/01/2020')
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        const issue = result.error.issues[0]
+        expect(issue.code === 'custom' && issue.params?.values).toEqual({ minimumAge: 16 })
+
+        const error = ValidationError.fromZodError(result.error, '01/01/2020', 'en')
+        expect(error.issues[0]).toMatchObject({
+          code: ValidationErrorCode.BIRTH_DATE_UNDER_MINIMUM_AGE,
+          message: expect.stringContaining('16'),
+          values: { minimumAge: 16 },
+        })
+      }
+    })
+
+    it('deve rejeitar valores que não são strings', () => {
+      expect(cpfSchema.safeParse(52998224725).success).toBe(false)
+    })
+  })
+})
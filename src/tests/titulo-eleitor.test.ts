@@ -0,0 +1,66 @@
+import { TituloEleitor, tituloEleitorUfCodes } from '../factories'
+import { tituloEleitorSchema } from '../schemas'
+import { UF, ValidationErrorCode } from '../types'
+
+describe('TituloEleitor', () => {
+  describe('Constructor', () => {
+    test.each([
+      ['1234 5678 0191', UF.SP],
+      ['004356870906', UF.SC],
+      ['8765 4321 0329', UF.RJ],
+      ['111111110213', UF.MG],
+    ])('deve aceitar o título %s', (input, uf) => {
+      const title = new TituloEleitor(input)
+
+      expect(title.uf).toBe(uf)
+      expect(title.isAbroad).toBe(false)
+    })
+
+    it('deve formatar o título', () => {
+      const title = new TituloEleitor('123456780191')
+
+      expect(title.raw).toBe('123456780191')
+      expect(title.formatted).toBe('1234 5678 0191')
+    })
+
+    it('deve aceitar títulos de eleitores no exterior', () => {
+      const title = new TituloEleitor('1020 3040 2852')
+
+      expect(title.uf).toBeUndefined()
+      expect(title.isAbroad).toBe(true)
+    })
+
+    test.each([
+      ['12345678019', ValidationErrorCode.TITULO_ELEITOR_WRONG_LENGTH],
+      ['1234567801910', ValidationErrorCode.TITULO_ELEITOR_WRONG_LENGTH],
+      ['123456782991', ValidationErrorCode.TITULO_ELEITOR_INVALID_UF],
+      ['123456780091', ValidationErrorCode.TITULO_ELEITOR_INVALID_UF],
+      ['123456780192', ValidationErrorCode.TITULO_ELEITOR_CHECK_DIGIT],
+      ['123456780181', ValidationErrorCode.TITULO_ELEITOR_CHECK_DIGIT],
+    ])('deve rejeitar o título %s', (input, code) => {
+      expect(() => new TituloEleitor(input)).toThrow(expect.objectContaining({ code, input }))
+      expect(TituloEleitor.isValid(input)).toBe(false)
+    })
+  })
+
+  describe('Códigos de UF', () => {
+    it('deve mapear os 27 estados', () => {
+      expect(new Set(Object.values(tituloEleitorUfCodes)).size).toBe(27)
+    })
+  })
+
+  describe('Parse', () => {
+    it('deve retornar os erros sem lançar exceções', () => {
+      const result = TituloEleitor.parse('123456780192')
+
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.errors[0].message).toBe('Título de eleitor inválido')
+      }
+    })
+
+    it('deve validar com o schema', () => {
+      expect(tituloEleitorSchema.parse('123456780191')).toBeInstanceOf(TituloEleitor)
+    })
+  })
+})
@@ -0,0 +1,25 @@
+/**
+ * Símbolo usado apenas em tempo de compilação para distinguir tipos marcados.
+ */
+declare const brand: unique symbol
+
+/**
+ * Tipo primitivo marcado: em tempo de execução é o próprio valor, mas o compilador só o aceita
+ * onde o tipo marcado é esperado depois de uma validação explícita.
+ */
+export type Branded<T, B extends string> = T & { readonly [brand]: B }
+
+/**
+ * String que já foi validada como CPF.
+ */
+export type CpfString = Branded<string, 'CpfString'>
+
+/**
+ * String que já foi validada como email.
+ */
+export type EmailString = Branded<string, 'EmailString'>
+
+/**
+ * String que já foi validada como nome completo.
+ */
+export type FullNameString = Branded<string, 'FullNameString'>
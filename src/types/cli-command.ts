@@ -0,0 +1,6 @@
+export enum CliCommand {
+  VALIDATE = 'validate',
+  FORMAT = 'format',
+  MASK = 'mask',
+  GENERATE = 'generate',
+}
@@ -0,0 +1,5 @@
+export enum CliExitCode {
+  SUCCESS = 0,
+  INVALID_INPUT = 1,
+  USAGE_ERROR = 2,
+}
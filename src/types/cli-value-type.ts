@@ -0,0 +1,5 @@
+export enum CliValueType {
+  CPF = 'cpf',
+  EMAIL = 'email',
+  NAME = 'name',
+}
@@ -0,0 +1,9 @@
+/**
+ * Opções da sugestão de correção de domínio de email.
+ */
+export interface EmailSuggestOptions {
+  /** Domínios conhecidos usados na comparação. Padrão: `commonEmailDomains`. */
+  domains?: readonly string[]
+  /** Distância de edição máxima para que um domínio seja sugerido. Padrão: 2. */
+  maxDistance?: number
+}
@@ -0,0 +1,20 @@
+export enum EmailVerificationStatus {
+  DELIVERABLE = 'deliverable',
+  UNDELIVERABLE = 'undeliverable',
+  UNKNOWN = 'unknown',
+}
+
+export enum EmailVerificationReason {
+  MX_FOUND = 'MX_FOUND',
+  ADDRESS_FALLBACK = 'ADDRESS_FALLBACK',
+  NULL_MX = 'NULL_MX',
+  NO_RECORDS = 'NO_RECORDS',
+  DOMAIN_NOT_FOUND = 'DOMAIN_NOT_FOUND',
+  LOOKUP_FAILED = 'LOOKUP_FAILED',
+}
+
+export enum EmailVerificationConfidence {
+  HIGH = 'high',
+  MEDIUM = 'medium',
+  LOW = 'low',
+}
@@ -0,0 +1,13 @@
+/**
+ * Partes de um nome completo, na ordem em que aparecem.
+ */
+export interface FullNameParts {
+  /** Prenomes (ex: `José`). */
+  givenNames: string[]
+  /** Sobrenomes, sem partículas e sufixos (ex: `Santos`, `Silva`). */
+  surnames: string[]
+  /** Preposições, artigos e conectivos (ex: `da`, `dos`, `e`). */
+  particles: string[]
+  /** Sufixos de geração ou parentesco (ex: `Júnior`, `Filho`, `Neto`, `Sobrinho`). */
+  suffixes: string[]
+}
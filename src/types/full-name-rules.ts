@@ -0,0 +1,33 @@
+import { ValidationOptions } from './validation-options'
+
+/**
+ * Regras de validação e normalização de nomes completos.
+ */
+export interface FullNameRules {
+  /** Quantidade mínima de palavras. Use 1 para aceitar pessoas com nome único. Padrão: 2. */
+  minWords?: number
+  /** Quantidade mínima de caracteres. Padrão: 3. */
+  minLength?: number
+  /** Quantidade máxima de caracteres. Padrão: 100. */
+  maxLength?: number
+  /**
+   * Partículas adicionais, mantidas em minúsculas e aceitas com um único caractere
+   * (ex: `van`, `von`, `di`, `y`). Somam-se às partículas do português.
+   */
+  particles?: readonly string[]
+  /**
+   * Aceita letras de qualquer alfabeto (`\p{L}`), como em "Łukasz" ou "Nguyễn".
+   * Padrão: false, que aceita apenas letras latinas (A-Z e À-ÿ).
+   */
+  unicode?: boolean
+  /** Preserva as maiúsculas e minúsculas informadas, apenas removendo espaços extras. Padrão: false. */
+  preserveCase?: boolean
+}
+
+/**
+ * Opções aceitas pela criação e validação de nomes completos.
+ */
+export interface FullNameOptions extends ValidationOptions {
+  /** Regras de validação. Quando omitidas, usa as regras globais. */
+  rules?: FullNameRules
+}
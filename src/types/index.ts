@@ -1 +1,20 @@
+export * from './branded'
+export * from './cli-command'
+export * from './cli-exit-code'
+export * from './cli-value-type'
+export * from './email-suggest-options'
+export * from './email-verification'
 export * from './employee-status'
+export * from './full-name-parts'
+export * from './full-name-rules'
+export * from './mask-options'
+export * from './money-options'
+export * from './name-match-options'
+export * from './phone-type'
+export * from './repository-error-code'
+export * from './rounding-mode'
+export * from './tenure'
+export * from './validation-error-code'
+export * from './validation-result'
+export * from './validation-options'
+export * from './uf'
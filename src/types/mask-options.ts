@@ -0,0 +1,34 @@
+/**
+ * Opções de mascaramento de CPF.
+ */
+export interface CpfMaskOptions {
+  /**
+   * Padrão de saída: cada `#` exibe o próximo dígito, cada `*` o oculta e os demais caracteres
+   * são copiados. Deve conter exatamente 11 marcadores. Padrão: `***.###.###-**`.
+   */
+  pattern?: string
+  /** Caractere usado no lugar dos dígitos ocultos. Padrão: `*`. */
+  maskChar?: string
+}
+
+/**
+ * Opções de mascaramento de email.
+ */
+export interface EmailMaskOptions {
+  /** Quantidade de caracteres exibidos no início do usuário. Padrão: 1. */
+  visibleStart?: number
+  /** Quantidade de caracteres exibidos no fim do usuário. Padrão: 1. */
+  visibleEnd?: number
+  /** Caractere usado no lugar dos caracteres ocultos. Padrão: `*`. */
+  maskChar?: string
+  /** Também mascara o domínio, preservando apenas o sufixo (ex: `.com.br`). Padrão: false. */
+  maskDomain?: boolean
+}
+
+/**
+ * Opções de mascaramento de nome completo.
+ */
+export interface FullNameMaskOptions {
+  /** Quantidade de palavras iniciais exibidas por completo. Padrão: 1. */
+  visibleWords?: number
+}
@@ -0,0 +1,9 @@
+import { ValidationOptions } from './validation-options'
+
+/**
+ * Opções aceitas na criação e validação de valores monetários.
+ */
+export interface MoneyOptions extends ValidationOptions {
+  /** Código ISO 4217 da moeda (ex: `BRL`, `USD`). Padrão: `BRL`. */
+  currency?: string
+}
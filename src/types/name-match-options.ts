@@ -0,0 +1,9 @@
+import { FullNameOptions } from './full-name-rules'
+
+/**
+ * Opções de comparação de nomes completos, incluindo as regras usadas na validação dos nomes.
+ */
+export interface NameMatchOptions extends FullNameOptions {
+  /** Similaridade mínima, entre 0 e 1, para considerar os nomes equivalentes. Padrão: 0.85. */
+  threshold?: number
+}
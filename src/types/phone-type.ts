@@ -0,0 +1,7 @@
+export enum PhoneType {
+  LANDLINE = 'landline',
+  MOBILE = 'mobile',
+  TOLL_FREE = 'toll-free',
+  SHARED_COST = 'shared-cost',
+  NATIONAL = 'national',
+}
@@ -0,0 +1,7 @@
+export enum RepositoryErrorCode {
+  NOT_FOUND = 'NOT_FOUND',
+  DUPLICATE_ID = 'DUPLICATE_ID',
+  UNIQUE_CONSTRAINT = 'UNIQUE_CONSTRAINT',
+  VERSION_CONFLICT = 'VERSION_CONFLICT',
+  INVALID_CURSOR = 'INVALID_CURSOR',
+}
@@ -0,0 +1,9 @@
+export enum RoundingMode {
+  HALF_UP = 'half-up',
+  HALF_DOWN = 'half-down',
+  HALF_EVEN = 'half-even',
+  UP = 'up',
+  DOWN = 'down',
+  CEILING = 'ceiling',
+  FLOOR = 'floor',
+}
@@ -0,0 +1,8 @@
+/**
+ * Tempo decorrido entre duas datas, em anos, meses e dias completos.
+ */
+export interface Tenure {
+  years: number
+  months: number
+  days: number
+}
@@ -0,0 +1,59 @@
+export enum ValidationErrorCode {
+  INVALID_VALUE = 'INVALID_VALUE',
+  CPF_WRONG_LENGTH = 'CPF_WRONG_LENGTH',
+  CPF_REPEATED_DIGITS = 'CPF_REPEATED_DIGITS',
+  CPF_CHECK_DIGIT = 'CPF_CHECK_DIGIT',
+  CPF_BASE_WRONG_LENGTH = 'CPF_BASE_WRONG_LENGTH',
+  CNPJ_INVALID_FORMAT = 'CNPJ_INVALID_FORMAT',
+  CNPJ_REPEATED_CHARACTERS = 'CNPJ_REPEATED_CHARACTERS',
+  CNPJ_CHECK_DIGIT = 'CNPJ_CHECK_DIGIT',
+  PIS_WRONG_LENGTH = 'PIS_WRONG_LENGTH',
+  PIS_REPEATED_DIGITS = 'PIS_REPEATED_DIGITS',
+  PIS_CHECK_DIGIT = 'PIS_CHECK_DIGIT',
+  TITULO_ELEITOR_WRONG_LENGTH = 'TITULO_ELEITOR_WRONG_LENGTH',
+  TITULO_ELEITOR_INVALID_UF = 'TITULO_ELEITOR_INVALID_UF',
+  TITULO_ELEITOR_CHECK_DIGIT = 'TITULO_ELEITOR_CHECK_DIGIT',
+  CNH_WRONG_LENGTH = 'CNH_WRONG_LENGTH',
+  CNH_REPEATED_DIGITS = 'CNH_REPEATED_DIGITS',
+  CNH_CHECK_DIGIT = 'CNH_CHECK_DIGIT',
+  CTPS_WRONG_LENGTH = 'CTPS_WRONG_LENGTH',
+  CTPS_INVALID = 'CTPS_INVALID',
+  EMAIL_INVALID_FORMAT = 'EMAIL_INVALID_FORMAT',
+  EMAIL_TOO_LONG = 'EMAIL_TOO_LONG',
+  EMAIL_DISPOSABLE = 'EMAIL_DISPOSABLE',
+  EMAIL_DOMAIN_NOT_ALLOWED = 'EMAIL_DOMAIN_NOT_ALLOWED',
+  NAME_TOO_SHORT = 'NAME_TOO_SHORT',
+  NAME_TOO_LONG = 'NAME_TOO_LONG',
+  NAME_SINGLE_WORD = 'NAME_SINGLE_WORD',
+  NAME_WORD_TOO_SHORT = 'NAME_WORD_TOO_SHORT',
+  NAME_INVALID_CHARACTERS = 'NAME_INVALID_CHARACTERS',
+  PHONE_INVALID_FORMAT = 'PHONE_INVALID_FORMAT',
+  PHONE_INVALID_DDD = 'PHONE_INVALID_DDD',
+  PHONE_MOBILE_NINTH_DIGIT = 'PHONE_MOBILE_NINTH_DIGIT',
+  CEP_INVALID_FORMAT = 'CEP_INVALID_FORMAT',
+  CEP_INVALID_RANGE = 'CEP_INVALID_RANGE',
+  CEP_NOT_FOUND = 'CEP_NOT_FOUND',
+  ADDRESS_FIELD_REQUIRED = 'ADDRESS_FIELD_REQUIRED',
+  ADDRESS_INVALID_UF = 'ADDRESS_INVALID_UF',
+  ADDRESS_CEP_UF_MISMATCH = 'ADDRESS_CEP_UF_MISMATCH',
+  DATE_INVALID_FORMAT = 'DATE_INVALID_FORMAT',
+  DATE_INVALID = 'DATE_INVALID',
+  BIRTH_DATE_IN_FUTURE = 'BIRTH_DATE_IN_FUTURE',
+  BIRTH_DATE_UNDER_MINIMUM_AGE = 'BIRTH_DATE_UNDER_MINIMUM_AGE',
+  MONEY_INVALID_FORMAT = 'MONEY_INVALID_FORMAT',
+  MONEY_TOO_MANY_DECIMALS = 'MONEY_TOO_MANY_DECIMALS',
+  MONEY_INVALID_CURRENCY = 'MONEY_INVALID_CURRENCY',
+  MONEY_CURRENCY_MISMATCH = 'MONEY_CURRENCY_MISMATCH',
+  IMPORT_FIELD_REQUIRED = 'IMPORT_FIELD_REQUIRED',
+  IMPORT_DUPLICATE_VALUE = 'IMPORT_DUPLICATE_VALUE',
+  IMPORT_COLUMN_NOT_FOUND = 'IMPORT_COLUMN_NOT_FOUND',
+  VALUE_NOT_NORMALIZED = 'VALUE_NOT_NORMALIZED',
+  EMPLOYEE_STATUS_INVALID = 'EMPLOYEE_STATUS_INVALID',
+  EMPLOYEE_INVALID_ID = 'EMPLOYEE_INVALID_ID',
+  EMPLOYEE_INVALID_DATE = 'EMPLOYEE_INVALID_DATE',
+  STATUS_TRANSITION_NOT_ALLOWED = 'STATUS_TRANSITION_NOT_ALLOWED',
+  STATUS_DATE_OUT_OF_ORDER = 'STATUS_DATE_OUT_OF_ORDER',
+  STATUS_RETURN_DATE_INVALID = 'STATUS_RETURN_DATE_INVALID',
+  STATUS_DATE_BEFORE_ADMISSION = 'STATUS_DATE_BEFORE_ADMISSION',
+  STATUS_DISMISSAL_BEFORE_ADMISSION = 'STATUS_DISMISSAL_BEFORE_ADMISSION',
+}
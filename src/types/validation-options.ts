@@ -0,0 +1,12 @@
+/**
+ * Identificador de idioma das mensagens de validação (ex: 'pt-BR', 'en', 'es').
+ */
+export type Locale = string
+
+/**
+ * Opções aceitas pelas operações de validação dos objetos de valor.
+ */
+export interface ValidationOptions {
+  /** Idioma das mensagens de erro. Quando omitido, usa o idioma global. */
+  locale?: Locale
+}
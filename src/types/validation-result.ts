@@ -0,0 +1,23 @@
+import { ValidationErrorCode } from './validation-error-code'
+
+/**
+ * Descreve um problema encontrado durante a validação de um valor.
+ */
+export interface ValidationIssue {
+  /** Código estável que identifica o tipo de erro. */
+  code: ValidationErrorCode
+  /** Valor recebido, exatamente como foi informado. */
+  input: string
+  /** Mensagem legível descrevendo o erro. */
+  message: string
+  /** Campo ao qual o problema se refere, quando a validação envolve vários campos. */
+  field?: string
+  /** Valores interpolados na mensagem, como `{ minimumAge: 16 }`, quando houver. */
+  values?: Record<string, string | number>
+}
+
+/**
+ * Resultado de uma validação que não lança exceções.
+ * Contém o valor criado em caso de sucesso ou a lista de erros em caso de falha.
+ */
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: ValidationIssue[] }
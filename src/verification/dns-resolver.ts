@@ -0,0 +1,95 @@
+import { DnsError } from '../errors'
+
+/**
+ * Registro MX de um domínio.
+ */
+export interface MxRecord {
+  exchange: string
+  priority: number
+}
+
+/**
+ * Resolvedor de DNS usado na verificação de emails.
+ * É compatível com `dns.promises` do Node: consultas sem registros devem rejeitar com um erro de
+ * código `ENODATA`, e domínios inexistentes com um erro de código `ENOTFOUND`.
+ */
+export interface DnsResolver {
+  resolveMx(domain: string): Promise<MxRecord[]>
+  resolve4(domain: string): Promise<string[]>
+  resolve6(domain: string): Promise<string[]>
+}
+
+/**
+ * Registros de um domínio no resolvedor em memória.
+ */
+export interface DnsRecords {
+  mx?: MxRecord[]
+  a?: string[]
+  aaaa?: string[]
+}
+
+/**
+ * Resolvedor de DNS em memória, indicado para testes e ambientes sem acesso à rede.
+ * Domínios ausentes rejeitam com `ENOTFOUND` e tipos de registro ausentes com `ENODATA`.
+ */
+export class InMemoryDnsResolver implements DnsResolver {
+  /**
+   * Registros de cada domínio.
+   * @private
+   */
+  private readonly records: Map<string, DnsRecords>
+
+  /**
+   * Construtor do resolvedor em memória.
+   * @param records - Registros de cada domínio.
+   */
+  public constructor(records: Record<string, DnsRecords> = {}) {
+    this.records = new Map(
+      Object.entries(records).map(([domain, entry]) => [domain.toLowerCase(), entry]),
+    )
+  }
+
+  /**
+   * Retorna os registros de um tipo, rejeitando como o resolvedor do Node quando não existirem.
+   * @param domain - Domínio consultado.
+   * @param type - Tipo de registro.
+   * @returns {Promise<T[]>} Registros encontrados.
+   * @private
+   */
+  private async lookup<T>(domain: string, type: keyof DnsRecords): Promise<T[]> {
+    const entry = this.records.get(domain.toLowerCase())
+    if (!entry) {
+      throw new DnsError('ENOTFOUND', domain)
+    }
+
+    const values = entry[type]
+    if (!values || values.length === 0) {
+      throw new DnsError('ENODATA', domain)
+    }
+
+    return [...values] as T[]
+  }
+
+  // -------------------------------------------------------------------------------------------------------------------
+
+  /**
+   * Define os registros de um domínio, substituindo os anteriores.
+   * @param domain - Domínio.
+   * @param records - Registros do domínio.
+   */
+  public set(domain: string, records: DnsRecords): void {
+    this.records.set(domain.toLowerCase(), records)
+  }
+
+  public resolveMx(domain: string): Promise<MxRecord[]> {
+    return this.lookup(domain, 'mx')
+  }
+
+  public resolve4(domain: string): Promise<string[]> {
+    return this.lookup(domain, 'a')
+  }
+
+  public resolve6(domain: string): Promise<string[]> {
+    return this.lookup(domain, 'aaaa')
+  }
+}
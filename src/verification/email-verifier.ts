@@ -0,0 +1,255 @@
+import { promises as dns } from 'dns'
+
+import {
+  EmailVerificationConfidence,
+  EmailVerificationReason,
+  EmailVerificationStatus,
+} from '../types'
+import { DnsResolver, MxRecord } from './dns-resolver'
+
+/**
+ * Resultado da verificação de entregabilidade de um domínio de email.
+ */
+export interface EmailVerificationResult {
+  /** Domínio verificado. */
+  domain: string
+  /** Indica se o domínio pode receber emails. */
+  status: EmailVerificationStatus
+  /** Motivo do resultado. */
+  reason: EmailVerificationReason
+  /** Grau de confiança no resultado. */
+  confidence: EmailVerificationConfidence
+  /** Registros MX encontrados, em ordem de prioridade. */
+  mx: MxRecord[]
+  /** Endereços A/AAAA usados quando o domínio não tem registros MX. */
+  addresses: string[]
+  /** Data da consulta ao DNS. */
+  checkedAt: Date
+  /** Indica se o resultado veio do cache. */
+  cached: boolean
+}
+
+/**
+ * Opções do verificador de emails.
+ */
+export interface EmailVerifierOptions {
+  /** Resolvedor de DNS. Padrão: `dns.promises` do Node. */
+  resolver?: DnsResolver
+  /** Tempo de vida, em milissegundos, dos resultados em cache. Padrão: 5 minutos. */
+  ttl?: number
+  /** Relógio usado na expiração do cache. Padrão: `Date.now`. */
+  now?: () => number
+}
+
+/**
+ * Resultado armazenado em cache, com o instante de expiração.
+ */
+interface CacheEntry {
+  expiresAt: number
+  result: Promise<EmailVerificationResult>
+}
+
+/**
+ * Códigos de erro do DNS que indicam a ausência de registros, e não uma falha de consulta.
+ */
+const notFoundCodes = ['ENOTFOUND', 'ENODATA']
+
+/**
+ * Retorna o código de um erro de consulta de DNS.
+ * @param error - Erro lançado pelo resolvedor.
+ * @returns {string | undefined} Código do erro, se houver.
+ */
+function errorCode(error: unknown): string | undefined {
+  return error !== null && typeof error === 'object' && 'code' in error
+    ? String((error as { code: unknown }).code)
+    : undefined
+}
+
+/**
+ * Verificador de entregabilidade de emails por consulta de DNS.
+ * Procura registros MX, recorre a registros A/AAAA quando não há MX (RFC 5321) e identifica
+ * domínios que declaram não receber emails com um MX nulo (RFC 7505).
+ */
+export class EmailVerifier {
+  /**
+   * Resolvedor de DNS.
+   * @private
+   */
+  private readonly resolver: DnsResolver
+
+  /**
+   * Tempo de vida dos resultados em cache.
+   * @private
+   */
+  private readonly ttl: number
+
+  /**
+   * Relógio usado na expiração do cache.
+   * @private
+   */
+  private readonly now: () => number
+
+  /**
+   * Resultados em cache, indexados pelo domínio. Consultas em andamento também são compartilhadas.
+   * @private
+   */
+  private readonly cache = new Map<string, CacheEntry>()
+
+  /**
+   * Construtor do verificador.
+   * @param options - Resolvedor de DNS, tempo de vida do cache e relógio.
+   */
+  public constructor(options: EmailVerifierOptions = {}) {
+    this.resolver = options.resolver ?? dns
+    this.ttl = options.ttl ?? 5 * 60 * 1000
+    this.now = options.now ?? Date.now
+  }
+
+  /**
+   * Executa uma consulta, tratando a ausência de registros como lista vazia.
+   * @param query - Consulta ao resolvedor.
+   * @returns {Promise<{ values: T[]; notFound: boolean }>} Registros e indicação de domínio inexistente.
+   * @throws {Error} Se a consulta falhar por outro motivo (ex: tempo esgotado).
+   * @private
+   */
+  private async query<T>(query: () => Promise<T[]>): Promise<{ values: T[]; notFound: boolean }> {
+    try {
+      return { values: await query(), notFound: false }
+    } catch (error) {
+      const code = errorCode(error)
+      if (code !== undefined && notFoundCodes.includes(code)) {
+        return { values: [], notFound: code === 'ENOTFOUND' }
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Consulta o DNS de um domínio e classifica o resultado.
+   * @param domain - Domínio a ser verificado.
+   * @returns {Promise<EmailVerificationResult>} Resultado da verificação.
+   * @private
+   */
+  private async lookup(domain: string): Promise<EmailVerificationResult> {
+    const result = (
+      status: EmailVerificationStatus,
+      reason: EmailVerificationReason,
+      confidence: EmailVerificationConfidence,
+      mx: MxRecord[] = [],
+      addresses: string[] = [],
+    ): EmailVerificationResult => ({
+      domain,
+      status,
+      reason,
+      confidence,
+      mx,
+      addresses,
+      checkedAt: new Date(this.now()),
+      cached: false,
+    })
+
+    try {
+      const mx = await this.query(() => this.resolver.resolveMx(domain))
+      const records = [...mx.values].sort((a, b) => a.priority - b.priority)
+
+      // Um único MX com destino vazio ou "." indica que o domínio não recebe emails
+      if (records.length === 1 && ['', '.'].includes(records[0].exchange)) {
+        return result(
+          EmailVerificationStatus.UNDELIVERABLE,
+          EmailVerificationReason.NULL_MX,
+          EmailVerificationConfidence.HIGH,
+          records,
+        )
+      }
+
+      if (records.length > 0) {
+        return result(
+          EmailVerificationStatus.DELIVERABLE,
+          EmailVerificationReason.MX_FOUND,
+          EmailVerificationConfidence.HIGH,
+          records,
+        )
+      }
+
+      if (mx.notFound) {
+        return result(
+          EmailVerificationStatus.UNDELIVERABLE,
+          EmailVerificationReason.DOMAIN_NOT_FOUND,
+          EmailVerificationConfidence.HIGH,
+        )
+      }
+
+      // Sem MX, o email é entregue diretamente ao endereço do domínio (RFC 5321, seção 5.1)
+      const [ipv4, ipv6] = await Promise.all([
+        this.query(() => this.resolver.resolve4(domain)),
+        this.query(() => this.resolver.resolve6(domain)),
+      ])
+      const addresses = [...ipv4.values, ...ipv6.values]
+
+      if (addresses.length > 0) {
+        return result(
+          EmailVerificationStatus.DELIVERABLE,
+          EmailVerificationReason.ADDRESS_FALLBACK,
+          EmailVerificationConfidence.MEDIUM,
+          [],
+          addresses,
+        )
+      }
+
+      return result(
+        EmailVerificationStatus.UNDELIVERABLE,
+        EmailVerificationReason.NO_RECORDS,
+        EmailVerificationConfidence.HIGH,
+      )
+    } catch {
+      return result(
+        EmailVerificationStatus.UNKNOWN,
+        EmailVerificationReason.LOOKUP_FAILED,
+        EmailVerificationConfidence.LOW,
+      )
+    }
+  }
+
+  // -------------------------------------------------------------------------------------------------------------------
+
+  /**
+   * Verifica se um domínio pode receber emails.
+   * Resultados conclusivos ficam em cache pelo tempo de vida configurado; falhas de consulta não
+   * são armazenadas, para que a próxima verificação tente novamente.
+   * @param domain - Domínio a ser verificado.
+   * @returns {Promise<EmailVerificationResult>} Resultado da verificação.
+   */
+  public async verify(domain: string): Promise<EmailVerificationResult> {
+    const key = domain.trim().toLowerCase()
+    const entry = this.cache.get(key)
+
+    if (entry && entry.expiresAt > this.now()) {
+      return { ...(await entry.result), cached: true }
+    }
+
+    const result = this.lookup(key)
+    this.cache.set(key, { expiresAt: this.now() + this.ttl, result })
+
+    const outcome = await result
+    if (
+      outcome.status === EmailVerificationStatus.UNKNOWN &&
+      this.cache.get(key)?.result === result
+    ) {
+      this.cache.delete(key)
+    }
+
+    return outcome
+  }
+
+  /**
+   * Remove todos os resultados do cache.
+   */
+  public clearCache(): void {
+    this.cache.clear()
+  }
+}
+
+/**
+ * Verificador padrão, usado por `Email.verify` quando nenhum outro é informado.
+ */
+export const defaultEmailVerifier = new EmailVerifier()
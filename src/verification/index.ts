@@ -0,0 +1,2 @@
+export * from './dns-resolver'
+export * from './email-verifier'